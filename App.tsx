@@ -2,13 +2,19 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { CurriculumSelector } from './components/CurriculumSelector.tsx';
 import { StudySession } from './components/StudySession.tsx';
+import { MixedQuizSession } from './components/MixedQuizSession.tsx';
+import { ReviewSession } from './components/ReviewSession.tsx';
+import { WrongAnswerNotebook } from './components/WrongAnswerNotebook.tsx';
 import { Dashboard } from './components/Dashboard.tsx';
 import { Header } from './components/Header.tsx';
+import { SettingsModal } from './components/SettingsModal.tsx';
+import { AiStatusBanner } from './components/AiStatusBanner.tsx';
+import { UsagePanel } from './components/UsagePanel.tsx';
 import useLocalStorage from './hooks/useLocalStorage.ts';
 import { useTheme } from './hooks/useTheme.ts';
-import type { AchievementStandard, View, HistoryState } from './types.ts';
-import { EDUCATION_CURRICULUMS } from './constants.ts';
-import { initializeAi, validateApiKey } from './services/geminiService.ts';
+import type { AchievementStandard, View, HistoryState, AiSettings, MixedQuizScope } from './types.ts';
+import { EDUCATION_CURRICULUMS, DEFAULT_AI_SETTINGS } from './constants.ts';
+import { connectAiProvider } from './services/geminiService.ts';
 
 export type AppStatus = 'prompt_for_key' | 'validating_key' | 'key_valid' | 'key_invalid';
 
@@ -21,26 +27,44 @@ const App: React.FC = () => {
     const currentHistoryEntry = history[historyIndex];
     const currentView = currentHistoryEntry.view;
     const selectedStandard = currentHistoryEntry.standard;
+    const mixedScope = currentHistoryEntry.mixedScope ?? null;
 
     const [dashboardKey, setDashboardKey] = useState(Date.now());
     
     const [apiKey, setApiKey] = useLocalStorage<string>('gemini_api_key', '');
     const [appStatus, setAppStatus] = useState<AppStatus>('prompt_for_key');
     const [apiKeyError, setApiKeyError] = useState<string | null>(null);
+    const [aiSettings, setAiSettings] = useLocalStorage<AiSettings>('ai_settings', DEFAULT_AI_SETTINGS);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
 
-    const handleApiKeySubmission = useCallback(async (newKey: string) => {
-        setApiKey(newKey);
+    const connectAi = useCallback(async (settings: AiSettings, geminiApiKey: string) => {
         setAppStatus('validating_key');
         setApiKeyError(null);
         try {
-            await validateApiKey(newKey);
-            initializeAi(newKey);
+            await connectAiProvider(settings, geminiApiKey);
             setAppStatus('key_valid');
         } catch (error) {
             setApiKeyError(error instanceof Error ? error.message : "알 수 없는 오류가 발생했습니다.");
             setAppStatus('key_invalid');
         }
-    }, [setApiKey]);
+    }, []);
+
+    const handleApiKeySubmission = useCallback(async (newKey: string) => {
+        setApiKey(newKey);
+        await connectAi(aiSettings, newKey);
+    }, [setApiKey, connectAi, aiSettings]);
+
+    const handleSaveAiSettings = useCallback(async (newSettings: AiSettings) => {
+        setAiSettings(newSettings);
+        await connectAi(newSettings, apiKey);
+    }, [setAiSettings, connectAi, apiKey]);
+
+    const handleUseDemoMode = useCallback(async () => {
+        const demoSettings: AiSettings = { ...aiSettings, provider: 'mock' };
+        setAiSettings(demoSettings);
+        await connectAi(demoSettings, apiKey);
+    }, [aiSettings, setAiSettings, connectAi, apiKey]);
 
     useEffect(() => {
         if ('serviceWorker' in navigator) {
@@ -55,20 +79,24 @@ const App: React.FC = () => {
             });
         }
         
-        if (apiKey) {
-            handleApiKeySubmission(apiKey);
+        if (apiKey || aiSettings.provider !== 'gemini') {
+            connectAi(aiSettings, apiKey);
         } else {
             setAppStatus('prompt_for_key');
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
     
-    const navigate = useCallback((view: View, standard: { subjectName: string, standard: AchievementStandard } | null = null) => {
+    const navigate = useCallback((view: View, standard: { subjectName: string, standard: AchievementStandard } | null = null, mixedScope: MixedQuizScope | null = null) => {
         const newHistory = history.slice(0, historyIndex + 1);
-        const newEntry: HistoryState = { view, standard };
+        const newEntry: HistoryState = { view, standard, mixedScope };
 
         const lastEntry = newHistory[newHistory.length - 1];
-        if (lastEntry.view === newEntry.view && JSON.stringify(lastEntry.standard) === JSON.stringify(newEntry.standard)) {
+        if (
+            lastEntry.view === newEntry.view &&
+            JSON.stringify(lastEntry.standard) === JSON.stringify(newEntry.standard) &&
+            JSON.stringify(lastEntry.mixedScope ?? null) === JSON.stringify(newEntry.mixedScope)
+        ) {
             return;
         }
 
@@ -79,12 +107,28 @@ const App: React.FC = () => {
 
     const handleStartStudy = useCallback((subjectName: string, standard: AchievementStandard) => {
         if (appStatus !== 'key_valid') {
-            alert("학습을 시작하려면 유효한 API 키가 필요합니다.");
+            alert("학습을 시작하려면 유효한 API 키 또는 AI 서버 연결이 필요합니다.");
             return;
         }
         navigate('study', { subjectName, standard });
     }, [navigate, appStatus]);
 
+    const handleStartMixedQuiz = useCallback((scope: MixedQuizScope) => {
+        if (appStatus !== 'key_valid') {
+            alert("학습을 시작하려면 유효한 API 키 또는 AI 서버 연결이 필요합니다.");
+            return;
+        }
+        navigate('mixed', null, scope);
+    }, [navigate, appStatus]);
+
+    const handleStartReview = useCallback(() => {
+        if (appStatus !== 'key_valid') {
+            alert("복습을 시작하려면 유효한 API 키 또는 AI 서버 연결이 필요합니다.");
+            return;
+        }
+        navigate('review');
+    }, [navigate, appStatus]);
+
     const handleGoHome = useCallback(() => {
         navigate('selector');
     }, [navigate]);
@@ -94,6 +138,10 @@ const App: React.FC = () => {
         navigate('dashboard');
     }, [navigate]);
     
+    const handleShowNotebook = useCallback(() => {
+        navigate('notebook');
+    }, [navigate]);
+    
     const canGoBack = historyIndex > 0;
     const canGoForward = historyIndex < history.length - 1;
 
@@ -117,31 +165,65 @@ const App: React.FC = () => {
         switch (currentView) {
             case 'study':
                 if (selectedStandard) {
-                    return <StudySession subjectName={selectedStandard.subjectName} standard={selectedStandard.standard} onSessionEnd={handleShowDashboard} onGoHome={handleGoHome} />;
+                    return <StudySession key={selectedStandard.standard.id} subjectName={selectedStandard.subjectName} standard={selectedStandard.standard} onSessionEnd={handleShowDashboard} onGoHome={handleGoHome} onStudyStandard={handleStartStudy} />;
+                }
+                return (
+                    <CurriculumSelector 
+                        educationCurriculums={EDUCATION_CURRICULUMS} 
+                        onStartStudy={handleStartStudy}
+                        onStartMixedQuiz={handleStartMixedQuiz}
+                        onStartReview={handleStartReview}
+                        apiKey={apiKey}
+                        onApiKeySubmit={handleApiKeySubmission}
+                        apiStatus={appStatus}
+                        apiError={apiKeyError}
+                        aiProvider={aiSettings.provider}
+                        onOpenSettings={() => setIsSettingsOpen(true)}
+                        onUseDemoMode={handleUseDemoMode}
+                        isCoolMode={isCoolMode}
+                    />
+                );
+            case 'mixed':
+                if (mixedScope) {
+                    return <MixedQuizSession scope={mixedScope} onSessionEnd={handleShowDashboard} onGoHome={handleGoHome} />;
                 }
                 return (
                     <CurriculumSelector 
                         educationCurriculums={EDUCATION_CURRICULUMS} 
                         onStartStudy={handleStartStudy}
+                        onStartMixedQuiz={handleStartMixedQuiz}
+                        onStartReview={handleStartReview}
                         apiKey={apiKey}
                         onApiKeySubmit={handleApiKeySubmission}
                         apiStatus={appStatus}
                         apiError={apiKeyError}
+                        aiProvider={aiSettings.provider}
+                        onOpenSettings={() => setIsSettingsOpen(true)}
+                        onUseDemoMode={handleUseDemoMode}
                         isCoolMode={isCoolMode}
                     />
                 );
+            case 'review':
+                return <ReviewSession onGoHome={handleGoHome} />;
+            case 'notebook':
+                return <WrongAnswerNotebook onGoHome={handleGoHome} />;
             case 'dashboard':
-                return <Dashboard key={dashboardKey} onGoHome={handleGoHome} />;
+                return <Dashboard key={dashboardKey} onGoHome={handleGoHome} onStudyStandard={handleStartStudy} />;
             case 'selector':
             default:
                 return (
                     <CurriculumSelector 
                         educationCurriculums={EDUCATION_CURRICULUMS} 
                         onStartStudy={handleStartStudy}
+                        onStartMixedQuiz={handleStartMixedQuiz}
+                        onStartReview={handleStartReview}
                         apiKey={apiKey}
                         onApiKeySubmit={handleApiKeySubmission}
                         apiStatus={appStatus}
                         apiError={apiKeyError}
+                        aiProvider={aiSettings.provider}
+                        onOpenSettings={() => setIsSettingsOpen(true)}
+                        onUseDemoMode={handleUseDemoMode}
                         isCoolMode={isCoolMode}
                     />
                 );
@@ -157,6 +239,7 @@ const App: React.FC = () => {
             <Header
               onGoHome={handleGoHome}
               onShowDashboard={handleShowDashboard}
+              onShowNotebook={handleShowNotebook}
               onBack={handleBack}
               onForward={handleForward}
               canGoBack={canGoBack}
@@ -165,10 +248,21 @@ const App: React.FC = () => {
               setTheme={setTheme}
               onToggleCoolMode={handleToggleCoolMode}
               isCoolMode={isCoolMode}
+              onOpenSettings={() => setIsSettingsOpen(true)}
+              onOpenUsage={() => setIsUsageOpen(true)}
             />
             <main className="container mx-auto p-2 md:p-6">
+                <AiStatusBanner />
                 {renderContent()}
             </main>
+            {isSettingsOpen && (
+                <SettingsModal
+                    aiSettings={aiSettings}
+                    onSaveAiSettings={handleSaveAiSettings}
+                    onClose={() => setIsSettingsOpen(false)}
+                />
+            )}
+            {isUsageOpen && <UsagePanel onClose={() => setIsUsageOpen(false)} />}
         </div>
     );
 };
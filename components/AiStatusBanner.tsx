@@ -0,0 +1,35 @@
+import React, { useSyncExternalStore } from 'react';
+import { useAiSchedulerState } from '../hooks/useAiSchedulerState.ts';
+import { getUsageLedger, subscribeUsageLedger, getBudgetOverruns } from '../services/usageLedger.ts';
+
+// Shows when AI requests are being held back by rate limits or daily budgets, so a slow
+// screen isn't mistaken for a broken one.
+export const AiStatusBanner: React.FC = () => {
+    const { cooldownSeconds, queuedCount, isDegraded } = useAiSchedulerState();
+    // Subscribing re-renders the banner whenever usage is recorded.
+    useSyncExternalStore(subscribeUsageLedger, getUsageLedger);
+    const budgetOverruns = getBudgetOverruns();
+
+    if (cooldownSeconds === 0 && !isDegraded) {
+        if (budgetOverruns.length === 0) return null;
+        return (
+            <div className="max-w-4xl mx-auto mb-2 px-3 py-2 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 text-xs sm:text-sm" role="status">
+                {budgetOverruns.map(message => <p key={message}>📊 {message}</p>)}
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto mb-2 px-3 py-2 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 text-xs sm:text-sm" role="status">
+            {cooldownSeconds > 0 ? (
+                <p className="font-semibold">
+                    ⏳ AI 사용량 한도에 도달해 {cooldownSeconds}초 후 자동으로 다시 요청합니다.
+                    {queuedCount > 0 && ` (대기 중인 요청 ${queuedCount}개)`}
+                </p>
+            ) : (
+                <p className="font-semibold">⚠️ AI 사용량이 많아 잠시 아껴서 사용하고 있어요.</p>
+            )}
+            {isDegraded && <p className="mt-0.5">이미지와 핵심 요약 같은 부가 기능은 잠시 생략됩니다.</p>}
+        </div>
+    );
+};
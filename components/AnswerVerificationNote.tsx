@@ -0,0 +1,42 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import type { AnswerVerification } from '../types.ts';
+import { preprocessLaTeX } from '../services/geminiService.ts';
+
+// Shows the outcome of the independent re-solve of a question's answer key.
+export const AnswerVerificationNote: React.FC<{ verification?: AnswerVerification }> = ({ verification }) => {
+    if (!verification) return null;
+
+    if (verification.status === 'verified') {
+        return <p className="mt-2 text-xs text-green-700 dark:text-green-400">✔ AI가 다시 풀어 정답을 확인한 문제입니다.</p>;
+    }
+
+    if (verification.status === 'unchecked') {
+        return <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">정답 검증을 하지 못한 문제입니다.</p>;
+    }
+
+    return (
+        <div className="mt-2 p-2 rounded border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-200">
+            <p className="font-semibold">⚠️ 정답 확인 필요: AI가 다시 풀었을 때 다른 답이 나왔어요.</p>
+            {verification.solvedAnswer && (
+                <div className="mt-1 flex flex-wrap items-center gap-1">
+                    <span>다시 푼 답:</span>
+                    <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]}>
+                        {preprocessLaTeX(verification.solvedAnswer)}
+                    </ReactMarkdown>
+                </div>
+            )}
+            {verification.reasoning && (
+                <div className="mt-1 text-amber-700 dark:text-amber-300">
+                    <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]}>
+                        {preprocessLaTeX(verification.reasoning)}
+                    </ReactMarkdown>
+                </div>
+            )}
+            <p className="mt-1">정답 키가 틀렸을 수 있으니 선생님께 확인해보세요.</p>
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ContentCacheEntry, ContentCacheKind } from '../types.ts';
+import { listCachedContent, deleteCachedContent, clearContentCache, CONTENT_CACHE_MAX_BYTES, CONTENT_CACHE_TTL_MS } from '../services/contentCache.ts';
+import { Button } from './common/Button.tsx';
+import { Spinner } from './common/Spinner.tsx';
+
+const KIND_LABELS: Record<ContentCacheKind, string> = {
+    'explanation': '설명',
+    'concept-summary': '핵심 요약',
+    'illustration': '이미지',
+};
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes}B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+export const ContentCacheManager: React.FC = () => {
+    const [entries, setEntries] = useState<ContentCacheEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        const list = await listCachedContent();
+        setEntries(list.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt));
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleDelete = async (key: string) => {
+        setError(null);
+        try {
+            await deleteCachedContent(key);
+            await refresh();
+        } catch (err) {
+            console.error(err);
+            setError("캐시를 삭제하지 못했습니다.");
+        }
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm("저장된 설명, 요약, 이미지를 모두 삭제할까요?")) return;
+        setError(null);
+        try {
+            await clearContentCache();
+            await refresh();
+        } catch (err) {
+            console.error(err);
+            setError("캐시를 삭제하지 못했습니다.");
+        }
+    };
+
+    const totalSize = entries?.reduce((sum, entry) => sum + entry.size, 0) ?? 0;
+    const ttlDays = Math.round(CONTENT_CACHE_TTL_MS / (24 * 60 * 60 * 1000));
+
+    return (
+        <section className="space-y-2 mt-5">
+            <h3 className="text-sm font-bold text-neon-blue">저장된 학습 콘텐츠</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 leading-snug">
+                한 번 생성한 설명, 요약, 이미지는 이 기기에 {ttlDays}일 동안 저장되어 다시 열 때 바로 표시됩니다. 용량이 {formatBytes(CONTENT_CACHE_MAX_BYTES)}를 넘으면 오래 사용하지 않은 항목부터 지워집니다.
+            </p>
+            {entries === null ? (
+                <Spinner size="sm" />
+            ) : (
+                <>
+                    <div className="flex justify-between items-center text-xs text-slate-600 dark:text-slate-300">
+                        <span>{entries.length}개 항목 · {formatBytes(totalSize)} / {formatBytes(CONTENT_CACHE_MAX_BYTES)}</span>
+                        <Button variant="secondary" onClick={handleClear} disabled={entries.length === 0} className="!py-1 !px-2 text-xs">전체 삭제</Button>
+                    </div>
+                    {entries.length > 0 && (
+                        <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+                            {entries.map(entry => (
+                                <li key={entry.key} className="flex items-center justify-between gap-2 px-2 py-1.5 text-xs">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-slate-700 dark:text-slate-200 truncate">
+                                            [{KIND_LABELS[entry.kind]}] {entry.subjectName} · {entry.standardId}
+                                        </p>
+                                        <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                                            {new Date(entry.createdAt).toLocaleDateString()} · {formatBytes(entry.size)} · {entry.model}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => handleDelete(entry.key)}
+                                        className="shrink-0 text-slate-400 hover:text-red-500 transition-colors"
+                                        aria-label={`${entry.standardId} ${KIND_LABELS[entry.kind]} 삭제`}
+                                    >
+                                        삭제
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </>
+            )}
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+        </section>
+    );
+};
@@ -1,17 +1,25 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { EducationCurriculum, Subject, Unit, GradeContent, AchievementStandard } from '../types.ts';
+import type { EducationCurriculum, Subject, Unit, GradeContent, AchievementStandard, AiProviderId, MixedQuizScope } from '../types.ts';
 import { Button } from './common/Button.tsx';
 import type { AppStatus } from '../App.tsx';
 import { Spinner } from './common/Spinner.tsx';
+import { PrerequisiteGraph } from './PrerequisiteGraph.tsx';
+import { ReviewQueueCard } from './ReviewSession.tsx';
+import { AI_PROVIDER_OPTIONS } from '../constants.ts';
 
 interface CurriculumSelectorProps {
     educationCurriculums: EducationCurriculum[];
     onStartStudy: (subjectName: string, standard: AchievementStandard) => void;
+    onStartMixedQuiz: (scope: MixedQuizScope) => void;
+    onStartReview: () => void;
     apiKey: string;
     onApiKeySubmit: (key: string) => void;
     apiStatus: AppStatus;
     apiError: string | null;
+    aiProvider: AiProviderId;
+    onOpenSettings: () => void;
+    onUseDemoMode: () => void;
     isCoolMode: boolean;
 }
 
@@ -26,10 +34,15 @@ interface SearchableStandard {
 export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({ 
     educationCurriculums, 
     onStartStudy,
+    onStartMixedQuiz,
+    onStartReview,
     apiKey,
     onApiKeySubmit,
     apiStatus,
     apiError,
+    aiProvider,
+    onOpenSettings,
+    onUseDemoMode,
     isCoolMode
 }) => {
     const [selectedCurriculumName, setSelectedCurriculumName] = useState<string>(educationCurriculums[0].name);
@@ -38,12 +51,18 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
     const [selectedSubjectName, setSelectedSubjectName] = useState<string>(educationCurriculums[0]?.subjects[0]?.name || '');
     const [selectedUnitName, setSelectedUnitName] = useState<string>('');
     const [selectedStandardId, setSelectedStandardId] = useState<string>('');
+
+    // Mixed mode: several standards of one subject quizzed together (단원평가, 중간고사 review).
+    // The picks survive switching 선택과목 so a quiz can span them.
+    const [isMixedMode, setIsMixedMode] = useState(false);
+    const [mixedStandardIds, setMixedStandardIds] = useState<string[]>([]);
     
     // Local state for API key input to allow typing before submitting
     const [localApiKey, setLocalApiKey] = useState(apiKey);
     
     // State for Usage Guide Modal
     const [isUsageGuideOpen, setIsUsageGuideOpen] = useState(false);
+    const [isPrerequisiteGraphOpen, setIsPrerequisiteGraphOpen] = useState(false);
 
     // Search State
     const [searchTerm, setSearchTerm] = useState('');
@@ -106,6 +125,7 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
         availableSubjects,
         selectedSubject,
         availableGrades,
+        selectedGradeContent,
         availableUnits,
         availableStandards,
         selectedStandard,
@@ -151,6 +171,7 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
         setSelectedGrade('');
         setSelectedUnitName('');
         setSelectedStandardId('');
+        setMixedStandardIds([]);
     };
 
     const handleGradeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -174,7 +195,44 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
         }
     };
 
+    // Every standard of the subject in curriculum order, with where it sits
+    const subjectStandards = useMemo(() => (selectedSubject?.grades || []).flatMap(grade =>
+        grade.units.flatMap(unit => unit.standards.map(standard => ({ grade: grade.grade, unitName: unit.name, standard })))
+    ), [selectedSubject]);
+
+    const mixedSelection = useMemo(
+        () => subjectStandards.filter(item => mixedStandardIds.includes(item.standard.id)),
+        [subjectStandards, mixedStandardIds]
+    );
+
+    const toggleMixedStandards = (ids: string[]) => {
+        setMixedStandardIds(prev => ids.every(id => prev.includes(id))
+            ? prev.filter(id => !ids.includes(id))
+            : [...prev, ...ids.filter(id => !prev.includes(id))]);
+    };
+
+    const handleStartMixed = () => {
+        if (!selectedSubject || mixedSelection.length === 0) return;
+        const grades = [...new Set(mixedSelection.map(item => item.grade))];
+        const gradeTotal = subjectStandards.filter(item => item.grade === grades[0]).length;
+        const units = [...new Set(mixedSelection.map(item => `${item.grade} > ${item.unitName}`))];
+        const unitTotal = subjectStandards.filter(item => `${item.grade} > ${item.unitName}` === units[0]).length;
+        const title = grades.length === 1 && mixedSelection.length === gradeTotal
+            ? `${grades[0]} 전체`
+            : units.length === 1 && mixedSelection.length === unitTotal
+                ? units[0]
+                : `성취기준 ${mixedSelection.length}개 종합`;
+        onStartMixedQuiz({ subjectName: selectedSubject.name, title, standards: mixedSelection.map(item => item.standard) });
+    };
+
     const handleSearchSelect = (item: SearchableStandard) => {
+        if (isMixedMode) {
+            if (item.subjectName !== selectedSubjectName) {
+                setMixedStandardIds([item.standard.id]);
+            } else if (!mixedStandardIds.includes(item.standard.id)) {
+                setMixedStandardIds(prev => [...prev, item.standard.id]);
+            }
+        }
         // Update all selections to match the search result
         setSelectedCurriculumName(item.curriculumName);
         setSelectedSubjectName(item.subjectName);
@@ -292,6 +350,8 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                     교육과정 성취기준을 선택하면 AI가 개념 설명과 문제 풀이를 도와줍니다.
                 </p>
             </div>
+
+            <ReviewQueueCard onStartReview={onStartReview} />
             
             <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg px-4 py-2 md:px-6 md:py-3 mt-2 text-left transition-colors duration-300">
                 <div className="mb-1.5 pb-1 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
@@ -355,6 +415,24 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                 </div>
 
                 <div className="space-y-2.5">
+                    <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg">
+                        {[
+                            { mixed: false, label: '성취기준 하나 학습' },
+                            { mixed: true, label: '여러 성취기준 종합 문제' },
+                        ].map(mode => (
+                            <button
+                                key={mode.label}
+                                onClick={() => setIsMixedMode(mode.mixed)}
+                                className={`py-1.5 rounded-md text-xs sm:text-sm font-semibold transition-colors ${
+                                    isMixedMode === mode.mixed
+                                        ? 'bg-white dark:bg-slate-800 text-neon-blue shadow-sm'
+                                        : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                                }`}
+                            >
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
                     <div className="flex gap-2">
                         <div className="flex-1">
                             <label htmlFor="subject" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">교과</label>
@@ -371,6 +449,80 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                             </Select>
                         </div>
                     </div>
+                    {selectedGrade && isSubjectReady && (
+                        <div className="text-right -mt-1">
+                            <button
+                                onClick={() => setIsPrerequisiteGraphOpen(true)}
+                                className="text-xs font-medium text-neon-blue hover:underline"
+                            >
+                                🗺 {selectedGrade} 선수 학습 지도
+                            </button>
+                        </div>
+                    )}
+                    {isMixedMode ? (
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <span className="block text-xs font-bold text-slate-700 dark:text-slate-300">문제에 넣을 성취기준</span>
+                                {selectedGradeContent && isSubjectReady && (
+                                    <button
+                                        onClick={() => toggleMixedStandards(selectedGradeContent.units.flatMap(unit => unit.standards.map(standard => standard.id)))}
+                                        className="text-xs font-medium text-neon-blue hover:underline"
+                                    >
+                                        {selectedGrade} 전체
+                                    </button>
+                                )}
+                            </div>
+                            {!selectedGrade ? (
+                                <DisabledSelectPlaceholder text="선택과목을 먼저 고르세요" />
+                            ) : !isSubjectReady ? (
+                                <DisabledSelectPlaceholder text="준비중인 단원입니다." />
+                            ) : (
+                                <div className="max-h-72 overflow-y-auto border border-slate-200 dark:border-slate-600 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+                                    {availableUnits.map(unit => {
+                                        const unitIds = unit.standards.map(standard => standard.id);
+                                        const pickedCount = unitIds.filter(id => mixedStandardIds.includes(id)).length;
+                                        return (
+                                            <div key={unit.name} className="p-2">
+                                                <label className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-100 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={pickedCount === unitIds.length && unitIds.length > 0}
+                                                        ref={el => { if (el) el.indeterminate = pickedCount > 0 && pickedCount < unitIds.length; }}
+                                                        onChange={() => toggleMixedStandards(unitIds)}
+                                                        className="accent-neon-blue"
+                                                    />
+                                                    {unit.name}
+                                                </label>
+                                                <div className="mt-1 pl-6 space-y-1">
+                                                    {unit.standards.map(standard => (
+                                                        <label key={standard.id} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300 leading-snug cursor-pointer">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={mixedStandardIds.includes(standard.id)}
+                                                                onChange={() => toggleMixedStandards([standard.id])}
+                                                                className="mt-0.5 accent-neon-blue"
+                                                            />
+                                                            <span><span className="font-bold text-neon-blue mr-1">{standard.id}</span>{standard.description}</span>
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                            {mixedSelection.length > 0 && (
+                                <div className="mt-1 flex justify-between items-center text-xs text-slate-500 dark:text-slate-400">
+                                    <span>
+                                        {mixedSelection.length}개 선택됨
+                                        {new Set(mixedSelection.map(item => item.grade)).size > 1 && ` (${[...new Set(mixedSelection.map(item => item.grade))].join(', ')})`}
+                                    </span>
+                                    <button onClick={() => setMixedStandardIds([])} className="hover:text-red-500 hover:underline">선택 해제</button>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                    <>
                     <div>
                         <label htmlFor="unit" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">단원</label>
                         {selectedGrade && !isSubjectReady ? (
@@ -398,57 +550,86 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
                             </p>
                         )}
                     </div>
+                    </>
+                    )}
 
                     {/* API Key Input Section */}
-                    <div className="pt-3 mt-4 border-t border-slate-100 dark:border-slate-700">
-                        <label htmlFor="api-key-input" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">
-                            Google AI Studio API 키
-                        </label>
-                        <p className="text-[11px] sm:text-xs text-[#001F3F] dark:text-slate-300 mb-2 leading-snug">
-                            Google AI 기반의 맞춤형 학습 콘텐츠 생성을 위해서는 API 키 입력이 필요합니다. 다만, 만 18세 미만 이용자는 직접 API 키를 발급받을 수 없으므로, 보호자가 대신 무료 API 키를 발급한 후 학생에게 전달(예: 이메일 전송)하여 사용할 수 있습니다.
-                        </p>
-                        <div className="flex gap-2">
-                            <input 
-                                id="api-key-input"
-                                type="password" 
-                                value={localApiKey}
-                                onChange={(e) => setLocalApiKey(e.target.value)}
-                                className={`flex-1 bg-slate-50 dark:bg-slate-700 border rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none ${apiError ? 'border-red-500 ring-1 ring-red-500' : 'border-slate-300 dark:border-slate-600'}`}
-                                placeholder="API 키를 입력하세요"
-                            />
-                            <Button 
-                                onClick={handleApiKeySave} 
-                                variant="secondary"
-                                className="!py-2 !px-3 text-xs shrink-0"
-                                disabled={apiStatus === 'validating_key'}
+                    {aiProvider === 'gemini' ? (
+                        <div className="pt-3 mt-4 border-t border-slate-100 dark:border-slate-700">
+                            <label htmlFor="api-key-input" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">
+                                Google AI Studio API 키
+                            </label>
+                            <p className="text-[11px] sm:text-xs text-[#001F3F] dark:text-slate-300 mb-2 leading-snug">
+                                Google AI 기반의 맞춤형 학습 콘텐츠 생성을 위해서는 API 키 입력이 필요합니다. 다만, 만 18세 미만 이용자는 직접 API 키를 발급받을 수 없으므로, 보호자가 대신 무료 API 키를 발급한 후 학생에게 전달(예: 이메일 전송)하여 사용할 수 있습니다.
+                            </p>
+                            <div className="flex gap-2">
+                                <input 
+                                    id="api-key-input"
+                                    type="password" 
+                                    value={localApiKey}
+                                    onChange={(e) => setLocalApiKey(e.target.value)}
+                                    className={`flex-1 bg-slate-50 dark:bg-slate-700 border rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none ${apiError ? 'border-red-500 ring-1 ring-red-500' : 'border-slate-300 dark:border-slate-600'}`}
+                                    placeholder="API 키를 입력하세요"
+                                />
+                                <Button 
+                                    onClick={handleApiKeySave} 
+                                    variant="secondary"
+                                    className="!py-2 !px-3 text-xs shrink-0"
+                                    disabled={apiStatus === 'validating_key'}
+                                >
+                                    {apiStatus === 'validating_key' ? <Spinner size="sm" /> : '확인'}
+                                </Button>
+                            </div>
+                            {apiError && <p className="text-red-500 text-xs mt-1">{apiError}</p>}
+                            {apiStatus === 'key_valid' && !apiError && <p className="text-lime-green text-xs mt-1 font-medium">API 키가 확인되었습니다.</p>}
+                             <div className="text-right mt-1">
+                                <a 
+                                    href="https://aistudio.google.com/app/apikey" 
+                                    target="_blank" 
+                                    rel="noopener noreferrer" 
+                                    className="text-[10px] text-[#FF4500] dark:text-[#FF6347] hover:text-orange-600 hover:underline"
+                                >
+                                    무료 API 키 발급받기 ↗
+                                </a>
+                            </div>
+                            <button
+                                onClick={onUseDemoMode}
+                                className="w-full mt-2 text-xs text-slate-500 dark:text-slate-400 hover:text-neon-blue hover:underline"
                             >
-                                {apiStatus === 'validating_key' ? <Spinner size="sm" /> : '확인'}
-                            </Button>
+                                키 없이 데모 모드로 체험하기
+                            </button>
                         </div>
-                        {apiError && <p className="text-red-500 text-xs mt-1">{apiError}</p>}
-                        {apiStatus === 'key_valid' && !apiError && <p className="text-lime-green text-xs mt-1 font-medium">API 키가 확인되었습니다.</p>}
-                         <div className="text-right mt-1">
-                            <a 
-                                href="https://aistudio.google.com/app/apikey" 
-                                target="_blank" 
-                                rel="noopener noreferrer" 
-                                className="text-[10px] text-[#FF4500] dark:text-[#FF6347] hover:text-orange-600 hover:underline"
-                            >
-                                무료 API 키 발급받기 ↗
-                            </a>
+                    ) : (
+                        <div className="pt-3 mt-4 border-t border-slate-100 dark:border-slate-700">
+                            <div className="flex justify-between items-center gap-2">
+                                <div>
+                                    <p className="text-xs font-bold text-slate-700 dark:text-slate-300">{AI_PROVIDER_OPTIONS.find(option => option.id === aiProvider)?.name} 사용 중</p>
+                                    {aiProvider === 'mock' && <p className="text-slate-500 text-xs mt-1">미리 준비된 예시 콘텐츠로 동작합니다. 실제 AI는 호출하지 않습니다.</p>}
+                                    {apiStatus === 'validating_key' && <p className="text-slate-500 text-xs mt-1">서버에 연결하는 중...</p>}
+                                    {apiError && <p className="text-red-500 text-xs mt-1">{apiError}</p>}
+                                    {apiStatus === 'key_valid' && !apiError && aiProvider !== 'mock' && <p className="text-lime-green text-xs mt-1 font-medium">AI 서버에 연결되었습니다.</p>}
+                                </div>
+                                <Button
+                                    onClick={onOpenSettings}
+                                    variant="secondary"
+                                    className="!py-2 !px-3 text-xs shrink-0"
+                                >
+                                    AI 설정
+                                </Button>
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </div>
             </div>
 
              <div className="fixed bottom-0 left-0 right-0 bg-white/90 dark:bg-slate-900/90 backdrop-blur-sm border-t border-slate-200 dark:border-slate-700 p-3 z-10 md:static md:bg-transparent md:border-0 md:p-0 md:mt-6">
                 <div className="max-w-3xl mx-auto">
                     <Button 
-                        onClick={handleSubmit} 
-                        disabled={!selectedStandardId || apiStatus !== 'key_valid'} 
+                        onClick={isMixedMode ? handleStartMixed : handleSubmit} 
+                        disabled={(isMixedMode ? mixedSelection.length === 0 : !selectedStandardId) || apiStatus !== 'key_valid'} 
                         className={`w-full text-base font-bold py-3 shadow-lg md:shadow-none disabled:bg-slate-300 dark:disabled:bg-slate-700 disabled:text-slate-500 dark:disabled:text-slate-500 ${isCoolMode ? '!bg-cyan-400 !text-white hover:!brightness-95 focus:!ring-cyan-400' : '!bg-yellow-gold !text-black hover:!brightness-95 focus:!ring-yellow-gold'}`}
                     >
-                        {apiStatus === 'key_valid' ? '학습 시작하기' : 'API 키를 확인해주세요'}
+                        {apiStatus === 'key_valid' ? (isMixedMode ? `종합 문제 풀기 (${mixedSelection.length}개 성취기준)` : '학습 시작하기') : aiProvider === 'gemini' ? 'API 키를 확인해주세요' : 'AI 서버 연결을 확인해주세요'}
                     </Button>
                 </div>
             </div>
@@ -458,6 +639,14 @@ export const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({
             </div>
 
             {isUsageGuideOpen && <UsageGuideModal />}
+            {isPrerequisiteGraphOpen && (
+                <PrerequisiteGraph
+                    subjectName={selectedSubjectName}
+                    grade={selectedGrade}
+                    onClose={() => setIsPrerequisiteGraphOpen(false)}
+                    onStudyStandard={apiStatus === 'key_valid' ? onStartStudy : undefined}
+                />
+            )}
         </div>
     );
 };
@@ -1,12 +1,20 @@
 
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
 import useLocalStorage from '../hooks/useLocalStorage.ts';
-import type { QuizResult } from '../types.ts';
-import { EDUCATION_CURRICULUMS } from '../constants.ts';
+import type { QuizResult, MisconceptionType, AchievementStandard } from '../types.ts';
+import { EDUCATION_CURRICULUMS, MISCONCEPTION_OPTIONS } from '../constants.ts';
 import { Button } from './common/Button.tsx';
 import { Card } from './common/Card.tsx';
 import { Spinner } from './common/Spinner.tsx';
-import { generateLearningDiagnosis, preprocessLaTeX } from '../services/geminiService.ts';
+import { AnswerVerificationNote } from './AnswerVerificationNote.tsx';
+import { SolutionSteps } from './SolutionSteps.tsx';
+import { QuestionFigures, figureMarkdownComponents } from './MarkdownFigures.tsx';
+import { SimilarPractice } from './SimilarPractice.tsx';
+import { WeakPrerequisiteList } from './PrerequisiteGraph.tsx';
+import { generateLearningDiagnosis, classifyMisconceptions, preprocessLaTeX } from '../services/geminiService.ts';
+import { isAbortError } from '../services/aiProvider.ts';
+import { upsertStudyResult, needsMisconceptionTagging, countMisconceptions, splitByStandard } from '../services/studyHistory.ts';
+import { getPrerequisiteGraph, findWeakStandards, findWeakPrerequisites } from '../services/prerequisites.ts';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -84,13 +92,213 @@ const CustomAxisTick = ({ x, y, payload, dy = 16, dx = 0, textAnchor = "middle"
     </g>
 );
 
-const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = ({ result, onClose }) => {
+interface QuizReviewModalProps {
+    result: QuizResult;
+    // Similar-question practice results linked to questions of this result
+    practiceResults: QuizResult[];
+    onPracticeSimilar: (questionIndex: number) => void;
+    onClose: () => void;
+}
+
+const misconceptionName = (type: MisconceptionType) => MISCONCEPTION_OPTIONS.find(option => option.id === type)?.name ?? type;
+
+// For each weak standard, the prerequisites that are likely why: weak or never studied ones.
+const PrerequisitePanel: React.FC<{ history: QuizResult[]; onStudyStandard?: (subjectName: string, standard: AchievementStandard) => void }> = ({ history, onStudyStandard }) => {
+    const rows = useMemo(() => {
+        const graph = getPrerequisiteGraph();
+        return findWeakStandards(history).slice(0, 5).map(({ location, score }) => ({
+            location,
+            score,
+            prerequisites: findWeakPrerequisites(graph, location.standard.id, history),
+        }));
+    }, [history]);
+
+    if (rows.length === 0) return null;
+
+    return (
+        <Card className="mb-6 p-4">
+            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-1">선수 학습 점검</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">점수가 낮은 성취기준마다, 바탕이 되는 내용 중 약하거나 아직 풀어 보지 않은 것을 찾아봤어요.</p>
+            <div className="space-y-4">
+                {rows.map(row => (
+                    <div key={row.location.standard.id} className="border-b border-slate-100 dark:border-slate-700 pb-3 last:border-0 last:pb-0">
+                        <p className="text-sm text-slate-800 dark:text-slate-100 leading-snug mb-1">
+                            <span className="font-bold text-neon-blue mr-1">{row.location.standard.id}</span>
+                            {row.location.standard.description}
+                            <span className="ml-1 text-xs font-semibold text-red-500">최근 {Math.round(row.score)}점</span>
+                        </p>
+                        {row.prerequisites.length > 0 ? (
+                            <div className="pl-3 border-l-2 border-sunset-orange/50">
+                                <WeakPrerequisiteList prerequisites={row.prerequisites} onStudyStandard={onStudyStandard} />
+                            </div>
+                        ) : (
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                선수 학습은 탄탄해요. 이 성취기준의 개념을 다시 복습해 보세요.
+                                {onStudyStandard && (
+                                    <button
+                                        onClick={() => onStudyStandard(row.location.subjectName, row.location.standard)}
+                                        className="ml-1 font-semibold text-neon-blue hover:underline"
+                                    >
+                                        복습하기
+                                    </button>
+                                )}
+                            </p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </Card>
+    );
+};
+
+// Where a subject's points go: mistake kinds overall and per unit, from tagged wrong answers.
+// Results saved before tagging existed (or whose tagging didn't finish) can be analysed here.
+const MisconceptionPanel: React.FC<{ history: QuizResult[]; onTagged: (result: QuizResult) => void }> = ({ history, onTagged }) => {
+    const [selectedSubject, setSelectedSubject] = useState('');
+    const [isTagging, setIsTagging] = useState(false);
+    const [taggingError, setTaggingError] = useState<string | null>(null);
+    const taggingAbortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => taggingAbortRef.current?.abort(), []);
+
+    const untagged = useMemo(() => history.filter(needsMisconceptionTagging), [history]);
+    const tagged = useMemo(() => history.filter(result => result.misconceptions?.some(tag => tag)), [history]);
+    const subjects = useMemo(() => [...new Set(tagged.map(result => result.subject))], [tagged]);
+    const subject = subjects.includes(selectedSubject) ? selectedSubject : subjects[0];
+
+    const subjectResults = useMemo(() => tagged.filter(result => result.subject === subject), [tagged, subject]);
+    const typeCounts = countMisconceptions(subjectResults);
+    const total = Object.values(typeCounts).reduce((sum, count) => sum + (count ?? 0), 0);
+
+    const unitRows = useMemo(() => {
+        const byUnit = new Map<string, Partial<Record<MisconceptionType, number>>>();
+        subjectResults.forEach(result => {
+            (result.misconceptions || []).forEach((tag, index) => {
+                if (!tag) return;
+                // Questions of a mixed quiz each belong to their own standard
+                const standardId = result.questions?.[index]?.standardId ?? result.standardId;
+                const unit = findDetailsForStandard(standardId)?.unitName || '기타';
+                const counts = byUnit.get(unit) || {};
+                counts[tag.type] = (counts[tag.type] ?? 0) + 1;
+                byUnit.set(unit, counts);
+            });
+        });
+        return [...byUnit.entries()]
+            .map(([unit, counts]) => ({ unit, counts }))
+            .map(row => ({ ...row, total: Object.values(row.counts).reduce((sum, count) => sum + (count ?? 0), 0) }))
+            .sort((a, b) => b.total - a.total);
+    }, [subjectResults]);
+
+    const recentNotes = subjectResults
+        .slice()
+        .reverse()
+        .flatMap(result => (result.misconceptions || []).flatMap(tag => (tag && tag.note ? [tag] : [])))
+        .slice(0, 3);
+
+    const handleTagAll = async () => {
+        taggingAbortRef.current?.abort();
+        const controller = new AbortController();
+        taggingAbortRef.current = controller;
+        setIsTagging(true);
+        setTaggingError(null);
+        try {
+            // One request per result, oldest first, saved as each one finishes
+            for (const result of untagged) {
+                const misconceptions = await classifyMisconceptions(result, controller.signal);
+                onTagged({ ...result, misconceptions });
+            }
+        } catch (error) {
+            if (isAbortError(error)) return;
+            setTaggingError(error instanceof Error ? error.message : '오답 원인을 분석하지 못했습니다.');
+        } finally {
+            if (taggingAbortRef.current === controller) {
+                taggingAbortRef.current = null;
+                setIsTagging(false);
+            }
+        }
+    };
+
+    return (
+        <Card className="mb-6 p-4">
+            <div className="flex justify-between items-center gap-2 mb-1">
+                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">오답 원인 분석</h3>
+                {subjects.length > 1 && (
+                    <select
+                        value={subject}
+                        onChange={e => setSelectedSubject(e.target.value)}
+                        className="bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg py-1 px-2 text-xs sm:text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue"
+                    >
+                        {subjects.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                )}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">틀린 문제마다 왜 틀렸는지 분류해서 모아 봤어요.</p>
+
+            {total > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                        {MISCONCEPTION_OPTIONS.filter(option => typeCounts[option.id]).map(option => (
+                            <div key={option.id} title={option.description}>
+                                <div className="flex justify-between text-xs mb-0.5">
+                                    <span className="font-semibold text-slate-700 dark:text-slate-200">{option.name}</span>
+                                    <span className="text-slate-500 dark:text-slate-400">{typeCounts[option.id]}회 ({Math.round((typeCounts[option.id]! / total) * 100)}%)</span>
+                                </div>
+                                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+                                    <div className="bg-sunset-orange h-2 rounded-full" style={{ width: `${(typeCounts[option.id]! / total) * 100}%` }}></div>
+                                </div>
+                            </div>
+                        ))}
+                        {recentNotes.length > 0 && (
+                            <ul className="pt-2 space-y-1 text-xs text-slate-600 dark:text-slate-300">
+                                {recentNotes.map((tag, index) => (
+                                    <li key={index}><span className="font-semibold">{misconceptionName(tag.type)}</span> · {tag.note}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <div>
+                        <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2">단원별</p>
+                        <ul className="space-y-2">
+                            {unitRows.map(row => (
+                                <li key={row.unit} className="text-sm">
+                                    <p className="font-medium text-slate-800 dark:text-slate-100 truncate">{row.unit}</p>
+                                    <div className="flex flex-wrap gap-1 mt-0.5">
+                                        {MISCONCEPTION_OPTIONS.filter(option => row.counts[option.id]).map(option => (
+                                            <span key={option.id} className="text-[11px] px-1.5 py-0.5 rounded bg-orange-50 text-orange-700 dark:bg-orange-900/20 dark:text-orange-300">
+                                                {option.name} {row.counts[option.id]}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400">아직 분석된 오답이 없어요.</p>
+            )}
+
+            {untagged.length > 0 && (
+                <div className="mt-4 pt-3 border-t border-slate-100 dark:border-slate-700 flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-xs text-slate-500 dark:text-slate-400">오답 원인을 아직 분석하지 않은 기록이 {untagged.length}개 있어요.</span>
+                    <Button variant="secondary" onClick={handleTagAll} disabled={isTagging} className="!py-1.5 !px-3 text-xs">
+                        {isTagging ? <Spinner size="sm" /> : '오답 원인 분석하기'}
+                    </Button>
+                </div>
+            )}
+            {taggingError && <p className="text-red-500 text-xs mt-2">{taggingError}</p>}
+        </Card>
+    );
+};
+
+const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ result, practiceResults, onPracticeSimilar, onClose }) => {
     const markdownComponents = {
         table: (props: any) => <div className="overflow-x-auto mb-2"><table className="table-auto w-full border-collapse border border-slate-300 dark:border-slate-600" {...props} /></div>,
         thead: (props: any) => <thead className="bg-slate-100 dark:bg-slate-700" {...props} />,
         th: (props: any) => <th className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-left whitespace-nowrap text-sm" {...props} />,
         td: (props: any) => <td className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-sm min-w-[100px]" {...props} />,
         p: (props: any) => <p className="mb-0 leading-snug" {...props} />, 
+        ...figureMarkdownComponents,
     };
 
     if (!result.questions) {
@@ -114,11 +322,27 @@ const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = (
                     {result.questions.map((q, idx) => {
                         const userAnswer = result.userAnswers ? result.userAnswers[idx] : null;
                         const isCorrect = result.correctness ? result.correctness[idx] : false;
+                        const hintCount = result.hintsUsed ? result.hintsUsed[idx] : 0;
+                        const practices = practiceResults.filter(practice => practice.practiceOf?.questionIndex === idx);
+                        const misconception = result.misconceptions?.[idx];
 
                         return (
                             <div key={idx} className="border border-slate-200 dark:border-slate-700 rounded-lg p-3 sm:p-4 bg-slate-50 dark:bg-slate-700/30">
                                 <div className="flex justify-between items-start gap-2 mb-2">
                                     <span className="text-sm font-bold text-slate-700 dark:text-slate-300">문제 {idx + 1}</span>
+                                    {result.standardBreakdown && q.standardId && (
+                                        <span className="text-xs px-2 py-0.5 rounded font-bold bg-neon-blue/10 text-neon-blue">{q.standardId}</span>
+                                    )}
+                                    {result.exam && (
+                                        <span className="text-xs px-2 py-0.5 rounded font-bold bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+                                            {result.exam.ungraded?.includes(idx) ? '채점 안 됨' : `${Number(result.exam.earnedPoints[idx].toFixed(1))} / ${result.exam.points[idx]}점`}
+                                        </span>
+                                    )}
+                                    {hintCount > 0 && (
+                                        <span className="ml-auto text-xs px-2 py-0.5 rounded font-bold bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400">
+                                            💡 힌트 {hintCount}개 사용
+                                        </span>
+                                    )}
                                     <span className={`text-xs px-2 py-0.5 rounded font-bold ${isCorrect ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'}`}>
                                         {isCorrect ? '정답' : '오답'}
                                     </span>
@@ -133,6 +357,7 @@ const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = (
                                             {preprocessLaTeX(q.question)}
                                         </ReactMarkdown>
                                     </div>
+                                    <QuestionFigures question={q} />
                                     {q.questionTranslation && (
                                         <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
                                             {preprocessLaTeX(q.questionTranslation)}
@@ -178,6 +403,12 @@ const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = (
                                                 </ReactMarkdown>
                                             </div>
                                         </div>
+                                        {misconception && (
+                                            <p className="text-xs text-orange-700 dark:text-orange-300">
+                                                <span className="font-bold mr-1">🔍 {misconceptionName(misconception.type)}</span>
+                                                {misconception.note}
+                                            </p>
+                                        )}
                                     </div>
                                     
                                     <div className="flex flex-col gap-1">
@@ -193,14 +424,19 @@ const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = (
                                                 </ReactMarkdown>
                                                 {q.answerTranslation && <span className="text-xs text-slate-500 dark:text-slate-400 font-normal ml-2">({preprocessLaTeX(q.answerTranslation)})</span>}
                                             </div>
+                                            <AnswerVerificationNote verification={q.verification} />
                                             <div className="text-slate-600 dark:text-slate-400 text-xs leading-snug">
-                                                <ReactMarkdown 
-                                                    remarkPlugins={[remarkGfm, remarkMath]} 
-                                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
-                                                    components={markdownComponents}
-                                                >
-                                                    {preprocessLaTeX(q.explanation)}
-                                                </ReactMarkdown>
+                                                {q.solutionSteps ? (
+                                                    <SolutionSteps question={q} subjectName={result.subject} standardDescription={result.standardDescription} />
+                                                ) : (
+                                                    <ReactMarkdown 
+                                                        remarkPlugins={[remarkGfm, remarkMath]} 
+                                                        rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                                        components={markdownComponents}
+                                                    >
+                                                        {preprocessLaTeX(q.explanation)}
+                                                    </ReactMarkdown>
+                                                )}
                                                  {q.explanationTranslation && (
                                                     <div className="mt-1 pt-1 border-t border-slate-100 dark:border-slate-700">
                                                         <ReactMarkdown 
@@ -216,6 +452,21 @@ const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = (
                                         </div>
                                     </div>
                                 </div>
+
+                                {(practices.length > 0 || (!isCorrect && q.questionType !== 'creativity')) && (
+                                    <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-600 flex flex-wrap items-center justify-between gap-2">
+                                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                                            {practices.length > 0
+                                                ? `유사 문제 연습 ${practices.length}회 · 최근 ${practices[practices.length - 1].score.toFixed(0)}점`
+                                                : '같은 개념의 문제로 다시 연습해 보세요.'}
+                                        </span>
+                                        {q.questionType !== 'creativity' && (
+                                            <Button variant="secondary" onClick={() => onPracticeSimilar(idx)} className="!py-1.5 !px-3 text-xs">
+                                                🔁 비슷한 문제 더 풀기
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
                             </div>
                         );
                     })}
@@ -227,11 +478,13 @@ const QuizReviewModal: React.FC<{ result: QuizResult; onClose: () => void }> = (
 
 interface DashboardProps {
     onGoHome: () => void;
+    onStudyStandard?: (subjectName: string, standard: AchievementStandard) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ onGoHome, onStudyStandard }) => {
     const [studyHistory, setStudyHistory] = useLocalStorage<QuizResult[]>('studyHistory', []);
     const [selectedResult, setSelectedResult] = useState<QuizResult | null>(null);
+    const [practiceQuestionIndex, setPracticeQuestionIndex] = useState<number | null>(null);
     const [selectedSubject, setSelectedSubject] = useState<string>('');
 
     // Diagnosis State
@@ -245,9 +498,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
         ? studyHistory.reduce((acc, curr) => acc + curr.score, 0) / totalQuizzes
         : 0;
 
-    // Detailed history with Unit info
+    // Detailed history with Unit info; a mixed quiz counts once per standard it covered
     const detailedHistory = useMemo(() => {
-        return studyHistory.map(result => {
+        return studyHistory.flatMap(splitByStandard).map(result => {
             const details = findDetailsForStandard(result.standardId);
             return {
                 ...result,
@@ -305,6 +558,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
         }));
     }, [studyHistory]);
 
+    // The standard of the question being practised, when it comes from a mixed quiz
+    const practiceStandard = practiceQuestionIndex !== null
+        ? selectedResult?.standardBreakdown?.find(part => part.standardId === selectedResult.questions?.[practiceQuestionIndex]?.standardId)
+        : undefined;
+
     // Reverse history for list view (newest first)
     const reversedHistory = useMemo(() => [...studyHistory].reverse(), [studyHistory]);
 
@@ -490,6 +748,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
                         </Card>
                     </div>
 
+                    <PrerequisitePanel history={studyHistory} onStudyStandard={onStudyStandard} />
+
+                    <MisconceptionPanel history={studyHistory} onTagged={result => setStudyHistory(prev => prev.map(item => (item.id === result.id ? result : item)))} />
+
                     <Card className="mb-6 p-4">
                         <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4">최근 10회 학습 추이</h3>
                         <div className="h-64 w-full">
@@ -536,6 +798,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
                                                     <span className="text-xs font-bold px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
                                                         {result.subject}
                                                     </span>
+                                                    {result.practiceOf && (
+                                                        <span className="text-xs font-bold px-2 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
+                                                            🔁 유사 문제 연습
+                                                        </span>
+                                                    )}
+                                                    {result.exam && (
+                                                        <span className="text-xs font-bold px-2 py-0.5 rounded bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300">
+                                                            ⏱ 시험 모드
+                                                        </span>
+                                                    )}
+                                                    {result.standardBreakdown && (
+                                                        <span className="text-xs font-bold px-2 py-0.5 rounded bg-neon-blue/10 text-neon-blue">
+                                                            📚 {result.standardBreakdown.length}개 성취기준 종합
+                                                        </span>
+                                                    )}
                                                     <span className="text-xs text-slate-500 dark:text-slate-400">
                                                         {new Date(result.date).toLocaleString()}
                                                     </span>
@@ -593,7 +870,26 @@ export const Dashboard: React.FC<DashboardProps> = ({ onGoHome }) => {
             {selectedResult && (
                 <QuizReviewModal 
                     result={selectedResult} 
-                    onClose={() => setSelectedResult(null)} 
+                    practiceResults={studyHistory.filter(item => item.practiceOf?.resultId === selectedResult.id)}
+                    onPracticeSimilar={setPracticeQuestionIndex}
+                    onClose={() => {
+                        setSelectedResult(null);
+                        setPracticeQuestionIndex(null);
+                    }}
+                />
+            )}
+
+            {selectedResult?.questions && practiceQuestionIndex !== null && (
+                <SimilarPractice
+                    question={selectedResult.questions[practiceQuestionIndex]}
+                    originResultId={selectedResult.id}
+                    questionIndex={practiceQuestionIndex}
+                    studentAnswer={selectedResult.userAnswers?.[practiceQuestionIndex] ?? null}
+                    subjectName={selectedResult.subject}
+                    standardId={practiceStandard?.standardId ?? selectedResult.standardId}
+                    standardDescription={practiceStandard?.standardDescription ?? selectedResult.standardDescription}
+                    onSaveResult={result => setStudyHistory(prev => upsertStudyResult(prev, result))}
+                    onClose={() => setPracticeQuestionIndex(null)}
                 />
             )}
         </div>
@@ -0,0 +1,91 @@
+import React from 'react';
+import type { ExamSettings, ExamRecord } from '../types.ts';
+import { EXAM_TIME_LIMIT_OPTIONS, DEFAULT_EXAM_TIME_LIMIT_MINUTES } from '../constants.ts';
+
+export const formatExamTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+interface ExamSettingsPickerProps {
+    settings: ExamSettings | null;
+    onChange: (settings: ExamSettings | null) => void;
+}
+
+// Switches a quiz between practice (answers checked one by one) and a timed mock exam.
+export const ExamSettingsPicker: React.FC<ExamSettingsPickerProps> = ({ settings, onChange }) => (
+    <div className="mb-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 text-left">
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-800 dark:text-slate-100 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={!!settings}
+                onChange={e => onChange(e.target.checked ? { timeLimitMinutes: DEFAULT_EXAM_TIME_LIMIT_MINUTES } : null)}
+                className="accent-neon-blue"
+            />
+            ⏱ 시험 모드로 풀기
+        </label>
+        <p className="mt-0.5 pl-6 text-xs text-slate-500 dark:text-slate-400 leading-snug">
+            제한 시간 안에 모든 문제를 풀고 마지막에 한 번에 채점해요. 문항마다 2·3·4점 배점이 붙고, 힌트와 정답 확인은 쓸 수 없어요.
+        </p>
+        {settings && (
+            <div className="mt-2 pl-6 flex flex-wrap items-center gap-1">
+                <span className="text-xs font-semibold text-slate-600 dark:text-slate-300 mr-1">제한 시간</span>
+                {EXAM_TIME_LIMIT_OPTIONS.map(minutes => (
+                    <button
+                        key={minutes}
+                        type="button"
+                        onClick={() => onChange({ timeLimitMinutes: minutes })}
+                        className={`px-2.5 py-1 rounded-md border text-xs font-medium transition-colors ${
+                            settings.timeLimitMinutes === minutes
+                                ? 'bg-neon-blue/20 border-neon-blue text-neon-blue'
+                                : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-300'
+                        }`}
+                    >
+                        {minutes}분
+                    </button>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
+// Points, time and per-배점 results of a finished exam, for the result screens.
+export const ExamResultSummary: React.FC<{ exam: ExamRecord }> = ({ exam }) => {
+    const totalPoints = exam.points.reduce((sum, points) => sum + points, 0);
+    const earnedPoints = exam.earnedPoints.reduce((sum, points) => sum + points, 0);
+    const groups = [...new Set(exam.points)].sort((a, b) => a - b).map(value => {
+        const indexes = exam.points.flatMap((points, index) => (points === value ? [index] : []));
+        return {
+            value,
+            count: indexes.length,
+            earned: indexes.reduce((sum, index) => sum + exam.earnedPoints[index], 0),
+        };
+    });
+
+    return (
+        <div className="mb-4 p-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-left">
+            <div className="flex justify-between items-center mb-1">
+                <span className="font-bold text-slate-800 dark:text-slate-100">배점 합계</span>
+                <span className="font-bold text-neon-blue">{Number(earnedPoints.toFixed(1))} / {totalPoints}점</span>
+            </div>
+            <div className="flex justify-between items-center text-xs text-slate-600 dark:text-slate-300 mb-2">
+                <span>걸린 시간</span>
+                <span>{formatExamTime(exam.elapsedSeconds)} / {exam.timeLimitMinutes}분</span>
+            </div>
+            <ul className="space-y-0.5 text-xs text-slate-600 dark:text-slate-300">
+                {groups.map(group => (
+                    <li key={group.value} className="flex justify-between">
+                        <span>{group.value}점 문항 {group.count}개</span>
+                        <span>{Number(group.earned.toFixed(1))} / {group.value * group.count}점</span>
+                    </li>
+                ))}
+            </ul>
+            {exam.ungraded && exam.ungraded.length > 0 && (
+                <p className="mt-2 text-xs text-sunset-orange">
+                    {exam.ungraded.map(index => `${index + 1}번`).join(', ')} 문항은 채점하지 못해 점수에 넣지 않았어요. 해설을 보며 스스로 채점해보세요.
+                </p>
+            )}
+            {exam.timedOut && (
+                <p className="mt-2 text-xs text-sunset-orange">시간이 끝나 답안이 자동으로 제출되었어요.</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useMemo, useId } from 'react';
+import type { PlotSpec } from '../types.ts';
+import { compileFunctionOfX } from '../services/mathEquivalence.ts';
+
+const WIDTH = 360;
+const HEIGHT = 270;
+const MARGIN = 24;
+const SAMPLES = 480;
+const COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea'];
+
+// Picks 1, 2 or 5 times a power of ten so that the axis gets roughly 4-10 ticks.
+const niceStep = (span: number) => {
+    const raw = span / 8;
+    const power = Math.pow(10, Math.floor(Math.log10(raw)));
+    const scaled = raw / power;
+    return (scaled >= 5 ? 5 : scaled >= 2 ? 2 : 1) * power;
+};
+
+const formatTick = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Multiples of π/2: "π/2", "π", "3π/2", "-π"
+const formatPiTick = (halves: number) => {
+    if (halves === 0) return '0';
+    const sign = halves < 0 ? '-' : '';
+    const n = Math.abs(halves);
+    if (n % 2 === 0) return `${sign}${n === 2 ? '' : n / 2}π`;
+    return `${sign}${n === 1 ? '' : n}π/2`;
+};
+
+const ticksFor = (min: number, max: number, step: number) => {
+    const ticks: number[] = [];
+    for (let i = Math.ceil(min / step); i * step <= max + 1e-9; i++) ticks.push(i);
+    return ticks;
+};
+
+interface FunctionPlotProps {
+    spec: PlotSpec;
+}
+
+// Draws a PlotSpec as SVG. Curves are split wherever the function is undefined or jumps
+// across the view (asymptotes), and clipped to the plot area.
+export const FunctionPlot: React.FC<FunctionPlotProps> = ({ spec }) => {
+    const { xMin, xMax, yMin, yMax } = spec;
+    const toX = (x: number) => MARGIN + ((x - xMin) / (xMax - xMin)) * (WIDTH - 2 * MARGIN);
+    const toY = (y: number) => HEIGHT - MARGIN - ((y - yMin) / (yMax - yMin)) * (HEIGHT - 2 * MARGIN);
+
+    const curves = useMemo(() => spec.functions.map(fn => {
+        const f = compileFunctionOfX(fn.expression);
+        if (!f) return { paths: [] as string[], labelAt: null as [number, number] | null };
+        const from = Math.max(xMin, fn.domainMin ?? xMin);
+        const to = Math.min(xMax, fn.domainMax ?? xMax);
+        const ySpan = yMax - yMin;
+        const paths: string[] = [];
+        let current: string[] = [];
+        let previousY: number | null = null;
+        let labelAt: [number, number] | null = null;
+        for (let i = 0; i <= SAMPLES; i++) {
+            const x = from + ((to - from) * i) / SAMPLES;
+            const y = f(x);
+            const usable = Number.isFinite(y) && y > yMin - 4 * ySpan && y < yMax + 4 * ySpan;
+            const jumped = previousY !== null && usable && Math.abs(y - previousY) > 2 * ySpan;
+            if (!usable || jumped) {
+                if (current.length > 1) paths.push(current.join(' '));
+                current = [];
+            }
+            if (usable) {
+                current.push(`${current.length === 0 ? 'M' : 'L'}${toX(x).toFixed(1)},${toY(y).toFixed(1)}`);
+                if (y >= yMin && y <= yMax) labelAt = [x, y];
+            }
+            previousY = usable ? y : null;
+        }
+        if (current.length > 1) paths.push(current.join(' '));
+        return { paths, labelAt };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }), [spec]);
+
+    const regions = useMemo(() => (spec.shadedRegions || []).map(region => {
+        const upper = compileFunctionOfX(region.upper);
+        const lower = compileFunctionOfX(region.lower);
+        if (!upper || !lower) return '';
+        const clampY = (y: number) => Math.min(yMax, Math.max(yMin, Number.isFinite(y) ? y : 0));
+        const top: string[] = [];
+        const bottom: string[] = [];
+        for (let i = 0; i <= SAMPLES / 4; i++) {
+            const x = region.from + ((region.to - region.from) * i) / (SAMPLES / 4);
+            top.push(`${toX(x).toFixed(1)},${toY(clampY(upper(x))).toFixed(1)}`);
+            bottom.unshift(`${toX(x).toFixed(1)},${toY(clampY(lower(x))).toFixed(1)}`);
+        }
+        return [...top, ...bottom].join(' ');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }), [spec]);
+
+    const xStep = spec.piTicks ? Math.PI / 2 : niceStep(xMax - xMin);
+    const yStep = niceStep(yMax - yMin);
+    const xTicks = ticksFor(xMin, xMax, xStep);
+    const yTicks = ticksFor(yMin, yMax, yStep);
+    const axisX = yMin <= 0 && yMax >= 0 ? toY(0) : HEIGHT - MARGIN; // where the x-axis is drawn
+    const axisY = xMin <= 0 && xMax >= 0 ? toX(0) : MARGIN;
+    const clipId = `plot-clip-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+
+    return (
+        <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full max-w-md mx-auto my-2 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-600"
+            role="img"
+            aria-label={`그래프: ${spec.functions.map(fn => fn.label || `y=${fn.expression}`).join(', ')}`}
+        >
+            <defs>
+                <clipPath id={clipId}>
+                    <rect x={MARGIN} y={MARGIN} width={WIDTH - 2 * MARGIN} height={HEIGHT - 2 * MARGIN} />
+                </clipPath>
+            </defs>
+
+            {/* Grid and tick labels */}
+            <g stroke="currentColor" strokeOpacity={0.12}>
+                {xTicks.map(i => <line key={`gx${i}`} x1={toX(i * xStep)} y1={MARGIN} x2={toX(i * xStep)} y2={HEIGHT - MARGIN} />)}
+                {yTicks.map(i => <line key={`gy${i}`} x1={MARGIN} y1={toY(i * yStep)} x2={WIDTH - MARGIN} y2={toY(i * yStep)} />)}
+            </g>
+            <g fontSize={9} fill="currentColor" fillOpacity={0.7}>
+                {xTicks.filter(i => i !== 0).map(i => (
+                    <text key={`tx${i}`} x={toX(i * xStep)} y={Math.min(HEIGHT - 4, axisX + 11)} textAnchor="middle">
+                        {spec.piTicks ? formatPiTick(i) : formatTick(i * xStep)}
+                    </text>
+                ))}
+                {yTicks.filter(i => i !== 0).map(i => (
+                    <text key={`ty${i}`} x={Math.max(4, axisY - 4)} y={toY(i * yStep) + 3} textAnchor="end">{formatTick(i * yStep)}</text>
+                ))}
+                {xMin <= 0 && xMax >= 0 && yMin <= 0 && yMax >= 0 && (
+                    <text x={axisY - 4} y={axisX + 11} textAnchor="end">O</text>
+                )}
+            </g>
+
+            {/* Axes */}
+            <g stroke="currentColor" strokeWidth={1.2}>
+                <line x1={MARGIN} y1={axisX} x2={WIDTH - MARGIN + 6} y2={axisX} />
+                <line x1={axisY} y1={HEIGHT - MARGIN} x2={axisY} y2={MARGIN - 6} />
+            </g>
+            <g fontSize={10} fill="currentColor" fontStyle="italic">
+                <text x={WIDTH - MARGIN + 8} y={axisX + 4}>x</text>
+                <text x={axisY + 4} y={MARGIN - 8}>y</text>
+            </g>
+
+            <g clipPath={`url(#${clipId})`}>
+                {regions.map((polygon, index) => polygon && (
+                    <polygon key={`r${index}`} points={polygon} fill={COLORS[0]} fillOpacity={0.18} stroke="none" />
+                ))}
+                {(spec.asymptotes || []).map((line, index) => (line.orientation === 'vertical' ? (
+                    <line key={`a${index}`} x1={toX(line.value)} y1={MARGIN} x2={toX(line.value)} y2={HEIGHT - MARGIN} stroke="currentColor" strokeDasharray="4 3" strokeOpacity={0.6} />
+                ) : (
+                    <line key={`a${index}`} x1={MARGIN} y1={toY(line.value)} x2={WIDTH - MARGIN} y2={toY(line.value)} stroke="currentColor" strokeDasharray="4 3" strokeOpacity={0.6} />
+                )))}
+                {curves.map((curve, index) => curve.paths.map((d, part) => (
+                    <path key={`f${index}-${part}`} d={d} fill="none" stroke={COLORS[index % COLORS.length]} strokeWidth={2} strokeLinejoin="round" />
+                )))}
+            </g>
+
+            {/* Labels sit outside the clip so they are never cut off */}
+            <g fontSize={10} fontWeight="bold">
+                {curves.map((curve, index) => {
+                    const label = spec.functions[index].label;
+                    if (!label || !curve.labelAt) return null;
+                    const [x, y] = curve.labelAt;
+                    return (
+                        <text key={`l${index}`} x={Math.min(WIDTH - MARGIN - 2, toX(x))} y={Math.max(MARGIN + 10, toY(y) - 6)} textAnchor="end" fill={COLORS[index % COLORS.length]}>
+                            {label}
+                        </text>
+                    );
+                })}
+            </g>
+            <g fontSize={9} fill="currentColor">
+                {(spec.asymptotes || []).map((line, index) => (line.orientation === 'vertical' ? (
+                    <text key={`al${index}`} x={toX(line.value) + 3} y={MARGIN + 9}>x={formatTick(line.value)}</text>
+                ) : (
+                    <text key={`al${index}`} x={WIDTH - MARGIN - 2} y={toY(line.value) - 3} textAnchor="end">y={formatTick(line.value)}</text>
+                )))}
+            </g>
+            <g>
+                {(spec.points || []).map((point, index) => (
+                    <g key={`p${index}`}>
+                        <circle
+                            cx={toX(point.x)}
+                            cy={toY(point.y)}
+                            r={3.5}
+                            stroke="currentColor"
+                            strokeWidth={1.5}
+                            fill={point.open ? 'white' : 'currentColor'}
+                        />
+                        {point.label && (
+                            <text x={toX(point.x) + 6} y={toY(point.y) - 6} fontSize={10} fill="currentColor">{point.label}</text>
+                        )}
+                    </g>
+                ))}
+            </g>
+        </svg>
+    );
+};
@@ -0,0 +1,219 @@
+import React, { useId } from 'react';
+import type { DiagramSpec, DiagramShape, DiagramPoint } from '../types.ts';
+
+const WIDTH = 360;
+const MARGIN = 20;
+const ARC_RADIUS = 16;
+const CURVE_SAMPLES = 160;
+const STROKE = '#1e293b';
+const ACCENT = '#2563eb';
+
+interface GeometryDiagramProps {
+    spec: DiagramSpec;
+}
+
+// Draws a DiagramSpec as SVG with the same scale on both axes, so circles stay round
+// and angles and lengths look the way the question states them.
+export const GeometryDiagram: React.FC<GeometryDiagramProps> = ({ spec }) => {
+    const xSpan = spec.xMax - spec.xMin;
+    const ySpan = spec.yMax - spec.yMin;
+    const height = Math.round(Math.min(WIDTH, Math.max(180, (WIDTH * ySpan) / xSpan)));
+    const scale = Math.min((WIDTH - 2 * MARGIN) / xSpan, (height - 2 * MARGIN) / ySpan);
+    const offsetX = (WIDTH - scale * xSpan) / 2;
+    const offsetY = (height - scale * ySpan) / 2;
+    const toScreen = ([x, y]: DiagramPoint): DiagramPoint => [offsetX + (x - spec.xMin) * scale, height - offsetY - (y - spec.yMin) * scale];
+    const reach = 2 * Math.hypot(xSpan, ySpan); // far enough to leave the view in any direction
+
+    const id = useId().replace(/[^a-zA-Z0-9_-]/g, '');
+    const clipId = `diagram-clip-${id}`;
+    const arrowId = `diagram-arrow-${id}`;
+
+    const polyline = (points: DiagramPoint[]) => points.map(point => toScreen(point).map(v => v.toFixed(1)).join(',')).join(' ');
+
+    const extend = (from: DiagramPoint, to: DiagramPoint, backwards: boolean): [DiagramPoint, DiagramPoint] => {
+        const length = Math.hypot(to[0] - from[0], to[1] - from[1]) || 1;
+        const dx = ((to[0] - from[0]) / length) * reach;
+        const dy = ((to[1] - from[1]) / length) * reach;
+        return [backwards ? [from[0] - dx, from[1] - dy] : from, [to[0] + dx, to[1] + dy]];
+    };
+
+    const sample = (point: (t: number) => DiagramPoint, from: number, to: number) =>
+        Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => point(from + ((to - from) * i) / CURVE_SAMPLES));
+
+    // Label positions push away from the middle of the figure so they don't sit on its lines.
+    const visiblePoints = spec.points.filter(point => !point.hidden);
+    const centroid: DiagramPoint = visiblePoints.length > 0
+        ? [visiblePoints.reduce((sum, p) => sum + p.at[0], 0) / visiblePoints.length, visiblePoints.reduce((sum, p) => sum + p.at[1], 0) / visiblePoints.length]
+        : [0, 0];
+    const labelOffset = (at: DiagramPoint): DiagramPoint => {
+        const dx = at[0] - centroid[0];
+        const dy = at[1] - centroid[1];
+        const length = Math.hypot(dx, dy);
+        return length < 1e-9 ? [8, -8] : [(dx / length) * 12, (-dy / length) * 12];
+    };
+
+    const renderShape = (shape: DiagramShape, index: number): React.ReactNode => {
+        const dash = 'dashed' in shape && shape.dashed ? '5 4' : undefined;
+        switch (shape.kind) {
+            case 'segment':
+            case 'line':
+            case 'ray': {
+                const [from, to] = shape.kind === 'segment' ? [shape.from, shape.to] : extend(shape.from, shape.to, shape.kind === 'line');
+                const [x1, y1] = toScreen(from);
+                const [x2, y2] = toScreen(to);
+                return <line key={index} x1={x1} y1={y1} x2={x2} y2={y2} stroke={STROKE} strokeWidth={1.6} strokeDasharray={dash} />;
+            }
+            case 'polygon':
+                return (
+                    <polygon
+                        key={index}
+                        points={polyline(shape.vertices)}
+                        fill={shape.filled ? ACCENT : 'none'}
+                        fillOpacity={0.15}
+                        stroke={STROKE}
+                        strokeWidth={1.6}
+                        strokeDasharray={dash}
+                        strokeLinejoin="round"
+                    />
+                );
+            case 'circle': {
+                const [cx, cy] = toScreen(shape.center);
+                return <circle key={index} cx={cx} cy={cy} r={shape.radius * scale} fill="none" stroke={STROKE} strokeWidth={1.6} strokeDasharray={dash} />;
+            }
+            case 'ellipse': {
+                const [cx, cy] = toScreen(shape.center);
+                const [rx, ry] = shape.axis === 'x' ? [shape.a, shape.b] : [shape.b, shape.a];
+                return <ellipse key={index} cx={cx} cy={cy} rx={rx * scale} ry={ry * scale} fill="none" stroke={STROKE} strokeWidth={1.6} strokeDasharray={dash} />;
+            }
+            case 'hyperbola': {
+                const { center: [h, k], a, b, axis } = shape;
+                const limit = Math.asinh(reach / Math.min(a, b));
+                const branch = (sign: number) => sample(t => (axis === 'x'
+                    ? [h + sign * a * Math.cosh(t), k + b * Math.sinh(t)]
+                    : [h + b * Math.sinh(t), k + sign * a * Math.cosh(t)]), -limit, limit);
+                return (
+                    <g key={index} fill="none" stroke={STROKE} strokeWidth={1.6} strokeDasharray={dash}>
+                        <polyline points={polyline(branch(1))} />
+                        <polyline points={polyline(branch(-1))} />
+                    </g>
+                );
+            }
+            case 'parabola': {
+                const { vertex: [h, k], p, axis } = shape;
+                const limit = Math.sqrt(4 * Math.abs(p) * reach) + reach / 4;
+                const points = sample(t => (axis === 'x' ? [h + (t * t) / (4 * p), k + t] : [h + t, k + (t * t) / (4 * p)]), -limit, limit);
+                return <polyline key={index} points={polyline(points)} fill="none" stroke={STROKE} strokeWidth={1.6} strokeDasharray={dash} />;
+            }
+            case 'vector': {
+                const [x1, y1] = toScreen(shape.from);
+                const [x2, y2] = toScreen(shape.to);
+                const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+                return (
+                    <g key={index}>
+                        <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={ACCENT} strokeWidth={1.8} markerEnd={`url(#${arrowId})`} />
+                        {shape.label && (
+                            <text x={(x1 + x2) / 2 - ((y2 - y1) / length) * 10} y={(y1 + y2) / 2 + ((x2 - x1) / length) * 10 + 4} fontSize={12} fontStyle="italic" fill={ACCENT} textAnchor="middle">
+                                {shape.label}
+                            </text>
+                        )}
+                    </g>
+                );
+            }
+            case 'equal': {
+                const [x1, y1] = toScreen(shape.from);
+                const [x2, y2] = toScreen(shape.to);
+                const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+                const [ux, uy] = [(x2 - x1) / length, (y2 - y1) / length];
+                return (
+                    <g key={index} stroke={STROKE} strokeWidth={1.4}>
+                        {Array.from({ length: shape.marks }, (_, mark) => {
+                            const shift = (mark - (shape.marks - 1) / 2) * 4;
+                            const mx = (x1 + x2) / 2 + ux * shift;
+                            const my = (y1 + y2) / 2 + uy * shift;
+                            return <line key={mark} x1={mx - uy * 6} y1={my + ux * 6} x2={mx + uy * 6} y2={my - ux * 6} />;
+                        })}
+                    </g>
+                );
+            }
+            case 'angle': {
+                const [vx, vy] = toScreen(shape.vertex);
+                const direction = (point: DiagramPoint) => {
+                    const [x, y] = toScreen(point);
+                    const length = Math.hypot(x - vx, y - vy) || 1;
+                    return [(x - vx) / length, (y - vy) / length];
+                };
+                const [ax, ay] = direction(shape.from);
+                const [bx, by] = direction(shape.to);
+                const [mx, my] = [ax + bx, ay + by];
+                const middle = Math.hypot(mx, my) || 1;
+                const label = shape.label && (
+                    <text x={vx + (mx / middle) * (ARC_RADIUS + 12)} y={vy + (my / middle) * (ARC_RADIUS + 12) + 4} fontSize={11} fill={ACCENT} textAnchor="middle">
+                        {shape.label}
+                    </text>
+                );
+                if (shape.right) {
+                    const side = ARC_RADIUS * 0.7;
+                    const corner = `${vx + ax * side},${vy + ay * side} ${vx + (ax + bx) * side},${vy + (ay + by) * side} ${vx + bx * side},${vy + by * side}`;
+                    return <g key={index}><polyline points={corner} fill="none" stroke={ACCENT} strokeWidth={1.3} />{label}</g>;
+                }
+                // Always the smaller of the two arcs between the rays
+                const sweep = ax * by - ay * bx > 0 ? 1 : 0;
+                const arc = `M${vx + ax * ARC_RADIUS},${vy + ay * ARC_RADIUS} A${ARC_RADIUS},${ARC_RADIUS} 0 0 ${sweep} ${vx + bx * ARC_RADIUS},${vy + by * ARC_RADIUS}`;
+                return <g key={index}><path d={arc} fill="none" stroke={ACCENT} strokeWidth={1.3} />{label}</g>;
+            }
+            case 'label': {
+                const [x, y] = toScreen(shape.at);
+                const [dx, dy] = labelOffset(shape.at);
+                return <text key={index} x={x + dx} y={y + dy + 4} fontSize={12} fill={STROKE} textAnchor="middle">{shape.text}</text>;
+            }
+        }
+    };
+
+    const [originX, originY] = toScreen([0, 0]);
+    const showXAxis = spec.axes && spec.yMin <= 0 && spec.yMax >= 0;
+    const showYAxis = spec.axes && spec.xMin <= 0 && spec.xMax >= 0;
+    const describe = visiblePoints.map(point => point.name).join(', ');
+
+    return (
+        <svg
+            viewBox={`0 0 ${WIDTH} ${height}`}
+            className="w-full max-w-md mx-auto my-2 bg-white rounded-lg border border-slate-200 dark:border-slate-600"
+            role="img"
+            aria-label={describe ? `도형: ${describe}` : '도형'}
+        >
+            <defs>
+                <clipPath id={clipId}>
+                    <rect x={0} y={0} width={WIDTH} height={height} />
+                </clipPath>
+                <marker id={arrowId} viewBox="0 0 10 10" refX={9} refY={5} markerWidth={7} markerHeight={7} orient="auto-start-reverse">
+                    <path d="M0,0 L10,5 L0,10 z" fill={ACCENT} />
+                </marker>
+            </defs>
+
+            {(showXAxis || showYAxis) && (
+                <g stroke="#94a3b8" strokeWidth={1} fontSize={10} fill="#64748b" fontStyle="italic">
+                    {showXAxis && <line x1={4} y1={originY} x2={WIDTH - 4} y2={originY} />}
+                    {showYAxis && <line x1={originX} y1={height - 4} x2={originX} y2={4} />}
+                    {showXAxis && <text x={WIDTH - 10} y={originY - 5} stroke="none">x</text>}
+                    {showYAxis && <text x={originX + 5} y={12} stroke="none">y</text>}
+                    {showXAxis && showYAxis && <text x={originX - 9} y={originY + 12} stroke="none" fontStyle="normal">O</text>}
+                </g>
+            )}
+
+            <g clipPath={`url(#${clipId})`}>{spec.shapes.map(renderShape)}</g>
+
+            <g fontSize={12} fill={STROKE}>
+                {visiblePoints.map(point => {
+                    const [x, y] = toScreen(point.at);
+                    const [dx, dy] = labelOffset(point.at);
+                    return (
+                        <g key={point.name}>
+                            <circle cx={x} cy={y} r={2.6} />
+                            <text x={x + dx} y={y + dy + 4} textAnchor="middle" fontStyle="italic">{point.name}</text>
+                        </g>
+                    );
+                })}
+            </g>
+        </svg>
+    );
+};
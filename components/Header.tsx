@@ -5,6 +5,7 @@ import type { Theme } from '../types.ts';
 interface HeaderProps {
     onGoHome: () => void;
     onShowDashboard: () => void;
+    onShowNotebook: () => void;
     onBack: () => void;
     onForward: () => void;
     canGoBack: boolean;
@@ -13,6 +14,8 @@ interface HeaderProps {
     setTheme: (theme: Theme) => void;
     onToggleCoolMode: () => void;
     isCoolMode: boolean;
+    onOpenSettings: () => void;
+    onOpenUsage: () => void;
 }
 
 const AiSdlLogo: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
@@ -92,6 +95,13 @@ const DashboardIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     </svg>
 );
 
+const NotebookIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+        <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+    </svg>
+);
+
 const InfoIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
         <circle cx="12" cy="12" r="10" />
@@ -100,6 +110,21 @@ const InfoIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     </svg>
 );
 
+const UsageIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <line x1="18" y1="20" x2="18" y2="10" />
+        <line x1="12" y1="20" x2="12" y2="4" />
+        <line x1="6" y1="20" x2="6" y2="14" />
+    </svg>
+);
+
+const SettingsIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <circle cx="12" cy="12" r="3" />
+        <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+    </svg>
+);
+
 const ArrowLeftIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
         <line x1="19" y1="12" x2="5" y2="12"></line>
@@ -147,7 +172,7 @@ const ThemeIcon: React.FC<{ theme: Theme }> = ({ theme }) => {
 };
 
 
-export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBack, onForward, canGoBack, canGoForward, theme, setTheme, onToggleCoolMode, isCoolMode }) => {
+export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onShowNotebook, onBack, onForward, canGoBack, canGoForward, theme, setTheme, onToggleCoolMode, isCoolMode, onOpenSettings, onOpenUsage }) => {
     const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
 
     const cycleTheme = () => {
@@ -158,7 +183,7 @@ export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBac
 
     return (
         <>
-            <header className="bg-white/90 dark:bg-slate-900/90 backdrop-blur-md shadow-sm sticky top-0 z-50 border-b border-slate-200/50 dark:border-slate-700/50 transition-colors duration-300">
+            <header className="print:hidden bg-white/90 dark:bg-slate-900/90 backdrop-blur-md shadow-sm sticky top-0 z-50 border-b border-slate-200/50 dark:border-slate-700/50 transition-colors duration-300">
                 <div className="container mx-auto px-3">
                     <div className="flex items-center justify-between h-12 sm:h-14">
                         <div className="flex items-center gap-1.5">
@@ -195,6 +220,14 @@ export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBac
                                 <DashboardIcon className="w-[14.4px] h-[14.4px] sm:w-[14.4px] sm:h-[14.4px]" />
                                 <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium">나의 성취 수준</span>
                             </button>
+                            <button
+                                onClick={onShowNotebook}
+                                className="flex items-center gap-[5.4px] px-[7.2px] py-[5.4px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
+                                title="오답노트"
+                            >
+                                <NotebookIcon className="w-[14.4px] h-[14.4px] sm:w-[14.4px] sm:h-[14.4px]" />
+                                <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium">오답노트</span>
+                            </button>
                             <button
                                 onClick={() => setIsInfoModalOpen(true)}
                                 className="flex items-center gap-[5.4px] px-[7.2px] py-[5.4px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
@@ -203,6 +236,22 @@ export const Header: React.FC<HeaderProps> = ({ onGoHome, onShowDashboard, onBac
                                 <InfoIcon className="w-[14.4px] h-[14.4px] sm:w-[14.4px] sm:h-[14.4px]" />
                                 <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium">앱 이용 안내</span>
                             </button>
+                            <button
+                                onClick={onOpenUsage}
+                                className="flex items-center gap-[5.4px] px-[7.2px] py-[5.4px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
+                                title="AI 사용량"
+                            >
+                                <UsageIcon className="w-[14.4px] h-[14.4px] sm:w-[14.4px] sm:h-[14.4px]" />
+                                <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium">사용량</span>
+                            </button>
+                            <button
+                                onClick={onOpenSettings}
+                                className="flex items-center gap-[5.4px] px-[7.2px] py-[5.4px] border border-transparent sm:border-slate-200 dark:sm:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-colors duration-200"
+                                title="설정"
+                            >
+                                <SettingsIcon className="w-[14.4px] h-[14.4px] sm:w-[14.4px] sm:h-[14.4px]" />
+                                <span className="hidden sm:inline text-xs sm:text-[12.6px] font-medium">설정</span>
+                            </button>
                             <div className="flex items-center gap-0.5 border-l border-slate-200 dark:border-slate-700 pl-[10.8px] sm:pl-[10.8px] ml-1 sm:ml-0">
                                 <button
                                     onClick={onBack}
@@ -0,0 +1,57 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { preprocessLaTeX } from '../services/geminiService.ts';
+import { HINT_LEVEL_LABELS, MAX_HINTS_PER_QUESTION, HINT_CREDIT_PENALTY } from '../constants.ts';
+
+interface HintLadderProps {
+    hints: string[];
+    revealedCount: number;
+    isLoading: boolean;
+    error: string | null;
+    // Once the answer is checked the revealed hints stay visible but no new ones can be opened.
+    isLocked: boolean;
+    onRevealNext: () => void;
+}
+
+// Progressive hints for one quiz question, from a concept reminder to a near-solution.
+export const HintLadder: React.FC<HintLadderProps> = ({ hints, revealedCount, isLoading, error, isLocked, onRevealNext }) => {
+    const available = hints.length > 0 ? hints.length : MAX_HINTS_PER_QUESTION;
+    const canReveal = !isLocked && !isLoading && revealedCount < available;
+
+    if (isLocked && revealedCount === 0) return null;
+
+    return (
+        <div className="mb-4">
+            {revealedCount > 0 && (
+                <ol className="space-y-2 mb-2">
+                    {hints.slice(0, revealedCount).map((hint, index) => (
+                        <li key={index} className="p-2.5 rounded-lg border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 text-sm text-slate-700 dark:text-slate-200">
+                            <p className="text-[11px] font-bold text-yellow-700 dark:text-yellow-400 mb-0.5">💡 힌트 {index + 1} · {HINT_LEVEL_LABELS[index]}</p>
+                            <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]}>
+                                {preprocessLaTeX(hint)}
+                            </ReactMarkdown>
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {!isLocked && (
+                <div className="flex items-center gap-2 flex-wrap">
+                    <button
+                        onClick={onRevealNext}
+                        disabled={!canReveal}
+                        className="px-3 py-1.5 rounded-md border border-yellow-300 dark:border-yellow-700 bg-white dark:bg-slate-800 text-yellow-700 dark:text-yellow-400 text-xs font-bold hover:bg-yellow-50 dark:hover:bg-yellow-900/20 disabled:opacity-50 transition-colors"
+                    >
+                        {isLoading ? '힌트를 준비하고 있어요...' : revealedCount === 0 ? '💡 힌트' : `💡 다음 힌트 (${revealedCount}/${available})`}
+                    </button>
+                    <span className="text-[11px] text-slate-500 dark:text-slate-400">
+                        힌트 1개당 이 문제 점수가 {Math.round(HINT_CREDIT_PENALTY * 100)}%씩 줄어요.
+                    </span>
+                </div>
+            )}
+            {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+        </div>
+    );
+};
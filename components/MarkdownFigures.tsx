@@ -0,0 +1,50 @@
+import React from 'react';
+import type { QuizQuestion } from '../types.ts';
+import { FunctionPlot } from './FunctionPlot.tsx';
+import { GeometryDiagram } from './GeometryDiagram.tsx';
+import { parsePlotSource, PLOT_FENCE_LANGUAGE } from '../services/plotSpec.ts';
+import { parseDiagram, DIAGRAM_FENCE_LANGUAGE } from '../services/diagramSpec.ts';
+
+// Fenced blocks the app draws itself instead of showing as code.
+const FIGURE_LANGUAGES = [PLOT_FENCE_LANGUAGE, DIAGRAM_FENCE_LANGUAGE];
+
+const figureLanguage = (className: unknown) =>
+    FIGURE_LANGUAGES.find(language => typeof className === 'string' && className.split(' ').includes(`language-${language}`));
+
+const isFigureBlock = (node: any) => {
+    const child = node?.children?.[0];
+    return child?.tagName === 'code' && FIGURE_LANGUAGES.some(language => (child.properties?.className || []).includes(`language-${language}`));
+};
+
+const Placeholder: React.FC = () => (
+    <span className="block my-2 p-2 text-xs text-center text-slate-400 border border-dashed border-slate-300 dark:border-slate-600 rounded">그림을 그리고 있어요...</span>
+);
+
+// Markdown hooks for ```plot and ```diagram blocks: the block is replaced by the drawn figure.
+export const figureMarkdownComponents = {
+    pre: ({ node, children, ...props }: any) => (isFigureBlock(node) ? <>{children}</> : <pre {...props}>{children}</pre>),
+    code: ({ node, className, children, ...props }: any) => {
+        const language = figureLanguage(className);
+        if (language === PLOT_FENCE_LANGUAGE) {
+            const spec = parsePlotSource(String(children));
+            return spec ? <FunctionPlot spec={spec} /> : <Placeholder />;
+        }
+        if (language === DIAGRAM_FENCE_LANGUAGE) {
+            const spec = parseDiagram(String(children));
+            return spec ? <GeometryDiagram spec={spec} /> : <Placeholder />;
+        }
+        return <code className={className} {...props}>{children}</code>;
+    },
+};
+
+// The figures attached to a question itself: a function graph and/or a geometry diagram.
+export const QuestionFigures: React.FC<{ question: QuizQuestion }> = ({ question }) => {
+    const diagram = question.diagram ? parseDiagram(question.diagram) : null;
+    if (!question.plot && !diagram) return null;
+    return (
+        <>
+            {question.plot && <FunctionPlot spec={question.plot} />}
+            {diagram && <GeometryDiagram spec={diagram} />}
+        </>
+    );
+};
@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { streamMixedQuestions, classifyMisconceptions, StandardAllocation } from '../services/geminiService.ts';
+import { isAbortError } from '../services/aiProvider.ts';
+import { upsertStudyResult, needsMisconceptionTagging, buildStandardBreakdown } from '../services/studyHistory.ts';
+import { addMissedQuestions } from '../services/reviewQueue.ts';
+import type { MixedQuizScope, QuizQuestion, QuizResult, QuestionType, QuizValidationReport, ExamSettings, ExamRecord } from '../types.ts';
+import useLocalStorage from '../hooks/useLocalStorage.ts';
+import { DEFAULT_MIXED_QUESTIONS_PER_STANDARD, MAX_MIXED_QUIZ_QUESTIONS } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { Quiz } from './Quiz.tsx';
+import { SimilarPractice } from './SimilarPractice.tsx';
+import { ExamSettingsPicker, ExamResultSummary } from './ExamMode.tsx';
+
+interface MixedQuizSessionProps {
+    scope: MixedQuizScope;
+    onSessionEnd: () => void;
+    onGoHome: () => void;
+}
+
+// Creativity questions have no single answer to review against, so mixed quizzes leave them out.
+const MIXED_QUESTION_TYPES: { id: QuestionType; name: string }[] = [
+    { id: 'multiple-choice', name: '객관식' },
+    { id: 'short-answer', name: '서술형' },
+    { id: 'ox', name: 'OX' },
+];
+
+// Spreads a standard's questions over the chosen types. The starting type rotates with the
+// standard so that one question per standard doesn't turn the whole quiz into one type.
+const allocateTypes = (count: number, types: QuestionType[], rotation: number) => {
+    const counts = new Map<QuestionType, number>();
+    for (let i = 0; i < count; i++) {
+        const type = types[(rotation + i) % types.length];
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+    }
+    return [...counts.entries()].map(([type, typeCount]) => ({ type, count: typeCount }));
+};
+
+// A quiz over several standards (a unit, a 선택과목 or a hand-picked set) with per-standard
+// question counts. The saved result keeps a per-standard breakdown for the Dashboard.
+export const MixedQuizSession: React.FC<MixedQuizSessionProps> = ({ scope, onSessionEnd, onGoHome }) => {
+    const { subjectName, standards } = scope;
+    const [countsByStandard, setCountsByStandard] = useState<Record<string, number>>(() =>
+        Object.fromEntries(standards.map(standard => [standard.id, Math.max(1, Math.min(DEFAULT_MIXED_QUESTIONS_PER_STANDARD, Math.floor(MAX_MIXED_QUIZ_QUESTIONS / standards.length)))]))
+    );
+    const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(['multiple-choice', 'short-answer']);
+    const [difficulty, setDifficulty] = useState<'상' | '중' | '하'>('중');
+    const [examSettings, setExamSettings] = useState<ExamSettings | null>(null);
+
+    const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+    const [validationReport, setValidationReport] = useState<QuizValidationReport | null>(null);
+    const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
+    const [isReceivingQuestions, setIsReceivingQuestions] = useState(false);
+    const [expectedQuestionCount, setExpectedQuestionCount] = useState(0);
+    const [questionsError, setQuestionsError] = useState<string | null>(null);
+    const quizAbortRef = useRef<AbortController | null>(null);
+    const quizIdRef = useRef('');
+    const [practiceTarget, setPracticeTarget] = useState<{ questionIndex: number; studentAnswer: string | null } | null>(null);
+
+    const [, setStudyHistory] = useLocalStorage<QuizResult[]>('studyHistory', []);
+    const [lastResult, setLastResult] = useState<QuizResult | null>(null);
+
+    useEffect(() => () => quizAbortRef.current?.abort(), []);
+
+    const totalCount = standards.reduce((sum, standard) => sum + (countsByStandard[standard.id] ?? 0), 0);
+
+    const handleCountChange = (standardId: string, value: string) => {
+        const count = Math.max(0, parseInt(value, 10) || 0);
+        setCountsByStandard(prev => ({ ...prev, [standardId]: count }));
+    };
+
+    const handleSetAllCounts = (count: number) => {
+        setCountsByStandard(Object.fromEntries(standards.map(standard => [standard.id, count])));
+    };
+
+    const handleToggleType = (type: QuestionType) => {
+        setQuestionTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : MIXED_QUESTION_TYPES.map(t => t.id).filter(t => t === type || prev.includes(t))));
+    };
+
+    const handleGenerateQuiz = async () => {
+        quizAbortRef.current?.abort();
+        const controller = new AbortController();
+        quizAbortRef.current = controller;
+        const allocations: StandardAllocation[] = standards
+            .map((standard, index) => ({ standard, requests: allocateTypes(countsByStandard[standard.id] ?? 0, questionTypes, index) }))
+            .filter(({ requests }) => requests.length > 0);
+
+        quizIdRef.current = new Date().toISOString();
+        setQuestions([]);
+        setValidationReport(null);
+        setQuestionsError(null);
+        setIsGeneratingQuestions(true);
+        setIsReceivingQuestions(true);
+        setExpectedQuestionCount(totalCount);
+        try {
+            let receivedCount = 0;
+            const report = await streamMixedQuestions(subjectName, allocations, difficulty, {
+                onQuestion: question => {
+                    receivedCount++;
+                    setQuestions(prev => [...(prev || []), question]);
+                },
+                onUpdate: (index, question) => setQuestions(prev => prev && prev.map((q, i) => (i === index ? question : q))),
+                onQuestionsComplete: completeReport => {
+                    setIsReceivingQuestions(false);
+                    setValidationReport(completeReport);
+                },
+            }, controller.signal);
+            if (receivedCount === 0) {
+                throw new Error(report.dropped.length > 0
+                    ? "생성된 문제가 모두 형식 검사를 통과하지 못했습니다. 다시 시도해주세요."
+                    : "문제를 생성하지 못했습니다. 잠시 후 다시 시도해주세요.");
+            }
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setQuestionsError(err instanceof Error ? err.message : '문제를 생성하는 데 실패했습니다.');
+        } finally {
+            if (quizAbortRef.current === controller) {
+                quizAbortRef.current = null;
+                setIsGeneratingQuestions(false);
+                setIsReceivingQuestions(false);
+            }
+        }
+    };
+
+    const handleQuizSubmit = (
+        score: number,
+        correctAnswers: number,
+        totalQuestions: number,
+        userAnswers: (string | null)[],
+        correctness: (boolean | null)[],
+        hintsUsed: number[],
+        exam?: ExamRecord
+    ) => {
+        const quizQuestions = questions || [];
+        const newResult: QuizResult = {
+            id: quizIdRef.current || new Date().toISOString(),
+            date: new Date().toISOString(),
+            standardId: standards.map(standard => standard.id).join(', '),
+            standardDescription: scope.title,
+            subject: subjectName,
+            score,
+            totalQuestions,
+            correctAnswers,
+            questions: quizQuestions,
+            userAnswers,
+            correctness,
+            hintsUsed,
+            standardBreakdown: buildStandardBreakdown(standards, quizQuestions, correctness),
+            exam,
+        };
+        setStudyHistory(prev => upsertStudyResult(prev, newResult));
+        addMissedQuestions(newResult);
+        setLastResult(newResult);
+
+        if (needsMisconceptionTagging(newResult)) {
+            classifyMisconceptions(newResult)
+                .then(misconceptions => setStudyHistory(prev => upsertStudyResult(prev, { ...newResult, misconceptions })))
+                .catch(error => console.warn("Misconception tagging failed:", error));
+        }
+    };
+
+    if (lastResult) {
+        return (
+            <div className="max-w-2xl mx-auto bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg mt-4 transition-colors duration-300">
+                <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-white mb-1 text-center">종합 문제 완료!</h2>
+                <p className="text-slate-600 dark:text-slate-300 mb-4 text-sm text-center break-keep">{scope.title}</p>
+                <div className="bg-neon-blue/10 dark:bg-neon-blue/20 rounded-xl p-4 mb-4 text-center">
+                    <p className="text-base text-slate-700 dark:text-slate-200">
+                        총 <span className="font-bold text-neon-blue">{lastResult.totalQuestions}</span>문제 중 <span className="font-bold text-neon-blue">{lastResult.correctAnswers}</span>문제를 맞혔습니다.
+                    </p>
+                    <p className="text-3xl font-extrabold text-neon-blue mt-1">{lastResult.score.toFixed(0)}점</p>
+                </div>
+                {lastResult.exam && <ExamResultSummary exam={lastResult.exam} />}
+                <h3 className="text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">성취기준별 결과</h3>
+                <ul className="space-y-2 mb-4">
+                    {(lastResult.standardBreakdown || []).map(part => (
+                        <li key={part.standardId} className="text-xs">
+                            <div className="flex justify-between gap-2 mb-0.5">
+                                <span className="text-slate-700 dark:text-slate-300 truncate">
+                                    <span className="font-bold text-neon-blue mr-1">{part.standardId}</span>
+                                    {part.standardDescription}
+                                </span>
+                                <span className="shrink-0 font-semibold text-slate-600 dark:text-slate-300">{part.correctAnswers} / {part.totalQuestions}</span>
+                            </div>
+                            <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-1.5">
+                                <div
+                                    className={`h-1.5 rounded-full ${part.score >= 80 ? 'bg-lime-green' : part.score >= 60 ? 'bg-neon-blue' : 'bg-sunset-orange'}`}
+                                    style={{ width: `${part.score}%` }}
+                                ></div>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+                <div className="text-center">
+                    <Button onClick={onSessionEnd} className="w-full sm:w-auto !py-2.5">완료</Button>
+                </div>
+            </div>
+        );
+    }
+
+    if (questions && questions.length > 0) {
+        const practiceQuestion = practiceTarget ? questions[practiceTarget.questionIndex] : null;
+        const practiceStandard = practiceQuestion && standards.find(standard => standard.id === practiceQuestion.standardId);
+        return (
+            <>
+                {validationReport && validationReport.dropped.length > 0 && (
+                    <p className="max-w-4xl mx-auto mb-2 px-3 py-2 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 text-xs">
+                        형식 오류로 고칠 수 없었던 문제 {validationReport.dropped.length}개를 제외했어요.
+                    </p>
+                )}
+                {isGeneratingQuestions && (
+                    <div className="max-w-4xl mx-auto mb-2 flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300">
+                        <span className="w-3 h-3 border-2 border-neon-blue border-t-transparent rounded-full animate-spin"></span>
+                        {isReceivingQuestions
+                            ? `성취기준별로 문제를 만드는 중이에요 (${questions.length}/${Math.max(expectedQuestionCount, questions.length)}). 먼저 도착한 문제부터 풀어 보세요.`
+                            : '정답 검토와 그림을 준비하고 있어요.'}
+                    </div>
+                )}
+                {questionsError && (
+                    <p className="max-w-4xl mx-auto mb-2 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-xs text-red-600 dark:text-red-300">
+                        {questionsError} (도착한 {questions.length}문제로 계속 풀 수 있어요.)
+                    </p>
+                )}
+                <Quiz
+                    questions={questions}
+                    subjectName={subjectName}
+                    standardDescription={scope.title}
+                    onSubmit={handleQuizSubmit}
+                    pendingQuestionCount={isReceivingQuestions ? Math.max(expectedQuestionCount - questions.length, 1) : 0}
+                    onPracticeSimilar={(questionIndex, studentAnswer) => setPracticeTarget({ questionIndex, studentAnswer })}
+                    exam={examSettings ?? undefined}
+                />
+                {practiceTarget && practiceQuestion && practiceStandard && (
+                    <SimilarPractice
+                        question={practiceQuestion}
+                        originResultId={quizIdRef.current}
+                        questionIndex={practiceTarget.questionIndex}
+                        studentAnswer={practiceTarget.studentAnswer}
+                        subjectName={subjectName}
+                        standardId={practiceStandard.id}
+                        standardDescription={practiceStandard.description}
+                        onSaveResult={result => setStudyHistory(prev => upsertStudyResult(prev, result))}
+                        onClose={() => setPracticeTarget(null)}
+                    />
+                )}
+            </>
+        );
+    }
+
+    return (
+        <div className="max-w-3xl mx-auto pb-24 md:pb-6">
+            <div className="flex justify-between items-center mb-4">
+                <div className="min-w-0">
+                    <p className="text-xs font-semibold text-slate-500 dark:text-slate-400">{subjectName} · 종합 문제</p>
+                    <h1 className="text-lg sm:text-xl font-bold text-slate-900 dark:text-white truncate">{scope.title}</h1>
+                </div>
+                <Button variant="secondary" onClick={onGoHome} className="!py-1.5 !px-3 text-xs shrink-0">다시 고르기</Button>
+            </div>
+
+            <Card className="mb-4 !p-4">
+                <div className="flex justify-between items-center mb-2">
+                    <h2 className="text-sm font-bold text-slate-800 dark:text-slate-100">성취기준별 문항 수</h2>
+                    <div className="flex gap-1">
+                        {[0, 1, 2, 3].map(count => (
+                            <button
+                                key={count}
+                                onClick={() => handleSetAllCounts(count)}
+                                className="px-2 py-1 rounded border border-slate-300 dark:border-slate-600 text-[11px] text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+                            >
+                                모두 {count}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                    {standards.map(standard => (
+                        <li key={standard.id} className="flex items-center gap-3 py-2">
+                            <div className="flex-1 min-w-0 text-xs text-slate-700 dark:text-slate-300 leading-snug">
+                                <span className="font-bold text-neon-blue mr-1">{standard.id}</span>
+                                {standard.description}
+                            </div>
+                            <input
+                                type="number"
+                                min="0"
+                                value={countsByStandard[standard.id] ?? 0}
+                                onChange={e => handleCountChange(standard.id, e.target.value)}
+                                aria-label={`${standard.id} 문항 수`}
+                                className="w-14 p-1 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm text-center"
+                            />
+                        </li>
+                    ))}
+                </ul>
+            </Card>
+
+            <Card className="mb-4 !p-4">
+                <div className="flex flex-wrap items-center gap-4">
+                    <div>
+                        <p className="text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">문제 유형</p>
+                        <div className="flex gap-1">
+                            {MIXED_QUESTION_TYPES.map(type => (
+                                <button
+                                    key={type.id}
+                                    onClick={() => handleToggleType(type.id)}
+                                    className={`px-3 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+                                        questionTypes.includes(type.id)
+                                            ? 'bg-neon-blue/20 border-neon-blue text-neon-blue'
+                                            : 'bg-white border-slate-300 text-slate-500 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-400'
+                                    }`}
+                                >
+                                    {type.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="mixed-difficulty" className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">난이도</label>
+                        <select
+                            id="mixed-difficulty"
+                            value={difficulty}
+                            onChange={e => setDifficulty(e.target.value as '상' | '중' | '하')}
+                            className="p-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm"
+                        >
+                            <option value="상">상</option>
+                            <option value="중">중</option>
+                            <option value="하">하</option>
+                        </select>
+                    </div>
+                </div>
+            </Card>
+
+            <ExamSettingsPicker settings={examSettings} onChange={setExamSettings} />
+            <Button
+                onClick={handleGenerateQuiz}
+                disabled={isGeneratingQuestions || totalCount === 0 || totalCount > MAX_MIXED_QUIZ_QUESTIONS || questionTypes.length === 0}
+                className="w-full !py-3 text-base"
+            >
+                {isGeneratingQuestions ? <Spinner size="sm" /> : examSettings ? `총 ${totalCount}문제 시험 시작 (${examSettings.timeLimitMinutes}분)` : `총 ${totalCount}문제 풀기`}
+            </Button>
+            {totalCount > MAX_MIXED_QUIZ_QUESTIONS && (
+                <p className="text-red-500 mt-2 text-xs text-center">한 번에 최대 {MAX_MIXED_QUIZ_QUESTIONS}문제까지 만들 수 있어요.</p>
+            )}
+            {questionsError && <p className="text-red-500 mt-2 text-xs text-center">{questionsError}</p>}
+        </div>
+    );
+};
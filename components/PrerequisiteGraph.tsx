@@ -0,0 +1,383 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { AchievementStandard, PrerequisiteGraph as Graph, PrerequisiteSuggestion, QuizResult, WeakPrerequisite } from '../types.ts';
+import { STANDARD_PREREQUISITES, WEAK_STANDARD_SCORE } from '../constants.ts';
+import {
+    PREREQUISITE_EDITS_STORAGE_KEY,
+    ALL_STANDARD_LOCATIONS,
+    findStandardLocation,
+    buildPrerequisiteGraph,
+    getPrerequisites,
+    getDependents,
+    dependsOn,
+    prerequisiteCandidates,
+    recentStandardScores,
+} from '../services/prerequisites.ts';
+import { suggestPrerequisites } from '../services/geminiService.ts';
+import { isAbortError } from '../services/aiProvider.ts';
+import useLocalStorage from '../hooks/useLocalStorage.ts';
+import { Spinner } from './common/Spinner.tsx';
+
+interface PrerequisiteGraphProps {
+    subjectName: string;
+    grade: string;
+    onClose: () => void;
+    // Omitted while no AI is connected
+    onStudyStandard?: (subjectName: string, standard: AchievementStandard) => void;
+}
+
+const NODE_WIDTH = 112;
+const NODE_HEIGHT = 30;
+const COLUMN_GAP = 48;
+const ROW_GAP = 12;
+
+interface PlacedNode {
+    id: string;
+    x: number;
+    y: number;
+    isExternal: boolean;
+}
+
+// Columns by depth within the 선택과목: a standard sits one column right of its deepest
+// prerequisite. Prerequisites from other 선택과목 get a column of their own on the left.
+const layoutGraph = (graph: Graph, standardIds: string[]): PlacedNode[] => {
+    const inGrade = new Set(standardIds);
+    const columnById = new Map<string, number>();
+    // Prerequisites always come earlier in curriculum order, so one pass is enough.
+    standardIds.forEach(id => {
+        const prerequisiteColumns = getPrerequisites(graph, id).map(prerequisiteId => columnById.get(prerequisiteId) ?? -1);
+        columnById.set(id, Math.max(-1, ...prerequisiteColumns) + 1);
+    });
+    const externalIds = [...new Set(standardIds.flatMap(id => getPrerequisites(graph, id).filter(prerequisiteId => !inGrade.has(prerequisiteId))))]
+        .sort((a, b) => ALL_STANDARD_LOCATIONS.indexOf(findStandardLocation(a)!) - ALL_STANDARD_LOCATIONS.indexOf(findStandardLocation(b)!));
+    const offset = externalIds.length > 0 ? 1 : 0;
+
+    const columns: { id: string; isExternal: boolean }[][] = [externalIds.map(id => ({ id, isExternal: true }))];
+    standardIds.forEach(id => {
+        const column = columnById.get(id)! + offset;
+        (columns[column] = columns[column] || []).push({ id, isExternal: false });
+    });
+    return columns.flatMap((column, columnIndex) => (column || []).map((node, rowIndex) => ({
+        ...node,
+        x: columnIndex * (NODE_WIDTH + COLUMN_GAP),
+        y: rowIndex * (NODE_HEIGHT + ROW_GAP),
+    })));
+};
+
+// Modal map of which standards each standard of a 선택과목 builds on. The student can fix
+// the links by hand or take the AI's suggestions; edits are kept apart from the seeded graph.
+export const PrerequisiteGraph: React.FC<PrerequisiteGraphProps> = ({ subjectName, grade, onClose, onStudyStandard }) => {
+    const [edits, setEdits] = useLocalStorage<Graph>(PREREQUISITE_EDITS_STORAGE_KEY, {});
+    const [studyHistory] = useLocalStorage<QuizResult[]>('studyHistory', []);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [suggestions, setSuggestions] = useState<PrerequisiteSuggestion[] | null>(null);
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestError, setSuggestError] = useState<string | null>(null);
+    const suggestAbortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => suggestAbortRef.current?.abort(), []);
+
+    const graph = useMemo(() => buildPrerequisiteGraph(edits), [edits]);
+    const scores = useMemo(() => recentStandardScores(studyHistory), [studyHistory]);
+    const standardIds = useMemo(
+        () => ALL_STANDARD_LOCATIONS.filter(location => location.subjectName === subjectName && location.grade === grade).map(location => location.standard.id),
+        [subjectName, grade]
+    );
+    const nodes = useMemo(() => layoutGraph(graph, standardIds), [graph, standardIds]);
+    const nodeById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+    const edges = useMemo(() => standardIds.flatMap(id => getPrerequisites(graph, id).map(prerequisiteId => ({ from: prerequisiteId, to: id }))), [graph, standardIds]);
+
+    const width = Math.max(...nodes.map(node => node.x + NODE_WIDTH), NODE_WIDTH);
+    const height = Math.max(...nodes.map(node => node.y + NODE_HEIGHT), NODE_HEIGHT);
+
+    const selected = selectedId ? findStandardLocation(selectedId) : undefined;
+    const selectedPrerequisites = selectedId ? getPrerequisites(graph, selectedId) : [];
+    const selectedDependents = selectedId ? getDependents(graph, selectedId) : [];
+    // Linking a standard that already depends on the selected one would make a cycle.
+    const addableCandidates = selectedId
+        ? prerequisiteCandidates(selectedId).filter(candidate =>
+            !selectedPrerequisites.includes(candidate.standard.id) && !dependsOn(graph, candidate.standard.id, selectedId))
+        : [];
+
+    const selectStandard = (id: string) => {
+        suggestAbortRef.current?.abort();
+        setSelectedId(id === selectedId ? null : id);
+        setSuggestions(null);
+        setSuggestError(null);
+        setIsSuggesting(false);
+    };
+
+    const setPrerequisites = (id: string, prerequisiteIds: string[]) => {
+        setEdits(prev => ({ ...prev, [id]: prerequisiteIds }));
+    };
+
+    const resetPrerequisites = (id: string) => {
+        setEdits(prev => {
+            const { [id]: _removed, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleSuggest = async () => {
+        if (!selectedId) return;
+        suggestAbortRef.current?.abort();
+        const controller = new AbortController();
+        suggestAbortRef.current = controller;
+        setIsSuggesting(true);
+        setSuggestError(null);
+        try {
+            const result = await suggestPrerequisites(selectedId, controller.signal);
+            setSuggestions(result);
+        } catch (e) {
+            if (isAbortError(e)) return;
+            setSuggestError(e instanceof Error ? e.message : 'AI 추천을 받지 못했습니다.');
+        } finally {
+            if (suggestAbortRef.current === controller) {
+                setIsSuggesting(false);
+                suggestAbortRef.current = null;
+            }
+        }
+    };
+
+    const nodeClassName = (id: string) => {
+        const score = scores.get(id);
+        if (score === undefined) return 'fill-white stroke-slate-300 dark:fill-slate-700 dark:stroke-slate-500';
+        if (score < WEAK_STANDARD_SCORE) return 'fill-orange-50 stroke-sunset-orange dark:fill-orange-900/30';
+        return 'fill-green-50 stroke-lime-green dark:fill-green-900/30';
+    };
+
+    const isHighlighted = (edge: { from: string; to: string }) => edge.from === selectedId || edge.to === selectedId;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl p-4 sm:p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto text-left"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-2 border-b border-slate-100 dark:border-slate-700 pb-2">
+                    <h2 className="text-xl font-bold text-slate-800 dark:text-white">선수 학습 지도 · {grade}</h2>
+                    <button onClick={onClose} className="text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                    </button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2 leading-snug">
+                    화살표는 먼저 알아야 하는 성취기준에서 다음 성취기준으로 이어져요. 성취기준을 누르면 연결을 고칠 수 있어요.
+                    <span className="ml-1 text-sunset-orange">■ 최근 {WEAK_STANDARD_SCORE}점 미만</span>
+                    <span className="ml-1 text-lime-green">■ {WEAK_STANDARD_SCORE}점 이상</span>
+                    <span className="ml-1 text-slate-400">□ 아직 풀지 않음</span>
+                </p>
+
+                {standardIds.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-slate-500 dark:text-slate-400">이 선택과목에는 아직 성취기준이 없어요.</p>
+                ) : (
+                    <div className="overflow-auto border border-slate-200 dark:border-slate-700 rounded-lg p-3 bg-slate-50 dark:bg-slate-900/40">
+                        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block">
+                            <defs>
+                                <marker id="prerequisite-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                                    <path d="M 0 0 L 10 5 L 0 10 z" className="fill-slate-400" />
+                                </marker>
+                            </defs>
+                            {edges.map(edge => {
+                                const from = nodeById.get(edge.from);
+                                const to = nodeById.get(edge.to);
+                                if (!from || !to) return null;
+                                const x1 = from.x + NODE_WIDTH;
+                                const y1 = from.y + NODE_HEIGHT / 2;
+                                const x2 = to.x;
+                                const y2 = to.y + NODE_HEIGHT / 2;
+                                const bend = Math.max(COLUMN_GAP / 2, (x2 - x1) / 2);
+                                return (
+                                    <path
+                                        key={`${edge.from}-${edge.to}`}
+                                        d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                                        fill="none"
+                                        markerEnd="url(#prerequisite-arrow)"
+                                        className={isHighlighted(edge) ? 'stroke-neon-blue' : 'stroke-slate-300 dark:stroke-slate-600'}
+                                        strokeWidth={isHighlighted(edge) ? 2 : 1}
+                                    />
+                                );
+                            })}
+                            {nodes.map(node => (
+                                <g key={node.id} onClick={() => selectStandard(node.id)} className="cursor-pointer">
+                                    <title>{findStandardLocation(node.id)?.standard.description}</title>
+                                    <rect
+                                        x={node.x}
+                                        y={node.y}
+                                        width={NODE_WIDTH}
+                                        height={NODE_HEIGHT}
+                                        rx={6}
+                                        strokeWidth={node.id === selectedId ? 2.5 : 1}
+                                        strokeDasharray={node.isExternal ? '4 3' : undefined}
+                                        className={node.id === selectedId ? 'fill-white stroke-neon-blue dark:fill-slate-700' : nodeClassName(node.id)}
+                                    />
+                                    <text
+                                        x={node.x + NODE_WIDTH / 2}
+                                        y={node.y + NODE_HEIGHT / 2}
+                                        textAnchor="middle"
+                                        dominantBaseline="central"
+                                        className={`text-[11px] font-bold ${node.isExternal ? 'fill-slate-400' : 'fill-slate-700 dark:fill-slate-200'}`}
+                                    >
+                                        {node.id}
+                                    </text>
+                                </g>
+                            ))}
+                        </svg>
+                    </div>
+                )}
+
+                {selected && selectedId && (
+                    <div className="mt-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm">
+                        <div className="flex justify-between items-start gap-2 mb-2">
+                            <div>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">{selected.grade} &gt; {selected.unitName}</p>
+                                <p className="font-medium text-slate-800 dark:text-slate-100 leading-snug">
+                                    <span className="font-bold text-neon-blue mr-1">{selected.standard.id}</span>
+                                    {selected.standard.description}
+                                </p>
+                                {scores.has(selectedId) && (
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">최근 평균 {Math.round(scores.get(selectedId)!)}점</p>
+                                )}
+                            </div>
+                            {onStudyStandard && (
+                                <button
+                                    onClick={() => onStudyStandard(selected.subjectName, selected.standard)}
+                                    className="shrink-0 px-2.5 py-1 rounded-md bg-neon-blue text-white text-xs font-semibold hover:brightness-110"
+                                >
+                                    학습하기
+                                </button>
+                            )}
+                        </div>
+
+                        <p className="text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">먼저 알아야 할 성취기준</p>
+                        {selectedPrerequisites.length === 0 ? (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">연결된 성취기준이 없어요.</p>
+                        ) : (
+                            <ul className="space-y-1 mb-2">
+                                {selectedPrerequisites.map(id => (
+                                    <li key={id} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300 leading-snug">
+                                        <span className="flex-1">
+                                            <span className="font-bold text-neon-blue mr-1">{id}</span>
+                                            {findStandardLocation(id)?.standard.description}
+                                        </span>
+                                        <button
+                                            onClick={() => setPrerequisites(selectedId, selectedPrerequisites.filter(other => other !== id))}
+                                            className="shrink-0 text-slate-400 hover:text-red-500"
+                                            aria-label={`${id} 연결 지우기`}
+                                        >
+                                            ×
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {addableCandidates.length > 0 && (
+                            <select
+                                value=""
+                                onChange={e => e.target.value && setPrerequisites(selectedId, [...selectedPrerequisites, e.target.value])}
+                                className="w-full mb-2 bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-1.5 text-xs text-slate-800 dark:text-slate-100"
+                            >
+                                <option value="">+ 선수 성취기준 추가</option>
+                                {addableCandidates.map(candidate => (
+                                    <option key={candidate.standard.id} value={candidate.standard.id}>
+                                        {candidate.standard.id}: {candidate.standard.description}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+
+                        {selectedDependents.length > 0 && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                                이 성취기준이 바탕이 되는 성취기준: {selectedDependents.join(', ')}
+                            </p>
+                        )}
+
+                        <div className="flex flex-wrap gap-2 items-center">
+                            <button
+                                onClick={handleSuggest}
+                                disabled={isSuggesting || prerequisiteCandidates(selectedId).length === 0}
+                                className="px-2.5 py-1 rounded-md border border-neon-blue text-neon-blue text-xs font-semibold hover:bg-neon-blue/10 disabled:opacity-50"
+                            >
+                                {isSuggesting ? <Spinner size="sm" /> : '✨ AI 추천 받기'}
+                            </button>
+                            {edits[selectedId] && (
+                                <button
+                                    onClick={() => resetPrerequisites(selectedId)}
+                                    className="px-2.5 py-1 rounded-md text-xs text-slate-500 dark:text-slate-400 hover:text-red-500 hover:underline"
+                                >
+                                    {STANDARD_PREREQUISITES[selectedId] ? '기본값으로 되돌리기' : '연결 모두 지우기'}
+                                </button>
+                            )}
+                        </div>
+                        {suggestError && <p className="text-red-500 text-xs mt-1">{suggestError}</p>}
+                        {suggestions && (
+                            suggestions.length === 0 ? (
+                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">AI가 추천할 성취기준을 찾지 못했어요.</p>
+                            ) : (
+                                <ul className="mt-2 space-y-1">
+                                    {suggestions.map(suggestion => {
+                                        const isLinked = selectedPrerequisites.includes(suggestion.standardId);
+                                        const makesCycle = dependsOn(graph, suggestion.standardId, selectedId);
+                                        return (
+                                            <li key={suggestion.standardId} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300 leading-snug bg-slate-50 dark:bg-slate-700/50 rounded p-2">
+                                                <span className="flex-1">
+                                                    <span className="font-bold text-neon-blue mr-1">{suggestion.standardId}</span>
+                                                    {findStandardLocation(suggestion.standardId)?.standard.description}
+                                                    {suggestion.reason && <span className="block mt-0.5 text-slate-500 dark:text-slate-400">{suggestion.reason}</span>}
+                                                </span>
+                                                {isLinked ? (
+                                                    <span className="shrink-0 text-lime-green font-semibold">연결됨</span>
+                                                ) : makesCycle ? (
+                                                    <span className="shrink-0 text-slate-400">순환 연결</span>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => setPrerequisites(selectedId, [...selectedPrerequisites, suggestion.standardId])}
+                                                        className="shrink-0 px-2 py-0.5 rounded bg-neon-blue text-white font-semibold hover:brightness-110"
+                                                    >
+                                                        추가
+                                                    </button>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            )
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface WeakPrerequisiteListProps {
+    prerequisites: WeakPrerequisite[];
+    onStudyStandard?: (subjectName: string, standard: AchievementStandard) => void;
+}
+
+// Weak or not yet studied prerequisites of a standard, each with a shortcut to study it.
+export const WeakPrerequisiteList: React.FC<WeakPrerequisiteListProps> = ({ prerequisites, onStudyStandard }) => (
+    <ul className="space-y-1">
+        {prerequisites.map(item => (
+            <li key={item.standard.id} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300 leading-snug">
+                <span className="flex-1">
+                    <span className="font-bold text-neon-blue mr-1">{item.standard.id}</span>
+                    {item.standard.description}
+                    <span className={`ml-1 font-semibold ${item.score === null ? 'text-slate-400' : 'text-sunset-orange'}`}>
+                        {item.score === null ? '(아직 안 풀어 봄)' : `(최근 ${Math.round(item.score)}점)`}
+                    </span>
+                    {item.depth > 1 && <span className="ml-1 text-slate-400">· {item.depth}단계 전</span>}
+                </span>
+                {onStudyStandard && (
+                    <button
+                        onClick={() => onStudyStandard(item.subjectName, item.standard)}
+                        className="shrink-0 px-2 py-0.5 rounded bg-neon-blue text-white font-semibold hover:brightness-110"
+                    >
+                        복습하기
+                    </button>
+                )}
+            </li>
+        ))}
+    </ul>
+);
@@ -1,10 +1,19 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { QuizQuestion, Grade, ShortAnswerEvaluation } from '../types.ts';
+import type { QuizQuestion, Grade, ShortAnswerEvaluation, ExamSettings, ExamRecord } from '../types.ts';
 import { Card } from './common/Card.tsx';
 import { Button } from './common/Button.tsx';
 import { Spinner } from './common/Spinner.tsx';
-import { generateSpeech, evaluateShortAnswer, preprocessLaTeX } from '../services/geminiService.ts';
+import { AnswerVerificationNote } from './AnswerVerificationNote.tsx';
+import { HintLadder } from './HintLadder.tsx';
+import { SolutionSteps } from './SolutionSteps.tsx';
+import { QuestionFigures, figureMarkdownComponents } from './MarkdownFigures.tsx';
+import { formatExamTime } from './ExamMode.tsx';
+import { generateSpeech, evaluateShortAnswer, evaluateHandwrittenAnswer, generateHints, preprocessLaTeX } from '../services/geminiService.ts';
+import { gradeShortAnswerLocally } from '../services/mathEquivalence.ts';
+import { questionPoints } from '../services/quizValidation.ts';
+import { isAbortError, AiImageInput } from '../services/aiProvider.ts';
+import { HINT_CREDIT_PENALTY, MAX_HINTS_PER_QUESTION } from '../constants.ts';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -12,13 +21,25 @@ import rehypeKatex from 'rehype-katex';
 
 interface QuizProps {
     questions: QuizQuestion[];
+    subjectName: string;
+    standardDescription: string;
     onSubmit: (
         score: number, 
         correctAnswers: number, 
         totalQuestions: number,
         userAnswers: (string | null)[],
-        correctness: (boolean | null)[]
+        correctness: (boolean | null)[],
+        hintsUsed: number[],
+        exam?: ExamRecord
     ) => void;
+    // Questions still being generated; they are appended to `questions` as they arrive.
+    pendingQuestionCount?: number;
+    // Offered after a missed question to practice variants of it
+    onPracticeSimilar?: (questionIndex: number, studentAnswer: string | null) => void;
+    // Timed mock exam: answers are only graded when the whole quiz is handed in
+    exam?: ExamSettings;
+    // Subject and standard of each question when they differ across the quiz (the review queue)
+    questionContexts?: { subjectName: string; standardDescription: string }[];
 }
 
 // Helper functions for audio decoding (Local to Quiz to minimize external dependencies for now)
@@ -85,6 +106,23 @@ const isAnswerMatch = (option: string | null, answer: string, optionIndex: numbe
     return false;
 };
 
+const GRADE_CREDIT: Record<Grade, number> = { A: 1, B: 0.75, C: 0.5, D: 0.25, E: 0 };
+
+// Share of the question's credit an answer earns (before hints). Short answers graded C or
+// better count as correct; an ungraded one earns nothing.
+const gradeAnswer = (question: QuizQuestion, answer: string | null, grade: Grade | null) => {
+    if (question.questionType === 'multiple-choice' || question.questionType === 'ox') {
+        const options = question.options || [];
+        // Let's find the index of the user answer in the options
+        const selectedIndex = options.findIndex(opt => opt === answer);
+        // Check if this index matches the answer string, falling back to direct string match
+        const isCorrect = isAnswerMatch(answer, question.answer, selectedIndex, options);
+        return { credit: isCorrect ? 1 : 0, isCorrect };
+    }
+    const credit = grade ? GRADE_CREDIT[grade] : 0;
+    return { credit, isCorrect: credit >= GRADE_CREDIT.C };
+};
+
 const SpeakerIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
         <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
@@ -120,7 +158,34 @@ const TranslateIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     </svg>
 );
 
-export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
+const PHOTO_MAX_SIDE = 1600;
+
+// Phone photos run to several megabytes; shrink them to a JPEG that is still easy to read.
+const readPhotoAsJpeg = (file: File): Promise<AiImageInput> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        const scale = Math.min(1, PHOTO_MAX_SIDE / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error('사진을 처리할 수 없습니다.'));
+            return;
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve({ mimeType: 'image/jpeg', data: canvas.toDataURL('image/jpeg', 0.85).split(',')[1] });
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('사진을 불러오지 못했습니다. 다른 사진을 선택해주세요.'));
+    };
+    image.src = url;
+});
+
+export const Quiz: React.FC<QuizProps> = ({ questions, subjectName, standardDescription, onSubmit, pendingQuestionCount = 0, onPracticeSimilar, exam, questionContexts }) => {
     // Safety check: ensure questions exist and are not empty
     const safeQuestions = questions || [];
     const hasQuestions = safeQuestions.length > 0;
@@ -139,13 +204,51 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
     const [aiEvaluations, setAiEvaluations] = useState<(ShortAnswerEvaluation | null)[]>(hasQuestions ? Array(safeQuestions.length).fill(null) : []);
     const [isAiGrading, setIsAiGrading] = useState(false);
 
+    // Handwritten Work State: a photo can stand in for the typed answer and is graded multimodally
+    const [answerPhotos, setAnswerPhotos] = useState<(AiImageInput | null)[]>(hasQuestions ? Array(safeQuestions.length).fill(null) : []);
+    const [photoError, setPhotoError] = useState<string | null>(null);
+
+    // Hint Ladder State: hints are fetched once per question and revealed one at a time
+    const [hintSets, setHintSets] = useState<(string[] | null)[]>(hasQuestions ? Array(safeQuestions.length).fill(null) : []);
+    const [hintsUsed, setHintsUsed] = useState<number[]>(hasQuestions ? Array(safeQuestions.length).fill(0) : []);
+    const [isLoadingHint, setIsLoadingHint] = useState(false);
+    const [hintError, setHintError] = useState<string | null>(null);
+    const hintAbortRef = useRef<AbortController | null>(null);
+
     // Audio / Script / Translation State
     const [isSpeaking, setIsSpeaking] = useState(false);
     const [isLoadingTTS, setIsLoadingTTS] = useState(false);
+    // In-flight AI requests, aborted when they are superseded or the quiz unmounts
+    const speechAbortRef = useRef<AbortController | null>(null);
+    const gradingAbortRef = useRef<AbortController | null>(null);
     const [showScript, setShowScript] = useState(false);
     const [showTranslation, setShowTranslation] = useState(false); // Default hidden
     const audioContextRef = useRef<AudioContext | null>(null);
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+    // Exam Mode State: the clock starts once every question has been generated
+    const isExam = !!exam;
+    const [examStartedAt, setExamStartedAt] = useState<number | null>(null);
+    const [remainingSeconds, setRemainingSeconds] = useState(exam ? exam.timeLimitMinutes * 60 : 0);
+    const [flagged, setFlagged] = useState<boolean[]>(hasQuestions ? Array(safeQuestions.length).fill(false) : []);
+    const [isSubmittingExam, setIsSubmittingExam] = useState(false);
+    const [examError, setExamError] = useState<string | null>(null);
+    const examSubmittedRef = useRef(false);
+    const examAbortRef = useRef<AbortController | null>(null);
+
+    // Streamed questions keep arriving after mount; grow the per-question state to match
+    useEffect(() => {
+        const count = safeQuestions.length;
+        const pad = <T,>(values: T[], fill: T): T[] => (values.length >= count ? values : [...values, ...Array(count - values.length).fill(fill)]);
+        setUserAnswers(prev => pad(prev, null));
+        setCheckedStates(prev => pad(prev, false));
+        setShortAnswerGrades(prev => pad(prev, null));
+        setAiEvaluations(prev => pad(prev, null));
+        setAnswerPhotos(prev => pad(prev, null));
+        setHintSets(prev => pad(prev, null));
+        setHintsUsed(prev => pad(prev, 0));
+        setFlagged(prev => pad(prev, false));
+    }, [safeQuestions.length]);
     
     // Refs and Constants for Math Input
     const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -220,8 +323,12 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
 
     useEffect(() => {
         window.scrollTo({ top: 0, behavior: 'smooth' });
-        // Stop audio when changing questions
+        // Stop audio and pending grading/hints when changing questions
         stopAudio();
+        gradingAbortRef.current?.abort();
+        hintAbortRef.current?.abort();
+        setHintError(null);
+        setPhotoError(null);
         setShowScript(false);
         // We keep showTranslation state as is (user might want to keep it on)
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -241,6 +348,8 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
     }, [currentQuestionIndex, userAnswers, checkedStates, safeQuestions, hasQuestions]);
 
     const stopAudio = useCallback(() => {
+        speechAbortRef.current?.abort();
+        speechAbortRef.current = null;
         if (audioSourceRef.current) {
             try {
                 audioSourceRef.current.onended = null;
@@ -261,14 +370,103 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
 
     // Cleanup on unmount
     useEffect(() => {
-        return () => stopAudio();
+        return () => {
+            stopAudio();
+            gradingAbortRef.current?.abort();
+            hintAbortRef.current?.abort();
+            examAbortRef.current?.abort();
+        };
     }, [stopAudio]);
+
+    useEffect(() => {
+        if (exam && examStartedAt === null && pendingQuestionCount === 0) {
+            setExamStartedAt(Date.now());
+        }
+    }, [exam, examStartedAt, pendingQuestionCount]);
+
+    useEffect(() => {
+        if (!exam || examStartedAt === null) return;
+        const timer = setInterval(() => {
+            const elapsedSeconds = Math.floor((Date.now() - examStartedAt) / 1000);
+            setRemainingSeconds(Math.max(0, exam.timeLimitMinutes * 60 - elapsedSeconds));
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [exam, examStartedAt]);
+
+    // Grades every answer at once, scores it by 배점 and hands the exam in.
+    const submitExam = async (timedOut: boolean) => {
+        if (!exam || examSubmittedRef.current) return;
+        examSubmittedRef.current = true;
+        const elapsedSeconds = examStartedAt === null ? 0 : Math.min(exam.timeLimitMinutes * 60, Math.round((Date.now() - examStartedAt) / 1000));
+        const controller = new AbortController();
+        examAbortRef.current = controller;
+        setIsSubmittingExam(true);
+        setExamError(null);
+        try {
+            const settled = await Promise.allSettled(safeQuestions.map(async (question, index): Promise<ShortAnswerEvaluation | null> => {
+                if (question.questionType === 'multiple-choice' || question.questionType === 'ox') return null;
+                const answer = userAnswers[index] || '';
+                const photo = answerPhotos[index];
+                if (!answer.trim() && !photo) return { grade: 'E', feedback: '답안을 작성하지 않았습니다.' };
+                if (question.questionType === 'short-answer' && !photo) {
+                    const localResult = gradeShortAnswerLocally(answer, question.answer);
+                    if (localResult) return localResult;
+                }
+                return photo
+                    ? evaluateHandwrittenAnswer(question.question, question.answer, photo, controller.signal)
+                    : evaluateShortAnswer(question.question, question.answer, answer, controller.signal);
+            }));
+            if (controller.signal.aborted) return;
+            // One failed grade doesn't sink the whole exam: that answer is kept ungraded (null) instead
+            const ungraded = settled.flatMap((outcome, index) => (outcome.status === 'rejected' ? [index] : []));
+            ungraded.forEach(index => console.warn("Exam grading failed:", (settled[index] as PromiseRejectedResult).reason));
+            const evaluations = settled.map(outcome => (outcome.status === 'fulfilled' ? outcome.value : null));
+
+            // What was read from a photo stands in for the typed answer in the saved result
+            const answers = userAnswers.map((answer, index) => (answer?.trim() ? answer : evaluations[index]?.transcription || answer));
+            const points = safeQuestions.map(questionPoints);
+            const graded = safeQuestions.map((question, index) => gradeAnswer(question, answers[index], evaluations[index]?.grade ?? null));
+            const earnedPoints = graded.map((result, index) => result.credit * points[index]);
+            const totalPoints = points.reduce((sum, value) => sum + value, 0);
+            const score = totalPoints > 0 ? (earnedPoints.reduce((sum, value) => sum + value, 0) / totalPoints) * 100 : 0;
+            const correctness = graded.map((result, index) => (ungraded.includes(index) ? null : result.isCorrect));
+
+            setShowResults(true);
+            onSubmit(score, correctness.filter(Boolean).length, safeQuestions.length, answers, correctness, hintsUsed, {
+                timeLimitMinutes: exam.timeLimitMinutes,
+                elapsedSeconds,
+                timedOut,
+                points,
+                earnedPoints,
+                flagged: flagged.flatMap((isFlagged, index) => (isFlagged ? [index] : [])),
+                ungraded: ungraded.length > 0 ? ungraded : undefined,
+            });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            examSubmittedRef.current = false;
+            setExamError('채점 중 문제가 발생했습니다. 잠시 후 다시 제출해주세요.');
+        } finally {
+            if (examAbortRef.current === controller) {
+                examAbortRef.current = null;
+                setIsSubmittingExam(false);
+            }
+        }
+    };
+
+    // Time's up: hand in whatever has been answered
+    useEffect(() => {
+        if (isExam && remainingSeconds === 0) {
+            submitExam(true);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isExam, remainingSeconds]);
     
     if (!hasQuestions) {
         return <div className="p-8 text-center text-red-500 bg-white dark:bg-slate-800 rounded-xl shadow">문제 데이터가 없습니다. 다시 시도해주세요.</div>;
     }
 
     const currentQuestion = safeQuestions[currentQuestionIndex];
+    const questionContext = questionContexts?.[currentQuestionIndex] ?? { subjectName, standardDescription };
 
     const handlePlayScript = async (text: string) => {
         if (isSpeaking || isLoadingTTS) {
@@ -277,9 +475,11 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
         }
         
         setIsLoadingTTS(true);
+        const controller = new AbortController();
+        speechAbortRef.current = controller;
         try {
             // Use 'Zephyr' (British/International sounding male) for reading passages clearly
-            const base64Audio = await generateSpeech(text, 'Zephyr');
+            const base64Audio = await generateSpeech(text, 'Zephyr', controller.signal);
 
             const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             audioContextRef.current = audioCtx;
@@ -304,6 +504,7 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
             setIsSpeaking(true);
 
         } catch (err) {
+            if (isAbortError(err)) return;
             console.error(err);
             alert("오디오 재생 중 오류가 발생했습니다.");
             stopAudio();
@@ -313,17 +514,33 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
 
     const userAnswer = userAnswers[currentQuestionIndex];
     const isAnswerChecked = checkedStates[currentQuestionIndex];
+    // Answers wait for the clock, so nothing is solved while the rest of the exam is generated
+    const isExamClosed = isExam && (examStartedAt === null || remainingSeconds === 0 || isSubmittingExam);
+    const isInputLocked = isAnswerChecked || isExamClosed;
 
     const handleAnswerSelect = (option: string) => {
-        if (isAnswerChecked) return;
+        if (isInputLocked) return;
         const newAnswers = [...userAnswers];
         newAnswers[currentQuestionIndex] = option;
         setUserAnswers(newAnswers);
     };
+
+    // In exam mode there is no "check answer" step, so typed answers are saved as they change
+    const updateShortAnswer = (text: string) => {
+        setTempShortAnswer(text);
+        if (isExam) {
+            const questionIndex = currentQuestionIndex;
+            setUserAnswers(prev => {
+                const next = [...prev];
+                next[questionIndex] = text;
+                return next;
+            });
+        }
+    };
     
     const handleShortAnswerChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        if (isAnswerChecked) return;
-        setTempShortAnswer(e.target.value);
+        if (isInputLocked) return;
+        updateShortAnswer(e.target.value);
     };
 
     const insertMathSymbol = (insert: string, move: number) => {
@@ -335,7 +552,7 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
         const text = textarea.value;
         
         const newText = text.substring(0, start) + insert + text.substring(end);
-        setTempShortAnswer(newText);
+        updateShortAnswer(newText);
         
         setTimeout(() => {
             textarea.focus();
@@ -354,29 +571,137 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
             newAnswers[currentQuestionIndex] = tempShortAnswer;
             setUserAnswers(newAnswers);
         }
+
+        const photo = answerPhotos[currentQuestionIndex];
+
+        // Short math answers that are clearly right or wrong are graded on the spot, offline.
+        if (type === 'short-answer' && !photo) {
+            const localResult = gradeShortAnswerLocally(tempShortAnswer, currentQuestion.answer);
+            if (localResult) {
+                const newAiEvaluations = [...aiEvaluations];
+                newAiEvaluations[currentQuestionIndex] = localResult;
+                setAiEvaluations(newAiEvaluations);
+                const newGrades = [...shortAnswerGrades];
+                newGrades[currentQuestionIndex] = localResult.grade;
+                setShortAnswerGrades(newGrades);
+            }
+        }
         
         const newCheckedStates = [...checkedStates];
         newCheckedStates[currentQuestionIndex] = true;
         setCheckedStates(newCheckedStates);
         setShowScript(true); // Auto show script on check answer for review
+
+        // A photo has no typed answer to show, so grade it right away.
+        if (photo) {
+            handleAiGrading();
+        }
+    };
+
+    const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+        const questionIndex = currentQuestionIndex;
+        setPhotoError(null);
+        try {
+            const photo = await readPhotoAsJpeg(file);
+            setAnswerPhotos(prev => {
+                const next = [...prev];
+                next[questionIndex] = photo;
+                return next;
+            });
+        } catch (error) {
+            setPhotoError(error instanceof Error ? error.message : '사진을 불러오지 못했습니다.');
+        }
+    };
+
+    const handleRemovePhoto = () => {
+        setAnswerPhotos(prev => {
+            const next = [...prev];
+            next[currentQuestionIndex] = null;
+            return next;
+        });
     };
 
     // AI Grading Handler
     const handleAiGrading = async () => {
+        gradingAbortRef.current?.abort();
+        const controller = new AbortController();
+        gradingAbortRef.current = controller;
+        const questionIndex = currentQuestionIndex;
+        const photo = answerPhotos[questionIndex];
         setIsAiGrading(true);
         try {
-            const result = await evaluateShortAnswer(
-                currentQuestion.question,
-                currentQuestion.answer,
-                userAnswers[currentQuestionIndex] || ''
-            );
-            const newAiEvaluations = [...aiEvaluations];
-            newAiEvaluations[currentQuestionIndex] = result;
-            setAiEvaluations(newAiEvaluations);
+            const result = photo
+                ? await evaluateHandwrittenAnswer(currentQuestion.question, currentQuestion.answer, photo, controller.signal)
+                : await evaluateShortAnswer(
+                    currentQuestion.question,
+                    currentQuestion.answer,
+                    userAnswers[questionIndex] || '',
+                    controller.signal
+                );
+            setAiEvaluations(prev => {
+                const newAiEvaluations = [...prev];
+                newAiEvaluations[questionIndex] = result;
+                return newAiEvaluations;
+            });
+            // Keep what was read from the photo as the answer, so the saved result can be reviewed.
+            if (photo && result.transcription) {
+                setUserAnswers(prev => {
+                    const newAnswers = [...prev];
+                    if (!newAnswers[questionIndex]?.trim()) newAnswers[questionIndex] = result.transcription!;
+                    return newAnswers;
+                });
+            }
+        } catch (error) {
+            if (isAbortError(error)) return;
+            alert(photo && error instanceof Error ? error.message : 'AI 채점 중 문제가 발생했습니다. 잠시 후 다시 시도해주세요.');
+        } finally {
+            if (gradingAbortRef.current === controller) {
+                gradingAbortRef.current = null;
+                setIsAiGrading(false);
+            }
+        }
+    };
+
+    const revealHint = (questionIndex: number) => {
+        setHintsUsed(prev => {
+            const next = [...prev];
+            next[questionIndex] = Math.min(MAX_HINTS_PER_QUESTION, next[questionIndex] + 1);
+            return next;
+        });
+    };
+
+    // Hint Ladder Handler: the first click fetches all hints, later clicks reveal the next one
+    const handleRevealHint = async () => {
+        const questionIndex = currentQuestionIndex;
+        if (hintSets[questionIndex]) {
+            revealHint(questionIndex);
+            return;
+        }
+
+        hintAbortRef.current?.abort();
+        const controller = new AbortController();
+        hintAbortRef.current = controller;
+        setIsLoadingHint(true);
+        setHintError(null);
+        try {
+            const hints = await generateHints(currentQuestion, questionContext.subjectName, questionContext.standardDescription, controller.signal);
+            setHintSets(prev => {
+                const next = [...prev];
+                next[questionIndex] = hints;
+                return next;
+            });
+            revealHint(questionIndex);
         } catch (error) {
-            alert('AI 채점 중 문제가 발생했습니다. 잠시 후 다시 시도해주세요.');
+            if (isAbortError(error)) return;
+            setHintError(error instanceof Error ? error.message : '힌트를 불러오지 못했습니다.');
         } finally {
-            setIsAiGrading(false);
+            if (hintAbortRef.current === controller) {
+                hintAbortRef.current = null;
+                setIsLoadingHint(false);
+            }
         }
     };
 
@@ -399,54 +724,50 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
         } else {
             // Calculate final results
             let totalEarnedPoints = 0;
+            // Each revealed hint takes a share of the question's credit
+            const earn = (index: number, points: number) => {
+                totalEarnedPoints += points * Math.max(0, 1 - hintsUsed[index] * HINT_CREDIT_PENALTY);
+            };
             const calculatedCorrectness = safeQuestions.map((question, index) => {
-                 const type = question.questionType;
-                 const isMcOrOx = type === 'multiple-choice' || type === 'ox';
-                 const ans = userAnswers[index];
-                 
-                 if (!isMcOrOx) {
-                     const grade = shortAnswerGrades[index];
-                     if (grade === 'A') {
-                         totalEarnedPoints += 1;
-                         return true;
-                     } else if (grade === 'B') {
-                         totalEarnedPoints += 0.75;
-                         return true; // 75%
-                     } else if (grade === 'C') {
-                         totalEarnedPoints += 0.5;
-                         return true; // 50%
-                     } else if (grade === 'D') {
-                         totalEarnedPoints += 0.25;
-                         return false; // 25% considered incorrect for binary stat
-                     } else {
-                         return false;
-                     }
-                 } else {
-                     // Let's find the index of the user answer in the options
-                     const options = question.options || [];
-                     const selectedIndex = options.findIndex(opt => opt === ans);
-                     
-                     if (selectedIndex !== -1) {
-                         // Check if this index matches the answer string
-                         return isAnswerMatch(ans, question.answer, selectedIndex, options);
-                     }
-                     
-                     // Fallback to direct string match
-                     const isCorrect = isAnswerMatch(ans, question.answer, -1, options);
-                     if (isCorrect) totalEarnedPoints += 1;
-                     return isCorrect;
-                 }
+                 const { credit, isCorrect } = gradeAnswer(question, userAnswers[index], shortAnswerGrades[index]);
+                 earn(index, credit);
+                 return isCorrect;
             });
 
             const scorePercentage = (totalEarnedPoints / safeQuestions.length) * 100;
             const correctCount = calculatedCorrectness.filter(c => c === true).length;
             
             setShowResults(true);
-            onSubmit(scorePercentage, correctCount, safeQuestions.length, userAnswers, calculatedCorrectness);
+            onSubmit(scorePercentage, correctCount, safeQuestions.length, userAnswers, calculatedCorrectness, hintsUsed);
         }
     };
 
+    const handleSubmitExam = () => {
+        const unanswered = safeQuestions.filter((_, index) => !userAnswers[index]?.trim() && !answerPhotos[index]).length;
+        const flaggedCount = flagged.filter(Boolean).length;
+        const warnings = [
+            unanswered > 0 ? `아직 풀지 않은 문제가 ${unanswered}개 있어요.` : '',
+            flaggedCount > 0 ? `다시 보기로 표시한 문제가 ${flaggedCount}개 있어요.` : '',
+        ].filter(Boolean);
+        if (remainingSeconds > 0 && !window.confirm([...warnings, '제출하면 답안을 더 고칠 수 없어요. 제출할까요?'].join('\n'))) return;
+        submitExam(remainingSeconds === 0);
+    };
+
+    // Wrong choice, or a short answer graded D or below; creativity answers have no wrong answer.
+    const isCurrentAnswerMissed = (() => {
+        if (!isAnswerChecked) return false;
+        const type = currentQuestion.questionType;
+        if (type === 'multiple-choice' || type === 'ox') {
+            const options = currentQuestion.options || [];
+            return !isAnswerMatch(userAnswer, currentQuestion.answer, options.findIndex(opt => opt === userAnswer), options);
+        }
+        const grade = shortAnswerGrades[currentQuestionIndex];
+        return type === 'short-answer' && (grade === 'D' || grade === 'E');
+    })();
+
     const isLastQuestion = currentQuestionIndex === safeQuestions.length - 1;
+    const isWaitingForNext = isLastQuestion && pendingQuestionCount > 0;
+    const expectedTotal = safeQuestions.length + pendingQuestionCount;
 
     const getOptionClasses = (option: string, index: number) => {
         let baseClasses = 'w-full text-left p-3 border rounded-lg transition-all duration-200 select-none text-sm leading-snug';
@@ -481,6 +802,7 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
         th: (props: any) => <th className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-left whitespace-nowrap text-xs sm:text-sm" {...props} />,
         td: (props: any) => <td className="border border-slate-300 dark:border-slate-600 px-2 py-1 text-xs sm:text-sm min-w-[80px]" {...props} />,
         p: (props: any) => <p className="mb-0" {...props} />, 
+        ...figureMarkdownComponents,
     };
 
     const renderQuestionInput = () => {
@@ -516,7 +838,7 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                                 <button
                                     onClick={() => handleAnswerSelect(option)}
                                     className={getOptionClasses(option, index)}
-                                    disabled={isAnswerChecked}
+                                    disabled={isInputLocked}
                                 >
                                     <div className="overflow-x-auto">
                                         <ReactMarkdown 
@@ -564,20 +886,25 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                                     {currentQuestion.answerTranslation}
                                 </div>
                             )}
+                            <AnswerVerificationNote verification={currentQuestion.verification} />
 
                             {/* Explanation for MC/OX */}
                             <p className="font-semibold text-slate-800 dark:text-slate-200 mb-1.5 text-sm mt-3 pt-3 border-t border-slate-200 dark:border-slate-600">
                                 해설:
                             </p>
-                            <div className="text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border border-slate-200 dark:border-slate-600 text-sm">
-                                <ReactMarkdown 
-                                    remarkPlugins={[remarkGfm, remarkMath]}
-                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
-                                    components={markdownComponents}
-                                >
-                                    {preprocessLaTeX(currentQuestion.explanation)}
-                                </ReactMarkdown>
-                            </div>
+                            {currentQuestion.solutionSteps ? (
+                                <SolutionSteps key={currentQuestionIndex} question={currentQuestion} subjectName={questionContext.subjectName} standardDescription={questionContext.standardDescription} />
+                            ) : (
+                                <div className="text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border border-slate-200 dark:border-slate-600 text-sm">
+                                    <ReactMarkdown 
+                                        remarkPlugins={[remarkGfm, remarkMath]}
+                                        rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
+                                        components={markdownComponents}
+                                    >
+                                        {preprocessLaTeX(currentQuestion.explanation)}
+                                    </ReactMarkdown>
+                                </div>
+                            )}
                             {showTranslation && currentQuestion.explanationTranslation && (
                                 <div className="mt-1 text-slate-500 dark:text-slate-400 text-xs p-2">
                                     <span className="font-semibold mr-1">한글:</span>
@@ -602,7 +929,7 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                             onClick={() => insertMathSymbol(item.insert, item.move)}
                             className="flex-shrink-0 px-2.5 py-1.5 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded text-xs sm:text-sm font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-slate-700 dark:text-slate-200"
                             title={item.insert}
-                            disabled={isAnswerChecked}
+                            disabled={isInputLocked}
                         >
                             {item.label}
                         </button>
@@ -613,7 +940,7 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                     ref={textareaRef}
                     value={tempShortAnswer}
                     onChange={handleShortAnswerChange}
-                    disabled={isAnswerChecked}
+                    disabled={isInputLocked}
                     className="w-full p-3 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-lg focus:ring-2 focus:ring-neon-blue text-base text-slate-800 dark:text-slate-100"
                     placeholder={type === 'creativity' ? "창의적인 답변을 자유롭게 작성해보세요..." : "정답을 입력하세요..."}
                     rows={2}
@@ -634,6 +961,30 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                     </div>
                 )}
 
+                {/* Handwritten work: typing math on a phone is slow, so a photo of the paper works too */}
+                <div className="mt-2">
+                    {answerPhotos[currentQuestionIndex] ? (
+                        <div className="flex items-start gap-2">
+                            <img
+                                src={`data:${answerPhotos[currentQuestionIndex]!.mimeType};base64,${answerPhotos[currentQuestionIndex]!.data}`}
+                                alt="손글씨 풀이 사진"
+                                className="max-h-40 rounded-lg border border-slate-200 dark:border-slate-600"
+                            />
+                            {!isInputLocked && (
+                                <button onClick={handleRemovePhoto} className="text-xs text-slate-500 hover:text-red-500 underline">
+                                    사진 삭제
+                                </button>
+                            )}
+                        </div>
+                    ) : !isInputLocked && (
+                        <label className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-dashed border-slate-300 dark:border-slate-600 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 cursor-pointer transition-colors">
+                            📷 손글씨 풀이 사진으로 제출
+                            <input type="file" accept="image/*" capture="environment" onChange={handlePhotoSelected} className="hidden" />
+                        </label>
+                    )}
+                    {photoError && <p className="text-red-500 text-xs mt-1">{photoError}</p>}
+                </div>
+
                 {isAnswerChecked && (
                     <div className="mt-4 p-3 sm:p-4 rounded-lg bg-slate-50 dark:bg-slate-700/30 border border-slate-200 dark:border-slate-600">
                         <p className="font-semibold text-slate-800 dark:text-slate-200 mb-1.5 text-sm">
@@ -655,20 +1006,25 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                                 {currentQuestion.answerTranslation}
                             </div>
                         )}
+                        <AnswerVerificationNote verification={currentQuestion.verification} />
                         
                         {/* Explanation for Short Answer/Creativity */}
                         <p className="font-semibold text-slate-800 dark:text-slate-200 mb-1.5 text-sm mt-3 pt-3 border-t border-slate-200 dark:border-slate-600">
                             해설:
                         </p>
-                        <div className="text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border border-slate-200 dark:border-slate-600 text-sm">
-                            <ReactMarkdown 
-                                remarkPlugins={[remarkGfm, remarkMath]}
-                                rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
-                                components={markdownComponents}
-                            >
-                                {preprocessLaTeX(currentQuestion.explanation)}
-                            </ReactMarkdown>
-                        </div>
+                        {currentQuestion.solutionSteps ? (
+                            <SolutionSteps key={currentQuestionIndex} question={currentQuestion} subjectName={questionContext.subjectName} standardDescription={questionContext.standardDescription} />
+                        ) : (
+                            <div className="text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border border-slate-200 dark:border-slate-600 text-sm">
+                                <ReactMarkdown 
+                                    remarkPlugins={[remarkGfm, remarkMath]}
+                                    rehypePlugins={[[rehypeKatex, { output: 'html' }]]} 
+                                    components={markdownComponents}
+                                >
+                                    {preprocessLaTeX(currentQuestion.explanation)}
+                                </ReactMarkdown>
+                            </div>
+                        )}
                         {showTranslation && currentQuestion.explanationTranslation && (
                             <div className="mt-1 text-slate-500 dark:text-slate-400 text-xs p-2">
                                 <span className="font-semibold mr-1">한글:</span>
@@ -688,12 +1044,12 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                                         disabled={isAiGrading}
                                         className="text-xs !py-1.5 !px-3"
                                     >
-                                        {isAiGrading ? <Spinner size="sm" /> : '🤖 AI 채점 결과 보기'}
+                                        {isAiGrading ? <Spinner size="sm" /> : answerPhotos[currentQuestionIndex] ? '🤖 사진 풀이 채점하기' : '🤖 AI 채점 결과 보기'}
                                     </Button>
                                 ) : (
                                     <div className="bg-white dark:bg-slate-800 p-3 rounded-lg border border-slate-200 dark:border-slate-600 text-sm">
                                         <div className="flex items-center gap-2 mb-1">
-                                            <span className="font-bold text-neon-blue">AI 점수:</span>
+                                            <span className="font-bold text-neon-blue">{aiEvaluations[currentQuestionIndex]!.gradedLocally ? '자동 채점:' : 'AI 점수:'}</span>
                                             <span className={`font-bold px-2 py-0.5 rounded text-xs ${
                                                 aiEvaluations[currentQuestionIndex]!.grade === 'A' ? 'bg-green-100 text-green-700' :
                                                 aiEvaluations[currentQuestionIndex]!.grade === 'B' ? 'bg-blue-100 text-blue-700' :
@@ -707,6 +1063,24 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                                         <p className="text-slate-600 dark:text-slate-300 text-xs leading-snug">
                                             {aiEvaluations[currentQuestionIndex]!.feedback}
                                         </p>
+                                        {aiEvaluations[currentQuestionIndex]!.wrongStep && (
+                                            <div className="mt-2 p-2 rounded bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 text-xs text-orange-800 dark:text-orange-200">
+                                                <span className="font-bold mr-1">틀린 단계:</span>
+                                                <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]} components={markdownComponents}>
+                                                    {preprocessLaTeX(aiEvaluations[currentQuestionIndex]!.wrongStep)}
+                                                </ReactMarkdown>
+                                            </div>
+                                        )}
+                                        {aiEvaluations[currentQuestionIndex]!.transcription && (
+                                            <details className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                                                <summary className="cursor-pointer">사진에서 읽은 풀이</summary>
+                                                <div className="mt-1 text-slate-700 dark:text-slate-300">
+                                                    <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]} components={markdownComponents}>
+                                                        {preprocessLaTeX(aiEvaluations[currentQuestionIndex]!.transcription)}
+                                                    </ReactMarkdown>
+                                                </div>
+                                            </details>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -774,12 +1148,54 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
 
     return (
         <div className="max-w-3xl mx-auto pb-24 md:pb-20">
+             {isExam && (
+                <div className="mb-4 p-3 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="text-xs font-bold text-slate-500 dark:text-slate-400">
+                            시험 모드 · {userAnswers.filter((answer, index) => answer?.trim() || answerPhotos[index]).length}/{expectedTotal}문제 답함
+                        </span>
+                        {examStartedAt === null && (
+                            <span className="ml-auto mr-2 text-[11px] text-slate-400">문제가 모두 나오면 시작해요</span>
+                        )}
+                        <span className={`font-mono text-lg font-bold ${remainingSeconds <= 60 ? 'text-red-500 animate-pulse' : remainingSeconds <= 300 ? 'text-sunset-orange' : 'text-slate-800 dark:text-slate-100'}`}>
+                            ⏱ {formatExamTime(remainingSeconds)}
+                        </span>
+                    </div>
+                    {/* Question navigator: answered, flagged and the current question at a glance */}
+                    <div className="grid grid-cols-8 sm:grid-cols-10 gap-1">
+                        {safeQuestions.map((_, index) => (
+                            <button
+                                key={index}
+                                onClick={() => setCurrentQuestionIndex(index)}
+                                aria-label={`문제 ${index + 1}로 이동`}
+                                className={`relative h-8 rounded text-xs font-bold border transition-colors ${
+                                    index === currentQuestionIndex ? 'ring-2 ring-neon-blue ' : ''
+                                }${
+                                    userAnswers[index]?.trim() || answerPhotos[index]
+                                        ? 'bg-neon-blue/20 border-neon-blue text-neon-blue'
+                                        : 'bg-white border-slate-300 text-slate-500 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-300'
+                                }`}
+                            >
+                                {index + 1}
+                                {flagged[index] && <span className="absolute -top-1.5 -right-1 text-[10px]">🚩</span>}
+                            </button>
+                        ))}
+                        {Array.from({ length: pendingQuestionCount }, (_, index) => (
+                            <div key={`pending-${index}`} className="h-8 rounded border border-dashed border-slate-300 dark:border-slate-600 animate-pulse"></div>
+                        ))}
+                    </div>
+                </div>
+             )}
+
              {/* Header: Progress & Question Type */}
              <div className="mb-4 sm:mb-6">
                 <div className="flex justify-between items-end mb-2">
                     <span className="text-sm font-bold text-neon-blue">
                         문제 {currentQuestionIndex + 1}
-                        <span className="text-slate-400 font-normal"> / {safeQuestions.length}</span>
+                        <span className="text-slate-400 font-normal"> / {expectedTotal}</span>
+                        {pendingQuestionCount > 0 && (
+                            <span className="ml-2 text-[11px] font-normal text-slate-400">({pendingQuestionCount}문제 생성 중)</span>
+                        )}
                     </span>
                     <span className="text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
                         {currentQuestion.questionType === 'multiple-choice' ? '객관식' : 
@@ -787,15 +1203,39 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                          currentQuestion.questionType === 'short-answer' ? '단답형' : '창의 서술형'}
                     </span>
                 </div>
-                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+                <div className="relative w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+                    {pendingQuestionCount > 0 && (
+                        // Lighter segment: questions that have arrived but not been reached yet
+                        <div
+                            className="absolute inset-y-0 left-0 bg-neon-blue/25 rounded-full transition-all duration-300 ease-out"
+                            style={{ width: `${(safeQuestions.length / expectedTotal) * 100}%` }}
+                        ></div>
+                    )}
                     <div 
-                        className="bg-neon-blue h-2 rounded-full transition-all duration-300 ease-out"
-                        style={{ width: `${((currentQuestionIndex + 1) / safeQuestions.length) * 100}%` }}
+                        className="relative bg-neon-blue h-2 rounded-full transition-all duration-300 ease-out"
+                        style={{ width: `${((currentQuestionIndex + 1) / expectedTotal) * 100}%` }}
                     ></div>
                 </div>
             </div>
 
             <Card className="p-4 sm:p-6 md:p-8 min-h-[300px] flex flex-col relative">
+                {isExam && (
+                    <div className="flex justify-between items-center mb-3 pb-2 border-b border-slate-200 dark:border-slate-700">
+                        <span className="text-sm font-bold text-slate-700 dark:text-slate-200">
+                            {currentQuestionIndex + 1}. <span className="font-normal text-slate-500 dark:text-slate-400">[{questionPoints(currentQuestion)}점]</span>
+                        </span>
+                        <button
+                            onClick={() => setFlagged(prev => prev.map((isFlagged, index) => (index === currentQuestionIndex ? !isFlagged : isFlagged)))}
+                            className={`px-2 py-1 rounded-md border text-xs font-medium transition-colors ${
+                                flagged[currentQuestionIndex]
+                                    ? 'bg-orange-50 border-orange-400 text-orange-600 dark:bg-orange-900/20 dark:text-orange-300'
+                                    : 'bg-white border-slate-300 text-slate-500 hover:bg-slate-50 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-300'
+                            }`}
+                        >
+                            🚩 {flagged[currentQuestionIndex] ? '다시 보기 표시됨' : '나중에 다시 보기'}
+                        </button>
+                    </div>
+                )}
                 {/* Question Text */}
                 <div className="mb-6">
                     <div className="flex justify-between items-start gap-4 mb-4">
@@ -841,6 +1281,13 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                         </div>
                     )}
 
+                    {/* Graph and geometry figure drawn by the app */}
+                    {(currentQuestion.plot || currentQuestion.diagram) && (
+                        <div className="mb-6">
+                            <QuestionFigures question={currentQuestion} />
+                        </div>
+                    )}
+
                     {/* Passage / Script if available */}
                     {currentQuestion.passage && (
                         <div className="mb-6 p-4 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700">
@@ -880,10 +1327,41 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                     )}
                 </div>
 
+                {/* Hints before answering; not in exam mode, as in a real test */}
+                {currentQuestion.questionType !== 'creativity' && !isExam && (
+                    <HintLadder
+                        hints={hintSets[currentQuestionIndex] || []}
+                        revealedCount={hintsUsed[currentQuestionIndex]}
+                        isLoading={isLoadingHint}
+                        error={hintError}
+                        isLocked={isAnswerChecked}
+                        onRevealNext={handleRevealHint}
+                    />
+                )}
+
                 {/* Render Options or Input */}
                 {renderQuestionInput()}
+
+                {onPracticeSimilar && isCurrentAnswerMissed && (
+                    <div className="mt-4 flex justify-end">
+                        <Button
+                            variant="secondary"
+                            onClick={() => onPracticeSimilar(currentQuestionIndex, userAnswers[currentQuestionIndex])}
+                            className="text-sm !py-2 !px-4"
+                        >
+                            🔁 비슷한 문제 더 풀기
+                        </Button>
+                    </div>
+                )}
             </Card>
 
+            {examError && (
+                <p className="mt-3 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-xs text-red-600 dark:text-red-300">{examError}</p>
+            )}
+            {isSubmittingExam && (
+                <p className="mt-3 text-center text-xs text-slate-500 dark:text-slate-400">답안을 채점하고 있어요. 서술형 문항은 AI 채점에 조금 걸릴 수 있어요.</p>
+            )}
+
             {/* Footer Actions */}
             <div className="fixed bottom-0 left-0 right-0 p-3 sm:p-4 bg-white/90 dark:bg-slate-900/90 backdrop-blur-md border-t border-slate-200 dark:border-slate-700 z-40 md:static md:bg-transparent md:border-0 md:p-0 md:mt-6">
                 <div className="max-w-3xl mx-auto flex gap-3 items-center">
@@ -899,13 +1377,29 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                     )}
 
                     <div className="flex-1 flex gap-3">
-                        {!isAnswerChecked ? (
+                        {isExam ? (
+                            <>
+                                <Button variant="secondary" onClick={handlePrev} disabled={currentQuestionIndex === 0 || isSubmittingExam} className="py-3 px-4">
+                                    이전
+                                </Button>
+                                <Button variant="secondary" onClick={() => setCurrentQuestionIndex(prev => prev + 1)} disabled={isLastQuestion || isSubmittingExam} className="py-3 px-4">
+                                    다음
+                                </Button>
+                                <Button
+                                    onClick={handleSubmitExam}
+                                    disabled={isSubmittingExam || (pendingQuestionCount > 0 && remainingSeconds > 0)}
+                                    className="flex-1 py-3 text-lg shadow-lg md:shadow-none"
+                                >
+                                    {isSubmittingExam ? <Spinner size="sm" /> : pendingQuestionCount > 0 && remainingSeconds > 0 ? '문제 생성 중...' : '답안 제출'}
+                                </Button>
+                            </>
+                        ) : !isAnswerChecked ? (
                             <Button 
                                 onClick={handleCheckAnswer} 
                                 disabled={
                                     (currentQuestion.questionType === 'multiple-choice' || currentQuestion.questionType === 'ox') 
                                     ? !userAnswer 
-                                    : !tempShortAnswer.trim()
+                                    : !tempShortAnswer.trim() && !answerPhotos[currentQuestionIndex]
                                 }
                                 className="w-full py-3 text-lg shadow-lg md:shadow-none"
                             >
@@ -914,9 +1408,10 @@ export const Quiz: React.FC<QuizProps> = ({ questions, onSubmit }) => {
                         ) : (
                             <Button 
                                 onClick={handleNext} 
+                                disabled={isWaitingForNext}
                                 className="w-full py-3 text-lg shadow-lg md:shadow-none"
                             >
-                                {isLastQuestion ? '결과 보기' : '다음 문제'}
+                                {isWaitingForNext ? '다음 문제 생성 중...' : isLastQuestion ? '결과 보기' : '다음 문제'}
                             </Button>
                         )}
                     </div>
@@ -0,0 +1,133 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import type { ReviewCard, ReviewGrade } from '../types.ts';
+import { getReviewQueue, subscribeReviewQueue, getDueCards, getActiveCards, countReviewedToday, recordReviews, daysUntil } from '../services/reviewQueue.ts';
+import { DAILY_REVIEW_LIMIT } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import { Quiz } from './Quiz.tsx';
+
+const describeDue = (days: number) => (days <= 0 ? '오늘' : days === 1 ? '내일' : `${days}일 뒤`);
+
+// Home-screen entry to the day's review; hidden until a question has been missed.
+export const ReviewQueueCard: React.FC<{ onStartReview: () => void }> = ({ onStartReview }) => {
+    const queue = useSyncExternalStore(subscribeReviewQueue, getReviewQueue);
+    const activeCards = getActiveCards(queue);
+    if (activeCards.length === 0) return null;
+
+    const dueCount = getDueCards(queue).length;
+    const reviewedToday = countReviewedToday(queue);
+    const nextDue = activeCards.reduce((earliest, card) => (card.due < earliest ? card.due : earliest), activeCards[0].due);
+    const nextDueCount = activeCards.filter(card => card.due === nextDue).length;
+
+    return (
+        <div className="mt-2 mb-3 flex items-center justify-between gap-3 bg-white dark:bg-slate-800 rounded-xl shadow-lg px-4 py-3 text-left transition-colors duration-300">
+            <div className="min-w-0">
+                <h2 className="text-sm sm:text-base font-bold text-slate-800 dark:text-white">🔁 오늘의 복습</h2>
+                <p className="text-xs text-slate-500 dark:text-slate-400 leading-snug">
+                    {dueCount > 0
+                        ? `틀렸던 문제 ${dueCount}개를 다시 풀 차례예요.`
+                        : reviewedToday >= DAILY_REVIEW_LIMIT
+                            ? `오늘은 ${reviewedToday}문제를 복습했어요. 나머지는 내일 이어서 풀어요.`
+                            : `오늘 복습 끝! 다음 복습은 ${describeDue(daysUntil(nextDue))} ${nextDueCount}문제예요.`}
+                    <span className="ml-1 text-slate-400">(복습 중인 문제 {activeCards.length}개)</span>
+                </p>
+            </div>
+            {dueCount > 0 && (
+                <Button onClick={onStartReview} className="!py-2 !px-3 text-xs shrink-0">복습 시작</Button>
+            )}
+        </div>
+    );
+};
+
+interface ReviewSessionProps {
+    onGoHome: () => void;
+}
+
+// Today's due cards as one quiz. How each answer went sets when the card comes back:
+// wrong → tomorrow, right with hints → a little later, right on its own → much later.
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ onGoHome }) => {
+    // Fixed for the session; answering reschedules cards out of the due list
+    const [cards] = useState<ReviewCard[]>(() => getDueCards());
+    const [outcome, setOutcome] = useState<{ card: ReviewCard; grade: ReviewGrade }[] | null>(null);
+    const queue = useSyncExternalStore(subscribeReviewQueue, getReviewQueue);
+
+    const handleQuizSubmit = (
+        _score: number,
+        _correctAnswers: number,
+        _totalQuestions: number,
+        _userAnswers: (string | null)[],
+        correctness: (boolean | null)[],
+        hintsUsed: number[]
+    ) => {
+        const graded = cards.map((card, index) => ({
+            card,
+            grade: (correctness[index] !== true ? 'again' : hintsUsed[index] > 0 ? 'hard' : 'good') as ReviewGrade,
+        }));
+        recordReviews(graded.map(item => ({ cardId: item.card.id, grade: item.grade })));
+        setOutcome(graded);
+    };
+
+    if (cards.length === 0) {
+        return (
+            <div className="max-w-2xl mx-auto text-center bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg mt-4 transition-colors duration-300">
+                <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-white mb-2">오늘 복습할 문제가 없어요</h2>
+                <p className="text-slate-600 dark:text-slate-300 mb-4 text-sm">틀린 문제는 다음 날부터 이곳에 다시 나타나요.</p>
+                <Button onClick={onGoHome} className="w-full sm:w-auto !py-2.5">처음으로</Button>
+            </div>
+        );
+    }
+
+    if (outcome) {
+        const rightCount = outcome.filter(item => item.grade !== 'again').length;
+        const cardById = new Map(queue.map(card => [card.id, card]));
+        return (
+            <div className="max-w-2xl mx-auto bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg mt-4 transition-colors duration-300">
+                <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-white mb-1 text-center">오늘의 복습 완료!</h2>
+                <p className="text-slate-600 dark:text-slate-300 mb-4 text-sm text-center">
+                    {outcome.length}문제 중 <span className="font-bold text-neon-blue">{rightCount}</span>문제를 이번에는 맞혔어요.
+                </p>
+                <ul className="space-y-2 mb-4">
+                    {outcome.map(({ card, grade }) => {
+                        const updated = cardById.get(card.id);
+                        return (
+                            <li key={card.id} className="flex items-start gap-2 text-xs p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                                <span className="shrink-0">{grade === 'again' ? '❌' : grade === 'hard' ? '🔸' : '✅'}</span>
+                                <span className="flex-1 min-w-0 text-slate-700 dark:text-slate-300">
+                                    <span className="font-bold text-neon-blue mr-1">{card.standardId}</span>
+                                    <span className="block truncate">{card.question.question}</span>
+                                </span>
+                                <span className="shrink-0 font-semibold text-slate-500 dark:text-slate-400">
+                                    {!updated ? '' : updated.retiredAt ? '🎓 복습 끝' : `다음 복습 ${describeDue(daysUntil(updated.due))}`}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-4 text-center">
+                    ✅ 바로 맞힘 · 🔸 힌트를 보고 맞힘 · ❌ 다시 틀림 (내일 다시 나와요)
+                </p>
+                <div className="text-center">
+                    <Button onClick={onGoHome} className="w-full sm:w-auto !py-2.5">완료</Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <div className="max-w-4xl mx-auto mb-2 flex justify-between items-center gap-2">
+                <div className="min-w-0">
+                    <p className="text-xs font-semibold text-slate-500 dark:text-slate-400">🔁 오늘의 복습</p>
+                    <h1 className="text-lg font-bold text-slate-900 dark:text-white">예전에 틀렸던 문제 {cards.length}개</h1>
+                </div>
+                <Button variant="secondary" onClick={onGoHome} className="!py-1.5 !px-3 text-xs shrink-0">나중에 하기</Button>
+            </div>
+            <Quiz
+                questions={cards.map(card => card.question)}
+                subjectName={cards[0].subjectName}
+                standardDescription="오늘의 복습 (예전에 틀렸던 문제)"
+                onSubmit={handleQuizSubmit}
+                questionContexts={cards.map(card => ({ subjectName: card.subjectName, standardDescription: card.standardDescription }))}
+            />
+        </>
+    );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import type { AiSettings, AiProviderId, AiModelSettings, LearnerProfile, SchoolLevel, LearnerLevel, ExplanationStyle } from '../types.ts';
+import { AI_PROVIDER_OPTIONS, DEFAULT_LEARNER_PROFILE, SCHOOL_LEVEL_LABELS, LEARNER_LEVEL_OPTIONS, EXPLANATION_STYLE_OPTIONS } from '../constants.ts';
+import { LEARNER_PROFILE_STORAGE_KEY } from '../services/learnerProfile.ts';
+import useLocalStorage from '../hooks/useLocalStorage.ts';
+import { Button } from './common/Button.tsx';
+import { ContentCacheManager } from './ContentCacheManager.tsx';
+
+interface SettingsModalProps {
+    aiSettings: AiSettings;
+    onSaveAiSettings: (settings: AiSettings) => void;
+    onClose: () => void;
+}
+
+const inputClasses = "w-full bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none placeholder:text-slate-400 dark:placeholder:text-slate-500";
+
+const Field: React.FC<{ id: string; label: string; hint?: string; children: React.ReactNode }> = ({ id, label, hint, children }) => (
+    <div>
+        <label htmlFor={id} className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">{label}</label>
+        {children}
+        {hint && <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5 leading-snug">{hint}</p>}
+    </div>
+);
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ aiSettings, onSaveAiSettings, onClose }) => {
+    const [draft, setDraft] = useState<AiSettings>(aiSettings);
+    const [learnerProfile, setLearnerProfile] = useLocalStorage<LearnerProfile>(LEARNER_PROFILE_STORAGE_KEY, DEFAULT_LEARNER_PROFILE);
+    const [profileDraft, setProfileDraft] = useState<LearnerProfile>({ ...DEFAULT_LEARNER_PROFILE, ...learnerProfile });
+
+    const handleProfileChange = <K extends keyof LearnerProfile>(field: K, value: LearnerProfile[K]) => {
+        setProfileDraft(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleProviderChange = (provider: AiProviderId) => {
+        setDraft(prev => ({ ...prev, provider }));
+    };
+
+    const handleGeminiModelChange = (field: keyof AiModelSettings, value: string) => {
+        setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, [field]: value } }));
+    };
+
+    const handleOpenAiChange = (field: keyof AiSettings['openAiCompatible'], value: string) => {
+        setDraft(prev => ({ ...prev, openAiCompatible: { ...prev.openAiCompatible, [field]: value } }));
+    };
+
+    const handleSave = () => {
+        setLearnerProfile(profileDraft);
+        onSaveAiSettings(draft);
+        onClose();
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="settings-title"
+        >
+            <div
+                className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl p-4 sm:p-6 max-w-xl w-full max-h-[85vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-3">
+                    <h2 id="settings-title" className="text-lg font-bold text-slate-800 dark:text-slate-100">⚙️ 설정</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 -mr-2 text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 transition-colors rounded-full hover:bg-slate-100 dark:hover:bg-slate-700"
+                        aria-label="설정 닫기"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                    </button>
+                </div>
+
+                <section className="space-y-2 mb-5">
+                    <h3 className="text-sm font-bold text-neon-blue">학습자 정보</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 leading-snug">개념 설명, 질문 답변, 문제 출제, 채점, 학습 진단의 말투와 깊이가 이 정보에 맞춰집니다.</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        <Field id="learner-school-level" label="학교">
+                            <select id="learner-school-level" className={inputClasses} value={profileDraft.schoolLevel} onChange={e => handleProfileChange('schoolLevel', e.target.value as SchoolLevel)}>
+                                {(Object.keys(SCHOOL_LEVEL_LABELS) as SchoolLevel[]).map(level => (
+                                    <option key={level} value={level}>{SCHOOL_LEVEL_LABELS[level]}</option>
+                                ))}
+                            </select>
+                        </Field>
+                        <Field id="learner-grade" label="학년">
+                            <select id="learner-grade" className={inputClasses} value={profileDraft.grade} onChange={e => handleProfileChange('grade', Number(e.target.value))}>
+                                {[1, 2, 3].map(grade => <option key={grade} value={grade}>{grade}학년</option>)}
+                            </select>
+                        </Field>
+                    </div>
+                    <Field id="learner-level" label="스스로 생각하는 수준">
+                        <select id="learner-level" className={inputClasses} value={profileDraft.selfRatedLevel} onChange={e => handleProfileChange('selfRatedLevel', e.target.value as LearnerLevel)}>
+                            {LEARNER_LEVEL_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                        </select>
+                    </Field>
+                    <Field id="learner-style" label="선호하는 설명 방식">
+                        <select id="learner-style" className={inputClasses} value={profileDraft.explanationStyle} onChange={e => handleProfileChange('explanationStyle', e.target.value as ExplanationStyle)}>
+                            {EXPLANATION_STYLE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                        </select>
+                    </Field>
+                </section>
+
+                <section className="space-y-3">
+                    <h3 className="text-sm font-bold text-neon-blue">AI 제공자</h3>
+                    <div className="space-y-2">
+                        {AI_PROVIDER_OPTIONS.map(option => (
+                            <label
+                                key={option.id}
+                                className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer transition-colors ${draft.provider === option.id ? 'border-neon-blue bg-neon-blue/10' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+                            >
+                                <input
+                                    type="radio"
+                                    name="ai-provider"
+                                    value={option.id}
+                                    checked={draft.provider === option.id}
+                                    onChange={() => handleProviderChange(option.id)}
+                                    className="mt-1"
+                                />
+                                <span>
+                                    <span className="block text-sm font-semibold text-slate-800 dark:text-slate-100">{option.name}</span>
+                                    <span className="block text-xs text-slate-500 dark:text-slate-400 leading-snug">{option.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+
+                    {draft.provider === 'gemini' ? (
+                        <div className="space-y-2 p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <p className="text-xs text-slate-600 dark:text-slate-300">API 키는 첫 화면의 입력란에서 설정합니다.</p>
+                            <Field id="gemini-text-model" label="텍스트 모델">
+                                <input id="gemini-text-model" className={inputClasses} value={draft.gemini.textModel} onChange={e => handleGeminiModelChange('textModel', e.target.value)} />
+                            </Field>
+                            <Field id="gemini-image-model" label="이미지 모델" hint="비워 두면 이미지 생성을 사용하지 않습니다.">
+                                <input id="gemini-image-model" className={inputClasses} value={draft.gemini.imageModel} onChange={e => handleGeminiModelChange('imageModel', e.target.value)} />
+                            </Field>
+                            <Field id="gemini-speech-model" label="음성(TTS) 모델" hint="비워 두면 듣기 기능을 사용하지 않습니다.">
+                                <input id="gemini-speech-model" className={inputClasses} value={draft.gemini.speechModel} onChange={e => handleGeminiModelChange('speechModel', e.target.value)} />
+                            </Field>
+                        </div>
+                    ) : draft.provider === 'mock' ? (
+                        <div className="p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <p className="text-xs text-slate-600 dark:text-slate-300 leading-snug">
+                                앱에 포함된 예시 콘텐츠(설명, 요약, 문제, 채점 결과)를 그대로 보여줍니다. 인터넷 연결이나 API 키 없이 수업 시연과 기능 점검에 사용할 수 있으며, 이미지는 생성되지 않고 음성은 무음으로 재생됩니다.
+                            </p>
+                        </div>
+                    ) : (
+                        <div className="space-y-2 p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <Field id="openai-base-url" label="서버 주소 (Base URL)" hint="예: http://192.168.0.10:11434/v1 (Ollama), http://server:8000/v1 (vLLM)">
+                                <input id="openai-base-url" className={inputClasses} value={draft.openAiCompatible.baseUrl} onChange={e => handleOpenAiChange('baseUrl', e.target.value)} placeholder="http://localhost:11434/v1" />
+                            </Field>
+                            <Field id="openai-api-key" label="API 키 (선택)">
+                                <input id="openai-api-key" type="password" autoComplete="off" className={inputClasses} value={draft.openAiCompatible.apiKey} onChange={e => handleOpenAiChange('apiKey', e.target.value)} placeholder="서버에서 키를 요구하는 경우에만 입력" />
+                            </Field>
+                            <Field id="openai-text-model" label="텍스트 모델">
+                                <input id="openai-text-model" className={inputClasses} value={draft.openAiCompatible.textModel} onChange={e => handleOpenAiChange('textModel', e.target.value)} />
+                            </Field>
+                            <Field id="openai-image-model" label="이미지 모델 (선택)" hint="비워 두면 이미지 생성을 사용하지 않습니다.">
+                                <input id="openai-image-model" className={inputClasses} value={draft.openAiCompatible.imageModel} onChange={e => handleOpenAiChange('imageModel', e.target.value)} />
+                            </Field>
+                            <Field id="openai-speech-model" label="음성(TTS) 모델 (선택)" hint="비워 두면 듣기 기능을 사용하지 않습니다.">
+                                <input id="openai-speech-model" className={inputClasses} value={draft.openAiCompatible.speechModel} onChange={e => handleOpenAiChange('speechModel', e.target.value)} />
+                            </Field>
+                        </div>
+                    )}
+                </section>
+
+                <ContentCacheManager />
+
+                <div className="mt-4 flex justify-end gap-2">
+                    <Button variant="secondary" onClick={onClose} className="!py-2 text-sm">취소</Button>
+                    <Button onClick={handleSave} className="!py-2 text-sm">저장 및 연결</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
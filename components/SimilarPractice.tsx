@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { streamSimilarQuestions, classifyMisconceptions, preprocessLaTeX } from '../services/geminiService.ts';
+import { needsMisconceptionTagging } from '../services/studyHistory.ts';
+import { addMissedQuestions } from '../services/reviewQueue.ts';
+import { isAbortError } from '../services/aiProvider.ts';
+import type { QuizQuestion, QuizResult } from '../types.ts';
+import { SIMILAR_QUESTION_COUNT_OPTIONS, DEFAULT_SIMILAR_QUESTION_COUNT } from '../constants.ts';
+import { Button } from './common/Button.tsx';
+import { Spinner } from './common/Spinner.tsx';
+import { Quiz } from './Quiz.tsx';
+import { QuestionFigures, figureMarkdownComponents } from './MarkdownFigures.tsx';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface SimilarPracticeProps {
+    question: QuizQuestion;
+    // Where the missed question came from; saved on the practice result
+    originResultId: string;
+    questionIndex: number;
+    studentAnswer: string | null;
+    subjectName: string;
+    standardId: string;
+    standardDescription: string;
+    // Called again with the same id once the result's wrong answers are classified
+    onSaveResult: (result: QuizResult) => void;
+    onClose: () => void;
+}
+
+// Full-screen mini-quiz of variants of one missed question. The result is saved as a
+// separate quiz in the study history, linked back to the original question.
+export const SimilarPractice: React.FC<SimilarPracticeProps> = ({
+    question,
+    originResultId,
+    questionIndex,
+    studentAnswer,
+    subjectName,
+    standardId,
+    standardDescription,
+    onSaveResult,
+    onClose,
+}) => {
+    const [count, setCount] = useState(DEFAULT_SIMILAR_QUESTION_COUNT);
+    const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+    const [isReceiving, setIsReceiving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<QuizResult | null>(null);
+    // Remounts the Quiz for each new set of questions
+    const [attempt, setAttempt] = useState(0);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleStart = async () => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setQuestions(null);
+        setResult(null);
+        setError(null);
+        setIsReceiving(true);
+        setAttempt(prev => prev + 1);
+        try {
+            let receivedCount = 0;
+            await streamSimilarQuestions(subjectName, standardDescription, question, studentAnswer, count, {
+                onQuestion: generated => {
+                    receivedCount++;
+                    setQuestions(prev => [...(prev || []), generated]);
+                },
+                onUpdate: (index, generated) => setQuestions(prev => prev && prev.map((q, i) => (i === index ? generated : q))),
+                onQuestionsComplete: () => setIsReceiving(false),
+            }, controller.signal);
+            if (receivedCount === 0) {
+                throw new Error("비슷한 문제를 만들지 못했습니다. 다시 시도해주세요.");
+            }
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setError(err instanceof Error ? err.message : '비슷한 문제를 만드는 데 실패했습니다.');
+        } finally {
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setIsReceiving(false);
+            }
+        }
+    };
+
+    const handleSubmit = (
+        score: number,
+        correctAnswers: number,
+        totalQuestions: number,
+        userAnswers: (string | null)[],
+        correctness: (boolean | null)[],
+        hintsUsed: number[]
+    ) => {
+        const practiceResult: QuizResult = {
+            id: new Date().toISOString(),
+            date: new Date().toISOString(),
+            standardId,
+            standardDescription,
+            subject: subjectName,
+            score,
+            totalQuestions,
+            correctAnswers,
+            questions: questions || undefined,
+            userAnswers,
+            correctness,
+            hintsUsed,
+            practiceOf: { resultId: originResultId, questionIndex, question: question.question },
+        };
+        onSaveResult(practiceResult);
+        addMissedQuestions(practiceResult);
+        setResult(practiceResult);
+        if (needsMisconceptionTagging(practiceResult)) {
+            classifyMisconceptions(practiceResult)
+                .then(misconceptions => onSaveResult({ ...practiceResult, misconceptions }))
+                .catch(error => console.warn("Misconception tagging failed:", error));
+        }
+    };
+
+    // Back to the count choice; a new set of questions is generated from there
+    const handleRetry = () => {
+        setResult(null);
+        setQuestions(null);
+        setError(null);
+    };
+
+    const handleClose = () => {
+        abortRef.current?.abort();
+        onClose();
+    };
+
+    const hasQuestions = !!questions && questions.length > 0;
+
+    return (
+        <div className="fixed inset-0 z-[70] overflow-y-auto bg-slate-100 dark:bg-slate-900">
+            <div className="max-w-3xl mx-auto p-3 sm:p-6">
+                <div className="flex justify-between items-center mb-3">
+                    <h2 className="text-lg font-bold text-slate-800 dark:text-white">🔁 비슷한 문제 연습</h2>
+                    <button onClick={handleClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500" aria-label="닫기">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                    </button>
+                </div>
+
+                <details className="mb-4 px-3 py-2 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm" open={!hasQuestions}>
+                    <summary className="cursor-pointer text-xs font-semibold text-slate-500 dark:text-slate-400">틀린 원래 문제</summary>
+                    <div className="mt-2 prose prose-sm dark:prose-invert max-w-none text-slate-800 dark:text-slate-100">
+                        <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]} components={figureMarkdownComponents}>
+                            {preprocessLaTeX(question.question)}
+                        </ReactMarkdown>
+                        <QuestionFigures question={question} />
+                    </div>
+                </details>
+
+                {result ? (
+                    <div className="text-center bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg">
+                        <p className="text-base text-slate-700 dark:text-slate-200">
+                            {result.totalQuestions}문제 중 <span className="font-bold text-neon-blue">{result.correctAnswers}</span>문제를 맞혔어요.
+                        </p>
+                        <p className="text-3xl font-extrabold text-neon-blue my-2">{result.score.toFixed(0)}점</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">결과는 원래 문제와 함께 학습 기록에 저장되었습니다.</p>
+                        <div className="flex justify-center gap-2">
+                            <Button variant="secondary" onClick={handleRetry} className="!py-2 text-sm">다른 문제로 다시 풀기</Button>
+                            <Button onClick={handleClose} className="!py-2 text-sm">돌아가기</Button>
+                        </div>
+                    </div>
+                ) : hasQuestions ? (
+                    <>
+                        {error && (
+                            <p className="mb-2 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-xs text-red-600 dark:text-red-300">
+                                {error} (도착한 {questions.length}문제로 계속 풀 수 있어요.)
+                            </p>
+                        )}
+                        <Quiz
+                            key={attempt}
+                            questions={questions}
+                            subjectName={subjectName}
+                            standardDescription={standardDescription}
+                            onSubmit={handleSubmit}
+                            pendingQuestionCount={isReceiving ? Math.max(count - questions.length, 1) : 0}
+                        />
+                    </>
+                ) : isReceiving ? (
+                    <div className="py-10">
+                        <Spinner text="같은 개념의 문제를 숫자와 상황을 바꿔 만드는 중..." />
+                    </div>
+                ) : (
+                    <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-xl shadow-lg">
+                        <p className="text-sm text-slate-600 dark:text-slate-300 mb-3">
+                            같은 개념을 묻는 문제를 숫자와 상황만 바꿔서 만들어 드려요. 몇 문제 풀어볼까요?
+                        </p>
+                        <div className="flex gap-2 mb-4">
+                            {SIMILAR_QUESTION_COUNT_OPTIONS.map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setCount(option)}
+                                    className={`flex-1 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                                        count === option
+                                            ? 'bg-neon-blue/20 border-neon-blue text-neon-blue ring-1 ring-neon-blue'
+                                            : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-300'
+                                    }`}
+                                >
+                                    {option}문제
+                                </button>
+                            ))}
+                        </div>
+                        {error && <p className="text-red-500 text-xs mb-2">{error}</p>}
+                        <Button onClick={handleStart} className="w-full">문제 만들기</Button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
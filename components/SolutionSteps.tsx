@@ -0,0 +1,204 @@
+import React, { useState, useRef, useEffect } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import type { QuizQuestion, ConversationMessage } from '../types.ts';
+import { getSolutionStepAnswerStream, preprocessLaTeX } from '../services/geminiService.ts';
+import { isAbortError } from '../services/aiProvider.ts';
+
+const STEP_WHY_QUESTION = '이 단계가 왜 이렇게 되는지 설명해 주세요.';
+
+interface StepChatProps {
+    question: QuizQuestion;
+    stepIndex: number;
+    subjectName: string;
+    standardDescription: string;
+    onClose: () => void;
+}
+
+// Follow-up chat scoped to a single solution step.
+const StepChat: React.FC<StepChatProps> = ({ question, stepIndex, subjectName, standardDescription, onClose }) => {
+    const [conversation, setConversation] = useState<ConversationMessage[]>([]);
+    const [userQuestion, setUserQuestion] = useState('');
+    const [isAnswering, setIsAnswering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const ask = async (text: string) => {
+        if (!text.trim() || isAnswering) return;
+
+        const newQuestion: ConversationMessage = { role: 'user', text };
+        const history = conversation;
+        setIsAnswering(true);
+        setError(null);
+        setConversation(prev => [...prev, newQuestion, { role: 'model', text: '' }]);
+        setUserQuestion('');
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        try {
+            const stream = await getSolutionStepAnswerStream(subjectName, standardDescription, question, stepIndex, history, text, controller.signal);
+            for await (const chunk of stream) {
+                if (controller.signal.aborted) break;
+                setConversation(prev => {
+                    const next = [...prev];
+                    const lastMessage = next[next.length - 1];
+                    next[next.length - 1] = { ...lastMessage, text: lastMessage.text + chunk.text };
+                    return next;
+                });
+            }
+        } catch (err) {
+            if (isAbortError(err)) {
+                // Keep a partial answer; drop the exchange if nothing arrived before stopping
+                setConversation(prev => {
+                    const lastMessage = prev[prev.length - 1];
+                    return lastMessage?.role === 'model' && !lastMessage.text ? prev.slice(0, -2) : prev;
+                });
+            } else {
+                setError(err instanceof Error ? err.message : '질문에 답변하는 중 오류가 발생했습니다.');
+                setConversation(prev => prev.slice(0, -2));
+            }
+        } finally {
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+            }
+            setIsAnswering(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        ask(userQuestion);
+    };
+
+    return (
+        <div className="mt-2 p-2.5 rounded-lg border border-indigo-200 dark:border-indigo-800 bg-indigo-50/60 dark:bg-indigo-900/20">
+            <div className="flex justify-between items-center mb-2">
+                <p className="text-xs font-bold text-indigo-700 dark:text-indigo-300">🤔 {stepIndex + 1}단계 질문하기</p>
+                <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">닫기</button>
+            </div>
+
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+                {conversation.map((msg, index) => (
+                    <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[90%] px-2.5 py-1.5 rounded-lg text-sm ${msg.role === 'user' ? 'bg-neon-blue text-white' : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-600'}`}>
+                            <div className="prose prose-sm dark:prose-invert max-w-none">
+                                <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]}>
+                                    {preprocessLaTeX(msg.text + (msg.role === 'model' && isAnswering && index === conversation.length - 1 ? '▍' : ''))}
+                                </ReactMarkdown>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {conversation.length === 0 && (
+                <button
+                    onClick={() => ask(STEP_WHY_QUESTION)}
+                    className="mb-2 px-2.5 py-1 rounded-full border border-indigo-300 dark:border-indigo-700 bg-white dark:bg-slate-800 text-xs text-indigo-700 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                >
+                    {STEP_WHY_QUESTION}
+                </button>
+            )}
+            {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+
+            <form onSubmit={handleSubmit} className="flex gap-1.5 mt-2">
+                <input
+                    type="text"
+                    value={userQuestion}
+                    onChange={(e) => setUserQuestion(e.target.value)}
+                    placeholder="이 단계에서 궁금한 점을 입력하세요..."
+                    disabled={isAnswering}
+                    className="flex-1 min-w-0 px-2.5 py-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-md text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue"
+                />
+                {isAnswering ? (
+                    <button type="button" onClick={() => abortRef.current?.abort()} className="px-3 py-1.5 rounded-md bg-slate-200 dark:bg-slate-600 text-xs font-bold text-slate-700 dark:text-slate-200">
+                        답변 중지
+                    </button>
+                ) : (
+                    <button type="submit" disabled={!userQuestion.trim()} className="px-3 py-1.5 rounded-md bg-neon-blue text-white text-xs font-bold disabled:opacity-50">
+                        질문
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+};
+
+interface SolutionStepsProps {
+    question: QuizQuestion;
+    subjectName: string;
+    standardDescription: string;
+}
+
+// Worked solution revealed one step at a time; every revealed step can be questioned with "왜?".
+export const SolutionSteps: React.FC<SolutionStepsProps> = ({ question, subjectName, standardDescription }) => {
+    const steps = question.solutionSteps || [];
+    const [revealedCount, setRevealedCount] = useState(1);
+    const [chatStepIndex, setChatStepIndex] = useState<number | null>(null);
+
+    if (steps.length === 0) return null;
+
+    return (
+        <div className="space-y-2">
+            <ol className="space-y-2">
+                {steps.slice(0, revealedCount).map((step, index) => (
+                    <li key={index} className="p-2 rounded bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-sm">
+                        <div className="flex items-start gap-2">
+                            <span className="flex-shrink-0 w-5 h-5 mt-0.5 rounded-full bg-neon-blue text-white text-[11px] font-bold flex items-center justify-center">{index + 1}</span>
+                            <div className="flex-1 min-w-0">
+                                {step.latex && (
+                                    <div className="overflow-x-auto text-slate-800 dark:text-slate-100">
+                                        <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]}>
+                                            {`$$\n${step.latex}\n$$`}
+                                        </ReactMarkdown>
+                                    </div>
+                                )}
+                                <div className="text-xs text-slate-600 dark:text-slate-400">
+                                    <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'html' }]]}>
+                                        {preprocessLaTeX(step.justification)}
+                                    </ReactMarkdown>
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => setChatStepIndex(chatStepIndex === index ? null : index)}
+                                className={`flex-shrink-0 px-2 py-0.5 rounded text-xs font-bold border transition-colors ${chatStepIndex === index ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-indigo-300 dark:border-indigo-700 text-indigo-600 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30'}`}
+                            >
+                                왜?
+                            </button>
+                        </div>
+                        {chatStepIndex === index && (
+                            <StepChat
+                                question={question}
+                                stepIndex={index}
+                                subjectName={subjectName}
+                                standardDescription={standardDescription}
+                                onClose={() => setChatStepIndex(null)}
+                            />
+                        )}
+                    </li>
+                ))}
+            </ol>
+            {revealedCount < steps.length && (
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setRevealedCount(count => count + 1)}
+                        className="px-3 py-1.5 rounded-md bg-neon-blue text-white text-xs font-bold hover:opacity-90"
+                    >
+                        다음 단계 보기 ({revealedCount}/{steps.length})
+                    </button>
+                    <button
+                        onClick={() => setRevealedCount(steps.length)}
+                        className="px-3 py-1.5 rounded-md border border-slate-300 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+                    >
+                        모두 보기
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
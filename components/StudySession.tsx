@@ -1,12 +1,22 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { getExplanationStream, generateQuestions, generateSpeech, QuestionRequest, getFollowUpAnswerStream, generateIllustration, generateConceptSummary, preprocessLaTeX } from '../services/geminiService.ts';
-import type { AchievementStandard, QuizQuestion, QuizResult, TTSVoice, QuestionType, ConversationMessage } from '../types.ts';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { getExplanationStream, streamQuestions, generateSpeech, QuestionRequest, getFollowUpAnswerStream, updateConversationMemory, EMPTY_CONVERSATION_MEMORY, parseSocraticReply, generateSessionSummary, generateIllustration, generateConceptSummary, classifyMisconceptions, preprocessLaTeX, getActiveModelNames } from '../services/geminiService.ts';
+import { upsertStudyResult, needsMisconceptionTagging } from '../services/studyHistory.ts';
+import { getPrerequisiteGraph, findWeakPrerequisites } from '../services/prerequisites.ts';
+import { addMissedQuestions } from '../services/reviewQueue.ts';
+import { getCachedContent, putCachedContent } from '../services/contentCache.ts';
+import { isAbortError } from '../services/aiProvider.ts';
+import { getLearnerProfile, learnerProfileTag } from '../services/learnerProfile.ts';
+import type { AchievementStandard, QuizQuestion, QuizResult, TTSVoice, QuestionType, ConversationMessage, ContentCacheDescriptor, ContentCacheKind, QuizValidationReport, TutoringMode, StuckPoint, ConversationMemory, ExamSettings, ExamRecord, WeakPrerequisite } from '../types.ts';
 import useLocalStorage from '../hooks/useLocalStorage.ts';
 import { Button } from './common/Button.tsx';
 import { Spinner } from './common/Spinner.tsx';
 import { Quiz } from './Quiz.tsx';
-import { AVAILABLE_VOICES } from '../constants.ts';
+import { figureMarkdownComponents } from './MarkdownFigures.tsx';
+import { SimilarPractice } from './SimilarPractice.tsx';
+import { ExamSettingsPicker, ExamResultSummary } from './ExamMode.tsx';
+import { WeakPrerequisiteList } from './PrerequisiteGraph.tsx';
+import { AVAILABLE_VOICES, TUTORING_MODE_OPTIONS, DEFAULT_TUTORING_MODE, SOCRATIC_ATTEMPTS_BEFORE_ANSWER, WEAK_STANDARD_SCORE } from '../constants.ts';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -52,6 +62,13 @@ const StopIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     </svg>
 );
 
+const RefreshIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M21 12a9 9 0 1 1-3-6.7L21 8"></path>
+        <polyline points="21 3 21 8 16 8"></polyline>
+    </svg>
+);
+
 const SparklesIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
         <path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L12 3Z" />
@@ -63,6 +80,8 @@ interface StudySessionProps {
     standard: AchievementStandard;
     onSessionEnd: () => void;
     onGoHome: () => void;
+    // Opens another standard, e.g. a weak prerequisite after a low score
+    onStudyStandard?: (subjectName: string, standard: AchievementStandard) => void;
 }
 
 const defaultQuestionCounts: { [key in QuestionType]: number } = {
@@ -72,7 +91,7 @@ const defaultQuestionCounts: { [key in QuestionType]: number } = {
     'creativity': 0, 
 };
 
-export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standard, onSessionEnd, onGoHome }) => {
+export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standard, onSessionEnd, onGoHome, onStudyStandard }) => {
     const [explanation, setExplanation] = useState<string>('');
     const [isLoadingExplanation, setIsLoadingExplanation] = useState<boolean>(true);
     const [isStreamingExplanation, setIsStreamingExplanation] = useState<boolean>(false);
@@ -84,14 +103,32 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
     // Summary State
     const [summary, setSummary] = useState<string | null>(null);
     const [isLoadingSummary, setIsLoadingSummary] = useState<boolean>(false);
+
+    // Content Cache State: bumping regenerateCount reruns the fetch effect while bypassing the cache
+    const [regenerateCount, setRegenerateCount] = useState(0);
+    const bypassCacheRef = useRef(false);
+    const [isExplanationFromCache, setIsExplanationFromCache] = useState(false);
+
+    // Stopping the explanation keeps what has arrived so far but does not cache it
+    const explanationAbortRef = useRef<AbortController | null>(null);
+    const [isExplanationStopped, setIsExplanationStopped] = useState(false);
     
     const [questionCounts, setQuestionCounts] = useState<{ [key in QuestionType]: number }>(defaultQuestionCounts);
     
     // New Difficulty State (Points state removed)
     const [difficulty, setDifficulty] = useState<'상' | '중' | '하'>('중');
+    const [examSettings, setExamSettings] = useState<ExamSettings | null>(null);
 
     const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+    const [validationReport, setValidationReport] = useState<QuizValidationReport | null>(null);
     const [isGeneratingQuestions, setIsGeneratingQuestions] = useState<boolean>(false);
+    const quizAbortRef = useRef<AbortController | null>(null);
+    // Streamed generation: the quiz opens with the first question while the rest keep arriving
+    const [expectedQuestionCount, setExpectedQuestionCount] = useState(0);
+    const [isReceivingQuestions, setIsReceivingQuestions] = useState(false);
+    // Result id of the quiz in progress, fixed up front so practice results can link to it
+    const quizIdRef = useRef('');
+    const [practiceTarget, setPracticeTarget] = useState<{ questionIndex: number; studentAnswer: string | null } | null>(null);
     
     const [explanationError, setExplanationError] = useState<string | null>(null);
     const [questionsError, setQuestionsError] = useState<string | null>(null);
@@ -100,6 +137,10 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
     const [studyHistory, setStudyHistory] = useLocalStorage<QuizResult[]>('studyHistory', []);
     const [quizFinished, setQuizFinished] = useState(false);
     const [lastResult, setLastResult] = useState<QuizResult | null>(null);
+    const weakPrerequisites = useMemo<WeakPrerequisite[]>(
+        () => lastResult && lastResult.score < WEAK_STANDARD_SCORE ? findWeakPrerequisites(getPrerequisiteGraph(), standard.id, studyHistory) : [],
+        [lastResult, studyHistory, standard.id]
+    );
 
     // TTS State
     const [selectedVoice, setSelectedVoice] = useState<TTSVoice>('Kore');
@@ -107,18 +148,34 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
     const [isLoadingTTS, setIsLoadingTTS] = useState(false);
     const audioContextRef = useRef<AudioContext | null>(null);
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const speechAbortRef = useRef<AbortController | null>(null);
 
     // Q&A State
     const [conversation, setConversation] = useState<ConversationMessage[]>([]);
     const [userQuestion, setUserQuestion] = useState<string>('');
     const [isAnswering, setIsAnswering] = useState<boolean>(false);
     const [qnaError, setQnaError] = useState<string | null>(null);
+    const answerAbortRef = useRef<AbortController | null>(null);
     const conversationEndRef = useRef<HTMLDivElement>(null);
+    const [conversationMemory, setConversationMemory] = useState<ConversationMemory>(EMPTY_CONVERSATION_MEMORY);
+
+    // Socratic Tutoring State: an exchange runs from the student's question until the tutor marks it resolved
+    const [tutoringMode, setTutoringMode] = useLocalStorage<TutoringMode>('tutoring_mode', DEFAULT_TUTORING_MODE);
+    const [socraticExchange, setSocraticExchange] = useState<{ question: string; attempts: number } | null>(null);
+    const [stuckPoints, setStuckPoints] = useState<StuckPoint[]>([]);
+
+    // Session Summary State
+    const [sessionSummary, setSessionSummary] = useState<string | null>(null);
+    const [isLoadingSessionSummary, setIsLoadingSessionSummary] = useState(false);
+    const [sessionSummaryError, setSessionSummaryError] = useState<string | null>(null);
+    const sessionSummaryAbortRef = useRef<AbortController | null>(null);
 
     // Math Input State
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     
     const stopAllAudio = useCallback(() => {
+        speechAbortRef.current?.abort();
+        speechAbortRef.current = null;
         if (audioSourceRef.current) {
             try {
                 audioSourceRef.current.onended = null;
@@ -138,7 +195,37 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
     }, []);
 
     useEffect(() => {
-        let isCancelled = false;
+        // Aborted on unmount or when the standard changes, cancelling every request started here.
+        const controller = new AbortController();
+        const { signal } = controller;
+        const explanationController = new AbortController();
+        explanationAbortRef.current = explanationController;
+        const bypassCache = bypassCacheRef.current;
+        bypassCacheRef.current = false;
+
+        const models = getActiveModelNames();
+        const audience = learnerProfileTag(getLearnerProfile());
+        const cacheDescriptor = (kind: ContentCacheKind): ContentCacheDescriptor => ({
+            kind,
+            subjectName,
+            standardId: standard.id,
+            standardDescription: standard.description,
+            model: kind === 'illustration' ? models.image : models.text,
+            audience,
+        });
+
+        // Serves content from the cache when possible, otherwise generates and stores it.
+        const loadCached = async (kind: ContentCacheKind, generate: () => Promise<string | null>): Promise<string | null> => {
+            if (!bypassCache) {
+                const cached = await getCachedContent(cacheDescriptor(kind));
+                if (cached) return cached;
+            }
+            const value = await generate();
+            if (value && !signal.aborted) {
+                putCachedContent(cacheDescriptor(kind), value);
+            }
+            return value;
+        };
 
         const fetchExplanation = async () => {
             setIsLoadingExplanation(true);
@@ -146,25 +233,44 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             setExplanation('');
             explanationRef.current = '';
             setExplanationError(null);
+            setIsExplanationFromCache(false);
+            setIsExplanationStopped(false);
             try {
-                const stream = await getExplanationStream(subjectName, standard.description);
-                if (isCancelled) return;
+                if (!bypassCache) {
+                    const cached = await getCachedContent(cacheDescriptor('explanation'));
+                    if (signal.aborted) return;
+                    if (cached) {
+                        explanationRef.current = cached;
+                        setExplanation(cached);
+                        setIsExplanationFromCache(true);
+                        setIsLoadingExplanation(false);
+                        return;
+                    }
+                }
+
+                const stream = await getExplanationStream(subjectName, standard.description, explanationController.signal);
+                if (signal.aborted) return;
                 
                 setIsLoadingExplanation(false); 
                 let currentText = '';
                 for await (const chunk of stream) {
-                    if (isCancelled) break;
+                    if (explanationController.signal.aborted) break;
                     currentText += chunk.text;
                     explanationRef.current = currentText;
                     setExplanation(currentText);
                 }
+                if (!explanationController.signal.aborted && currentText) {
+                    putCachedContent(cacheDescriptor('explanation'), currentText);
+                }
             } catch (err) {
-                if (!isCancelled) {
+                if (signal.aborted) return;
+                // A stop by the student is not an error; whatever arrived stays on screen.
+                if (!isAbortError(err)) {
                     setExplanationError(err instanceof Error ? err.message : '설명을 불러오는 데 실패했습니다.');
-                    setIsLoadingExplanation(false);
                 }
+                setIsLoadingExplanation(false);
             } finally {
-                if (!isCancelled) {
+                if (!signal.aborted) {
                     setIsStreamingExplanation(false);
                 }
             }
@@ -175,14 +281,14 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             setIllustration(null);
             try {
                 // Use standard description directly for parallel generation
-                const imageBase64 = await generateIllustration(standard.description);
-                if (!isCancelled) {
+                const imageBase64 = await loadCached('illustration', () => generateIllustration(standard.description, signal));
+                if (!signal.aborted) {
                     setIllustration(imageBase64);
                 }
             } catch (error) {
-                console.error("Illustration generation error:", error);
+                if (!isAbortError(error)) console.error("Illustration generation error:", error);
             } finally {
-                if (!isCancelled) {
+                if (!signal.aborted) {
                     setIsLoadingIllustration(false);
                 }
             }
@@ -192,14 +298,14 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
              setIsLoadingSummary(true);
              setSummary(null);
              try {
-                 const result = await generateConceptSummary(subjectName, standard.description);
-                 if (!isCancelled && result) {
+                 const result = await loadCached('concept-summary', () => generateConceptSummary(subjectName, standard.description, signal));
+                 if (!signal.aborted && result) {
                      setSummary(result);
                  }
              } catch (error) {
-                 console.error(error);
+                 if (!isAbortError(error)) console.error(error);
              } finally {
-                 if (!isCancelled) {
+                 if (!signal.aborted) {
                      setIsLoadingSummary(false);
                  }
              }
@@ -211,10 +317,41 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
         fetchSummary();
 
         return () => {
-            isCancelled = true;
+            controller.abort();
+            explanationController.abort();
             stopAllAudio();
         };
-    }, [subjectName, standard.description, stopAllAudio]);
+    }, [subjectName, standard.id, standard.description, stopAllAudio, regenerateCount]);
+
+    const handleRegenerateContent = useCallback(() => {
+        bypassCacheRef.current = true;
+        answerAbortRef.current?.abort();
+        sessionSummaryAbortRef.current?.abort();
+        setConversation([]);
+        setConversationMemory(EMPTY_CONVERSATION_MEMORY);
+        setSocraticExchange(null);
+        setStuckPoints([]);
+        setSessionSummary(null);
+        setRegenerateCount(prev => prev + 1);
+    }, []);
+
+    const handleStopExplanation = useCallback(() => {
+        explanationAbortRef.current?.abort();
+        setIsExplanationStopped(true);
+    }, []);
+
+    const handleStopAnswer = useCallback(() => {
+        answerAbortRef.current?.abort();
+    }, []);
+
+    // Requests started by the Q&A and quiz buttons outlive the effect above, so cancel them on unmount.
+    useEffect(() => {
+        return () => {
+            answerAbortRef.current?.abort();
+            quizAbortRef.current?.abort();
+            sessionSummaryAbortRef.current?.abort();
+        };
+    }, []);
     
     const scrollToBottom = () => {
         conversationEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -229,34 +366,92 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
         if (!userQuestion.trim() || isAnswering) return;
 
         const newQuestion: ConversationMessage = { role: 'user', text: userQuestion };
+        const exchange = tutoringMode === 'socratic' ? (socraticExchange ?? { question: newQuestion.text, attempts: 0 }) : null;
         setIsAnswering(true);
         setQnaError(null);
+        setSessionSummary(null);
         setConversation(prev => [...prev, newQuestion, { role: 'model', text: '' }]);
         setUserQuestion('');
 
+        answerAbortRef.current?.abort();
+        const controller = new AbortController();
+        answerAbortRef.current = controller;
+
         try {
-            const stream = await getFollowUpAnswerStream(subjectName, standard.description, explanationRef.current, conversation, newQuestion.text);
+            const memory = await updateConversationMemory(conversationMemory, conversation, controller.signal);
+            setConversationMemory(memory);
+            const stream = await getFollowUpAnswerStream(
+                subjectName, standard.description, explanationRef.current, memory, conversation, newQuestion.text,
+                { mode: tutoringMode, attempt: exchange?.attempts ?? 0 },
+                controller.signal
+            );
             
+            let replyText = '';
             for await (const chunk of stream) {
-                const chunkText = chunk.text;
+                if (controller.signal.aborted) break;
+                replyText += chunk.text;
+                const displayText = exchange ? parseSocraticReply(replyText).text : replyText;
                 setConversation(prev => {
                     const newConversation = [...prev];
                     const lastMessage = newConversation[newConversation.length - 1];
                     if (lastMessage.role === 'model') {
-                        lastMessage.text += chunkText;
+                        lastMessage.text = displayText;
                     }
                     return newConversation;
                 });
             }
 
+            if (exchange && !controller.signal.aborted) {
+                const reply = parseSocraticReply(replyText);
+                if (reply.stuckNote) {
+                    setStuckPoints(prev => [...prev, { question: exchange.question, note: reply.stuckNote! }]);
+                }
+                setSocraticExchange(reply.resolved ? null : { ...exchange, attempts: exchange.attempts + 1 });
+            }
+
         } catch (err) {
-            setQnaError(err instanceof Error ? err.message : '질문에 답변하는 중 오류가 발생했습니다.');
-             setConversation(prev => prev.slice(0, -2)); // Remove user question and empty model message on error
+            if (isAbortError(err)) {
+                // Keep a partial answer; drop the exchange if nothing arrived before stopping
+                setConversation(prev => {
+                    const lastMessage = prev[prev.length - 1];
+                    return lastMessage?.role === 'model' && !lastMessage.text ? prev.slice(0, -2) : prev;
+                });
+            } else {
+                setQnaError(err instanceof Error ? err.message : '질문에 답변하는 중 오류가 발생했습니다.');
+                setConversation(prev => prev.slice(0, -2)); // Remove user question and empty model message on error
+            }
         } finally {
+            if (answerAbortRef.current === controller) {
+                answerAbortRef.current = null;
+            }
             setIsAnswering(false);
         }
     };
 
+    const handleTutoringModeChange = (mode: TutoringMode) => {
+        setTutoringMode(mode);
+        setSocraticExchange(null);
+    };
+
+    const handleSessionSummary = async () => {
+        sessionSummaryAbortRef.current?.abort();
+        const controller = new AbortController();
+        sessionSummaryAbortRef.current = controller;
+        setIsLoadingSessionSummary(true);
+        setSessionSummaryError(null);
+        try {
+            setSessionSummary(await generateSessionSummary(subjectName, standard.description, conversation, stuckPoints, controller.signal));
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setSessionSummaryError(err instanceof Error ? err.message : '학습 정리 중 오류가 발생했습니다.');
+        } finally {
+            if (sessionSummaryAbortRef.current === controller) {
+                sessionSummaryAbortRef.current = null;
+                setIsLoadingSessionSummary(false);
+            }
+        }
+    };
+
     const handleToggleSpeak = useCallback(async () => {
         if (isSpeaking || isLoadingTTS) {
             stopAllAudio();
@@ -267,9 +462,11 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
         
         setIsLoadingTTS(true);
         setTtsError(null);
+        const controller = new AbortController();
+        speechAbortRef.current = controller;
 
         try {
-            const base64Audio = await generateSpeech(explanation, selectedVoice);
+            const base64Audio = await generateSpeech(explanation, selectedVoice, controller.signal);
 
             const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             audioContextRef.current = audioCtx;
@@ -294,12 +491,16 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             setIsSpeaking(true);
 
         } catch (err) {
+            if (isAbortError(err)) return;
             setTtsError(err instanceof Error ? err.message : '음성 재생 중 오류가 발생했습니다.');
             stopAllAudio();
         }
     }, [explanation, selectedVoice, isSpeaking, isLoadingTTS, stopAllAudio]);
 
     const handleGenerateQuiz = async () => {
+        quizAbortRef.current?.abort();
+        const controller = new AbortController();
+        quizAbortRef.current = controller;
         setIsGeneratingQuestions(true);
         setQuestionsError(null);
         try {
@@ -313,16 +514,36 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                 return;
             }
 
-            // Removed points parameter
-            const generated = await generateQuestions(subjectName, standard.description, requests, difficulty);
-            if (!generated || generated.length === 0) {
-                throw new Error("문제를 생성하지 못했습니다. 잠시 후 다시 시도해주세요.");
+            quizIdRef.current = new Date().toISOString();
+            setExpectedQuestionCount(requests.reduce((sum, { count }) => sum + count, 0));
+            setIsReceivingQuestions(true);
+            let receivedCount = 0;
+            const report = await streamQuestions(subjectName, standard.description, requests, difficulty, {
+                onQuestion: question => {
+                    receivedCount++;
+                    setQuestions(prev => [...(prev || []), question]);
+                },
+                onUpdate: (index, question) => setQuestions(prev => prev && prev.map((q, i) => (i === index ? question : q))),
+                onQuestionsComplete: completeReport => {
+                    setIsReceivingQuestions(false);
+                    setValidationReport(completeReport);
+                },
+            }, controller.signal);
+            if (receivedCount === 0) {
+                throw new Error(report.dropped.length > 0
+                    ? "생성된 문제가 모두 형식 검사를 통과하지 못했습니다. 다시 시도해주세요."
+                    : "문제를 생성하지 못했습니다. 잠시 후 다시 시도해주세요.");
             }
-            setQuestions(generated);
         } catch (err) {
+            if (isAbortError(err)) return;
+            // Questions that already arrived stay playable; the quiz view shows the error instead
             setQuestionsError(err instanceof Error ? err.message : '문제를 생성하는 데 실패했습니다.');
         } finally {
-            setIsGeneratingQuestions(false);
+            if (quizAbortRef.current === controller) {
+                quizAbortRef.current = null;
+                setIsGeneratingQuestions(false);
+                setIsReceivingQuestions(false);
+            }
         }
     };
 
@@ -336,10 +557,12 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
         correctAnswers: number, 
         totalQuestions: number, 
         userAnswers: (string | null)[], 
-        correctness: (boolean | null)[]
+        correctness: (boolean | null)[],
+        hintsUsed: number[],
+        exam?: ExamRecord
     ) => {
         const newResult: QuizResult = {
-            id: new Date().toISOString(),
+            id: quizIdRef.current || new Date().toISOString(),
             date: new Date().toISOString(),
             standardId: standard.id,
             standardDescription: standard.description,
@@ -350,16 +573,22 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
             // Save full details for review
             questions: questions || undefined,
             userAnswers,
-            correctness
+            correctness,
+            hintsUsed,
+            exam
         };
-        // Add new result and keep only the latest 30
-        const updatedHistory = [...studyHistory, newResult];
-        const limitedHistory = updatedHistory.length > 30 ? updatedHistory.slice(updatedHistory.length - 30) : updatedHistory;
-        
-        setStudyHistory(limitedHistory);
+        setStudyHistory(prev => upsertStudyResult(prev, newResult));
+        addMissedQuestions(newResult);
         setLastResult(newResult);
         setQuizFinished(true);
-    }, [standard, subjectName, studyHistory, setStudyHistory, questions]);
+
+        // Tagged in the background; the Dashboard catches up on any result this doesn't finish for.
+        if (needsMisconceptionTagging(newResult)) {
+            classifyMisconceptions(newResult)
+                .then(misconceptions => setStudyHistory(prev => upsertStudyResult(prev, { ...newResult, misconceptions })))
+                .catch(error => console.warn("Misconception tagging failed:", error));
+        }
+    }, [standard, subjectName, setStudyHistory, questions]);
 
     const mathSymbols = [
         // Basic Ops
@@ -460,6 +689,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
         ul: (props: any) => <ul className="list-disc list-outside pl-4 my-1 space-y-0.5" {...props} />,
         ol: (props: any) => <ol className="list-decimal list-outside pl-4 my-1 space-y-0.5" {...props} />,
         li: (props: any) => <li className="leading-snug" {...props} />,
+        ...figureMarkdownComponents,
     };
 
     if (!questions) {
@@ -475,6 +705,33 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                     </div>
                     
                      <div className="flex flex-wrap items-center justify-end mt-2 border-b border-slate-200 dark:border-slate-700 pb-2 gap-2">
+                        {isExplanationFromCache && (
+                            <span className="text-[11px] text-slate-500 dark:text-slate-400">저장된 설명을 불러왔어요</span>
+                        )}
+                        {isExplanationStopped && !isStreamingExplanation && (
+                            <span className="text-[11px] text-slate-500 dark:text-slate-400">설명 생성을 중단했어요</span>
+                        )}
+                        {isStreamingExplanation ? (
+                        <button
+                            onClick={handleStopExplanation}
+                            className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 text-sm font-medium transition-colors"
+                            aria-label="설명 생성 중지"
+                        >
+                            <StopIcon className="h-4 w-4" />
+                            <span className="hidden sm:inline">생성 중지</span>
+                        </button>
+                        ) : (
+                        <button
+                            onClick={handleRegenerateContent}
+                            disabled={isLoadingSummary || isLoadingIllustration}
+                            className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 text-sm font-medium disabled:opacity-50 transition-colors"
+                            aria-label="설명 다시 생성"
+                            title="저장된 내용 대신 AI에게 새로 받아옵니다"
+                        >
+                            <RefreshIcon className="h-4 w-4" />
+                            <span className="hidden sm:inline">다시 생성</span>
+                        </button>
+                        )}
                         <div className="flex items-center gap-2">
                             <select
                                 id="voice-select"
@@ -563,7 +820,30 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                         <hr className="my-2 border-slate-200 dark:border-slate-700" />
                         
                         <section>
-                            <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-slate-100 mb-1">궁금한 점 질문하기</h2>
+                            <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                                <h2 className="text-lg sm:text-xl font-bold text-slate-800 dark:text-slate-100">궁금한 점 질문하기</h2>
+                                <div className="flex rounded-md border border-slate-300 dark:border-slate-600 overflow-hidden text-xs" role="group" aria-label="질문 답변 방식">
+                                    {TUTORING_MODE_OPTIONS.map(option => (
+                                        <button
+                                            key={option.id}
+                                            type="button"
+                                            onClick={() => handleTutoringModeChange(option.id)}
+                                            disabled={isAnswering}
+                                            title={option.description}
+                                            className={`px-2.5 py-1 font-medium transition-colors disabled:opacity-50 ${tutoringMode === option.id ? 'bg-neon-blue text-white' : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                                        >
+                                            {option.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {tutoringMode === 'socratic' && (
+                                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                                    {socraticExchange
+                                        ? `선생님의 질문에 답해 보세요. (시도 ${socraticExchange.attempts}/${SOCRATIC_ATTEMPTS_BEFORE_ANSWER}회, 다 쓰면 풀이를 알려줘요)`
+                                        : 'AI 선생님이 답 대신 생각할 질문을 던져요. 스스로 답을 찾아보세요!'}
+                                </p>
+                            )}
                             <div className="space-y-3 mb-2 p-3 sm:p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700 transition-all duration-300">
                                 {conversation.map((msg, index) => (
                                     <div key={index} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
@@ -635,12 +915,49 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                                 )}
 
                                 <div className="flex justify-end items-center mt-1.5 gap-2">
-                                    <Button type="submit" disabled={!userQuestion.trim() || isAnswering} className="!py-1.5 !px-3 text-xs sm:text-sm">
-                                        {isAnswering ? <Spinner size="sm" /> : '질문 전송'}
-                                    </Button>
+                                    {isAnswering ? (
+                                        <Button type="button" variant="secondary" onClick={handleStopAnswer} className="!py-1.5 !px-3 text-xs sm:text-sm flex items-center gap-1">
+                                            <StopIcon className="h-3.5 w-3.5" /> 답변 중지
+                                        </Button>
+                                    ) : (
+                                        <Button type="submit" disabled={!userQuestion.trim()} className="!py-1.5 !px-3 text-xs sm:text-sm">
+                                            질문 전송
+                                        </Button>
+                                    )}
                                 </div>
                             </form>
                             {qnaError && <p className="text-red-500 mt-1 text-xs">{qnaError}</p>}
+
+                            {conversation.length > 0 && !isAnswering && (
+                                <div className="mt-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/50">
+                                    {stuckPoints.length > 0 && (
+                                        <div className="mb-2">
+                                            <p className="text-xs font-bold text-orange-600 dark:text-orange-400 mb-1">막혔던 지점</p>
+                                            <ul className="list-disc pl-5 text-xs text-slate-600 dark:text-slate-300 space-y-0.5">
+                                                {stuckPoints.map((point, index) => (
+                                                    <li key={index}>{point.note}</li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
+                                    {sessionSummary ? (
+                                        <div className="prose prose-sm dark:prose-invert max-w-none text-slate-800 dark:text-slate-200">
+                                            <ReactMarkdown 
+                                                remarkPlugins={[remarkGfm, remarkMath]} 
+                                                rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+                                                components={markdownComponents}
+                                            >
+                                                {preprocessLaTeX(sessionSummary)}
+                                            </ReactMarkdown>
+                                        </div>
+                                    ) : (
+                                        <Button variant="secondary" onClick={handleSessionSummary} disabled={isLoadingSessionSummary} className="!py-1.5 !px-3 text-xs">
+                                            {isLoadingSessionSummary ? <Spinner size="sm" /> : '📝 이번 학습 정리하기'}
+                                        </Button>
+                                    )}
+                                    {sessionSummaryError && <p className="text-red-500 mt-1 text-xs">{sessionSummaryError}</p>}
+                                </div>
+                            )}
                         </section>
                         
                         <hr className="my-6 border-slate-200 dark:border-slate-700" />
@@ -681,13 +998,14 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                                     <input type="number" id="cr-questions" value={questionCounts['creativity']} onChange={e => handleQuestionCountChange('creativity', e.target.value)} min="0" className="w-full p-1.5 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 rounded-md text-sm text-center"/>
                                 </div>
                             </div>
+                            <ExamSettingsPicker settings={examSettings} onChange={setExamSettings} />
                             <div className="flex flex-col">
                                 <Button 
                                     onClick={handleGenerateQuiz} 
                                     disabled={isGeneratingQuestions || (questionCounts['multiple-choice'] === 0 && questionCounts['short-answer'] === 0 && questionCounts['ox'] === 0 && questionCounts['creativity'] === 0)} 
                                     className="w-full !py-3 text-base"
                                 >
-                                    {isGeneratingQuestions ? <Spinner size="sm" /> : '연습 문제 풀기'}
+                                    {isGeneratingQuestions ? <Spinner size="sm" /> : examSettings ? `시험 시작 (${examSettings.timeLimitMinutes}분)` : '연습 문제 풀기'}
                                 </Button>
                             </div>
                             {questionsError && <p className="text-red-500 mt-2 text-xs text-center">{questionsError}</p>}
@@ -712,6 +1030,14 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
                 </div>
                 <p className="text-lg font-bold mt-1 text-slate-800 dark:text-slate-100">{lastResult.score.toFixed(0)}점</p>
             </div>
+            {lastResult.exam && <ExamResultSummary exam={lastResult.exam} />}
+            {weakPrerequisites.length > 0 && (
+                <div className="mb-4 p-3 rounded-lg border border-sunset-orange/40 bg-orange-50 dark:bg-orange-900/20 text-left">
+                    <p className="text-sm font-bold text-slate-800 dark:text-slate-100 mb-0.5">먼저 다져 두면 좋은 내용</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">이 성취기준은 아래 내용을 바탕으로 해요. 아직 약하거나 풀어 보지 않은 것부터 복습해 보세요.</p>
+                    <WeakPrerequisiteList prerequisites={weakPrerequisites} onStudyStandard={onStudyStandard} />
+                </div>
+            )}
             <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
                 * 문제는 로컬 저장소에 저장되어 대시보드에서 다시 확인할 수 있습니다.
             </p>
@@ -720,5 +1046,55 @@ export const StudySession: React.FC<StudySessionProps> = ({ subjectName, standar
       );
     }
 
-    return <Quiz questions={questions} onSubmit={handleQuizSubmit} />;
+    return (
+        <>
+            {validationReport && validationReport.dropped.length > 0 && (
+                <details className="max-w-4xl mx-auto mb-2 px-3 py-2 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 text-xs">
+                    <summary className="cursor-pointer font-semibold">
+                        형식 오류로 고칠 수 없었던 문제 {validationReport.dropped.length}개를 제외했어요. (생성된 {questions.length + validationReport.dropped.length}개 중 {questions.length}개 출제)
+                    </summary>
+                    <ul className="mt-1 list-disc pl-4 space-y-0.5">
+                        {validationReport.dropped.map((item, index) => (
+                            <li key={index}>{item.question.slice(0, 60)}{item.question.length > 60 ? '…' : ''} — {item.problems.join(', ')}</li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            {isGeneratingQuestions && (
+                <div className="max-w-4xl mx-auto mb-2 flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300">
+                    <span className="w-3 h-3 border-2 border-neon-blue border-t-transparent rounded-full animate-spin"></span>
+                    {isReceivingQuestions
+                        ? `문제를 만드는 중이에요 (${questions.length}/${Math.max(expectedQuestionCount, questions.length)}). 먼저 도착한 문제부터 풀어 보세요.`
+                        : '정답 검토와 그림을 준비하고 있어요.'}
+                </div>
+            )}
+            {questionsError && (
+                <p className="max-w-4xl mx-auto mb-2 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-xs text-red-600 dark:text-red-300">
+                    {questionsError} (도착한 {questions.length}문제로 계속 풀 수 있어요.)
+                </p>
+            )}
+            <Quiz
+                questions={questions}
+                subjectName={subjectName}
+                standardDescription={standard.description}
+                onSubmit={handleQuizSubmit}
+                pendingQuestionCount={isReceivingQuestions ? Math.max(expectedQuestionCount - questions.length, 1) : 0}
+                onPracticeSimilar={(questionIndex, studentAnswer) => setPracticeTarget({ questionIndex, studentAnswer })}
+                exam={examSettings ?? undefined}
+            />
+            {practiceTarget && questions[practiceTarget.questionIndex] && (
+                <SimilarPractice
+                    question={questions[practiceTarget.questionIndex]}
+                    originResultId={quizIdRef.current}
+                    questionIndex={practiceTarget.questionIndex}
+                    studentAnswer={practiceTarget.studentAnswer}
+                    subjectName={subjectName}
+                    standardId={standard.id}
+                    standardDescription={standard.description}
+                    onSaveResult={result => setStudyHistory(prev => upsertStudyResult(prev, result))}
+                    onClose={() => setPracticeTarget(null)}
+                />
+            )}
+        </>
+    );
 };
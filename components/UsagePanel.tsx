@@ -0,0 +1,171 @@
+import React, { useSyncExternalStore } from 'react';
+import type { AiFeature, AiUsageBudget } from '../types.ts';
+import { AI_FEATURE_LABELS, DEFAULT_AI_USAGE_BUDGET } from '../constants.ts';
+import { getUsageLedger, subscribeUsageLedger, sumUsage, toDateKey, clearUsageLedger, getBudgetOverruns, USAGE_BUDGET_STORAGE_KEY } from '../services/usageLedger.ts';
+import useLocalStorage from '../hooks/useLocalStorage.ts';
+import { Button } from './common/Button.tsx';
+
+interface UsagePanelProps {
+    onClose: () => void;
+}
+
+const HISTORY_DAYS = 7;
+
+const formatCost = (usd: number) => (usd === 0 ? '$0' : usd < 0.01 ? '< $0.01' : `$${usd.toFixed(2)}`);
+
+const BudgetInput: React.FC<{ id: string; label: string; unit: string; value: number; onChange: (value: number) => void }> = ({ id, label, unit, value, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">{label}</label>
+        <div className="flex items-center gap-1">
+            <input
+                id={id}
+                type="number"
+                min="0"
+                value={value}
+                onChange={e => onChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-1.5 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none"
+            />
+            <span className="text-xs text-slate-500 dark:text-slate-400 shrink-0">{unit}</span>
+        </div>
+    </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+    const ledger = useSyncExternalStore(subscribeUsageLedger, getUsageLedger);
+    const [budget, setBudget] = useLocalStorage<AiUsageBudget>(USAGE_BUDGET_STORAGE_KEY, DEFAULT_AI_USAGE_BUDGET);
+
+    const todayByFeature = ledger[toDateKey()] ?? {};
+    const todayTotals = sumUsage(todayByFeature);
+    const overruns = getBudgetOverruns(budget);
+
+    const recentDays = Array.from({ length: HISTORY_DAYS }, (_, i) => {
+        const day = toDateKey(new Date(Date.now() - i * 24 * 60 * 60 * 1000));
+        return { day, totals: sumUsage(ledger[day]) };
+    });
+
+    const handleBudgetChange = <K extends keyof AiUsageBudget>(field: K, value: AiUsageBudget[K]) => {
+        setBudget(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleClear = () => {
+        if (window.confirm("사용량 기록을 모두 지울까요?")) {
+            clearUsageLedger();
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="usage-title"
+        >
+            <div
+                className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl p-4 sm:p-6 max-w-xl w-full max-h-[85vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-3">
+                    <h2 id="usage-title" className="text-lg font-bold text-slate-800 dark:text-slate-100">📊 AI 사용량</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 -mr-2 text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 transition-colors rounded-full hover:bg-slate-100 dark:hover:bg-slate-700"
+                        aria-label="사용량 닫기"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                    </button>
+                </div>
+
+                {overruns.length > 0 && (
+                    <div className="mb-3 p-2 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-xs text-red-600 dark:text-red-300 space-y-0.5">
+                        {overruns.map(message => <p key={message}>{message}</p>)}
+                        <p className="font-semibold">{budget.action === 'block' ? '한도에 도달한 기능은 내일까지 사용할 수 없습니다.' : '경고만 표시되며 기능은 계속 사용할 수 있습니다.'}</p>
+                    </div>
+                )}
+
+                <section className="space-y-2">
+                    <h3 className="text-sm font-bold text-neon-blue">오늘 사용량</h3>
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        <div className="p-2 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                            <p className="text-[11px] text-slate-500 dark:text-slate-400">요청</p>
+                            <p className="text-base font-bold text-slate-800 dark:text-slate-100">{todayTotals.requests}회</p>
+                        </div>
+                        <div className="p-2 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                            <p className="text-[11px] text-slate-500 dark:text-slate-400">토큰</p>
+                            <p className="text-base font-bold text-slate-800 dark:text-slate-100">{(todayTotals.inputTokens + todayTotals.outputTokens).toLocaleString()}</p>
+                        </div>
+                        <div className="p-2 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                            <p className="text-[11px] text-slate-500 dark:text-slate-400">예상 비용</p>
+                            <p className="text-base font-bold text-slate-800 dark:text-slate-100">{formatCost(todayTotals.estimatedCostUsd)}</p>
+                        </div>
+                    </div>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                                <th className="text-left py-1 font-medium">기능</th>
+                                <th className="text-right py-1 font-medium">요청</th>
+                                <th className="text-right py-1 font-medium">입력 토큰</th>
+                                <th className="text-right py-1 font-medium">출력 토큰</th>
+                                <th className="text-right py-1 font-medium">비용</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {(Object.keys(AI_FEATURE_LABELS) as AiFeature[]).map(feature => {
+                                const totals = todayByFeature[feature];
+                                if (!totals) return null;
+                                return (
+                                    <tr key={feature} className="text-slate-700 dark:text-slate-200 border-b border-slate-100 dark:border-slate-700/50">
+                                        <td className="py-1">{AI_FEATURE_LABELS[feature]}</td>
+                                        <td className="text-right py-1">{totals.requests}</td>
+                                        <td className="text-right py-1">{totals.inputTokens.toLocaleString()}</td>
+                                        <td className="text-right py-1">{totals.outputTokens.toLocaleString()}</td>
+                                        <td className="text-right py-1">{formatCost(totals.estimatedCostUsd)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {todayTotals.requests === 0 && <p className="text-xs text-center text-slate-500 dark:text-slate-400">오늘은 아직 AI를 사용하지 않았어요.</p>}
+                    <p className="text-[11px] text-slate-500 dark:text-slate-400 leading-snug">* 비용은 유료 요금 기준의 대략적인 추정치입니다. 무료 키나 학교 서버는 실제로 청구되지 않을 수 있습니다.</p>
+                </section>
+
+                <section className="space-y-2 mt-5">
+                    <h3 className="text-sm font-bold text-neon-blue">최근 {HISTORY_DAYS}일</h3>
+                    <ul className="text-xs divide-y divide-slate-100 dark:divide-slate-700">
+                        {recentDays.map(({ day, totals }) => (
+                            <li key={day} className="flex justify-between py-1 text-slate-700 dark:text-slate-200">
+                                <span>{day}</span>
+                                <span>{totals.requests}회 · {(totals.inputTokens + totals.outputTokens).toLocaleString()} 토큰 · {formatCost(totals.estimatedCostUsd)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+
+                <section className="space-y-2 mt-5">
+                    <h3 className="text-sm font-bold text-neon-blue">하루 사용 한도</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 leading-snug">0으로 두면 제한하지 않습니다. 한도는 이 기기에서만 적용됩니다.</p>
+                    <div className="grid grid-cols-3 gap-2">
+                        <BudgetInput id="budget-tokens" label="토큰" unit="개" value={budget.dailyTokenLimit} onChange={value => handleBudgetChange('dailyTokenLimit', value)} />
+                        <BudgetInput id="budget-images" label="이미지 생성" unit="회" value={budget.dailyImageLimit} onChange={value => handleBudgetChange('dailyImageLimit', value)} />
+                        <BudgetInput id="budget-speech" label="음성 듣기" unit="회" value={budget.dailySpeechLimit} onChange={value => handleBudgetChange('dailySpeechLimit', value)} />
+                    </div>
+                    <div className="flex gap-4 text-xs text-slate-700 dark:text-slate-200">
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="radio" name="budget-action" checked={budget.action === 'warn'} onChange={() => handleBudgetChange('action', 'warn')} />
+                            한도를 넘으면 경고만 표시
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="radio" name="budget-action" checked={budget.action === 'block'} onChange={() => handleBudgetChange('action', 'block')} />
+                            한도를 넘으면 사용 차단
+                        </label>
+                    </div>
+                </section>
+
+                <div className="mt-4 flex justify-between gap-2">
+                    <Button variant="secondary" onClick={handleClear} className="!py-2 text-sm">기록 초기화</Button>
+                    <Button onClick={onClose} className="!py-2 text-sm">닫기</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,322 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import type { QuizResult, WrongAnswerItem, WrongAnswerNote } from '../types.ts';
+import { MISCONCEPTION_OPTIONS } from '../constants.ts';
+import useLocalStorage from '../hooks/useLocalStorage.ts';
+import { getReviewQueue, subscribeReviewQueue } from '../services/reviewQueue.ts';
+import { collectWrongAnswers, groupWrongAnswers, exportWrongAnswersMarkdown, WRONG_ANSWER_NOTES_STORAGE_KEY } from '../services/wrongAnswerNotebook.ts';
+import { toDateKey } from '../services/usageLedger.ts';
+import { preprocessLaTeX } from '../services/geminiService.ts';
+import { Button } from './common/Button.tsx';
+import { Card } from './common/Card.tsx';
+import { AnswerVerificationNote } from './AnswerVerificationNote.tsx';
+import { SolutionSteps } from './SolutionSteps.tsx';
+import { QuestionFigures, figureMarkdownComponents } from './MarkdownFigures.tsx';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+type StatusFilter = 'all' | 'open' | 'understood';
+
+const STATUS_FILTERS: { id: StatusFilter; label: string }[] = [
+    { id: 'all', label: '전체' },
+    { id: 'open', label: '복습 필요' },
+    { id: 'understood', label: '이해 완료' },
+];
+
+const markdownComponents = {
+    p: (props: any) => <p className="mb-1 last:mb-0 leading-snug" {...props} />,
+    ...figureMarkdownComponents,
+};
+
+const Markdown: React.FC<{ children: string }> = ({ children }) => (
+    <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeKatex, { output: 'html' }]]}
+        components={markdownComponents}
+    >
+        {preprocessLaTeX(children)}
+    </ReactMarkdown>
+);
+
+interface NotebookEntryProps {
+    item: WrongAnswerItem;
+    number: number;
+    note?: WrongAnswerNote;
+    onSaveNote: (note: WrongAnswerNote) => void;
+}
+
+const NotebookEntry: React.FC<NotebookEntryProps> = ({ item, number, note, onSaveNote }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draftNote, setDraftNote] = useState('');
+    const [draftCorrection, setDraftCorrection] = useState('');
+    const question = item.question;
+    const isUnderstood = !!note?.understoodAt;
+    const misconceptionName = item.misconception && MISCONCEPTION_OPTIONS.find(option => option.id === item.misconception!.type)?.name;
+
+    const startEditing = () => {
+        setDraftNote(note?.note ?? '');
+        setDraftCorrection(note?.correction ?? '');
+        setIsEditing(true);
+    };
+
+    const handleSave = () => {
+        onSaveNote({ ...note, note: draftNote.trim(), correction: draftCorrection.trim(), updatedAt: new Date().toISOString() });
+        setIsEditing(false);
+    };
+
+    const toggleUnderstood = () => {
+        onSaveNote({
+            note: note?.note ?? '',
+            correction: note?.correction ?? '',
+            understoodAt: isUnderstood ? undefined : new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+        });
+    };
+
+    return (
+        <div className={`border rounded-lg p-3 sm:p-4 break-inside-avoid ${isUnderstood ? 'border-lime-green/50 bg-green-50/40 dark:bg-green-900/10' : 'border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/30'}`}>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="text-sm font-bold text-slate-700 dark:text-slate-300">문제 {number}</span>
+                <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(item.date).toLocaleDateString()}</span>
+                {misconceptionName && (
+                    <span className="text-xs px-2 py-0.5 rounded font-bold bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300">🔍 {misconceptionName}</span>
+                )}
+                <button
+                    onClick={toggleUnderstood}
+                    className={`ml-auto text-xs px-2 py-0.5 rounded font-bold border transition-colors ${
+                        isUnderstood
+                            ? 'bg-lime-green text-white border-lime-green'
+                            : 'bg-white text-slate-500 border-slate-300 hover:border-lime-green hover:text-lime-green dark:bg-slate-800 dark:border-slate-600 print:hidden'
+                    }`}
+                >
+                    {isUnderstood ? '✅ 이해 완료' : '이해 완료로 표시'}
+                </button>
+            </div>
+
+            <div className="text-sm text-slate-800 dark:text-slate-100 mb-2 prose prose-sm dark:prose-invert max-w-none">
+                <div className="overflow-x-auto">
+                    <Markdown>{question.question}</Markdown>
+                </div>
+                <QuestionFigures question={question} />
+            </div>
+            {question.options && question.options.length > 0 && question.questionType !== 'ox' && (
+                <ol className="mb-2 pl-5 list-decimal text-sm text-slate-700 dark:text-slate-300 space-y-0.5">
+                    {question.options.map((option, index) => (
+                        <li key={index}><Markdown>{option}</Markdown></li>
+                    ))}
+                </ol>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm mb-2">
+                <div>
+                    <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">나의 답</span>
+                    <div className="p-2 rounded border bg-red-50 border-red-200 dark:bg-red-900/10 dark:border-red-800 text-red-800 dark:text-red-200 overflow-x-auto">
+                        <Markdown>{item.studentAnswer || '(미입력)'}</Markdown>
+                    </div>
+                    {item.misconception?.note && <p className="mt-1 text-xs text-orange-700 dark:text-orange-300">{item.misconception.note}</p>}
+                </div>
+                <div>
+                    <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">정답</span>
+                    <div className="p-2 rounded border bg-white border-slate-200 dark:bg-slate-800 dark:border-slate-600 text-neon-blue font-semibold overflow-x-auto">
+                        <Markdown>{question.answer}</Markdown>
+                    </div>
+                </div>
+            </div>
+            <details className="mb-2 text-xs text-slate-600 dark:text-slate-400" open={!isUnderstood}>
+                <summary className="cursor-pointer font-semibold text-slate-500 dark:text-slate-400">해설</summary>
+                <div className="mt-1 p-2 rounded bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 leading-snug">
+                    <AnswerVerificationNote verification={question.verification} />
+                    {question.solutionSteps ? (
+                        <SolutionSteps question={question} subjectName={item.subjectName} standardDescription={item.standardDescription} />
+                    ) : (
+                        <Markdown>{question.explanation}</Markdown>
+                    )}
+                </div>
+            </details>
+
+            {isEditing ? (
+                <div className="space-y-2 print:hidden">
+                    <label className="block">
+                        <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">메모 (왜 틀렸는지, 다음에 주의할 점)</span>
+                        <textarea
+                            value={draftNote}
+                            onChange={e => setDraftNote(e.target.value)}
+                            rows={2}
+                            className="mt-0.5 w-full bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none"
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">바른 풀이 (수식은 $x^2$처럼 $로 감싸요)</span>
+                        <textarea
+                            value={draftCorrection}
+                            onChange={e => setDraftCorrection(e.target.value)}
+                            rows={4}
+                            className="mt-0.5 w-full bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue outline-none"
+                        />
+                    </label>
+                    <div className="flex justify-end gap-2">
+                        <Button variant="secondary" onClick={() => setIsEditing(false)} className="!py-1.5 !px-3 text-xs">취소</Button>
+                        <Button onClick={handleSave} className="!py-1.5 !px-3 text-xs">저장</Button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {(note?.note || note?.correction) && (
+                        <div className="p-2 rounded border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/10 dark:border-yellow-800 text-sm text-slate-800 dark:text-slate-100 space-y-2">
+                            {note.note && (
+                                <div>
+                                    <span className="block text-xs font-semibold text-yellow-700 dark:text-yellow-400">📝 메모</span>
+                                    <Markdown>{note.note}</Markdown>
+                                </div>
+                            )}
+                            {note.correction && (
+                                <div>
+                                    <span className="block text-xs font-semibold text-yellow-700 dark:text-yellow-400">✏️ 바른 풀이</span>
+                                    <div className="overflow-x-auto"><Markdown>{note.correction}</Markdown></div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <div className="mt-2 text-right print:hidden">
+                        <button onClick={startEditing} className="text-xs font-medium text-neon-blue hover:underline">
+                            {note?.note || note?.correction ? '메모 고치기' : '+ 메모와 바른 풀이 쓰기'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+interface WrongAnswerNotebookProps {
+    onGoHome: () => void;
+}
+
+// Every missed question in one place, so students don't have to open quizzes one by one.
+// Items come from the study history and, once a quiz has dropped out of it, the review queue.
+export const WrongAnswerNotebook: React.FC<WrongAnswerNotebookProps> = ({ onGoHome }) => {
+    const [studyHistory] = useLocalStorage<QuizResult[]>('studyHistory', []);
+    const [notes, setNotes] = useLocalStorage<Record<string, WrongAnswerNote>>(WRONG_ANSWER_NOTES_STORAGE_KEY, {});
+    const reviewQueue = useSyncExternalStore(subscribeReviewQueue, getReviewQueue);
+    const [selectedSubject, setSelectedSubject] = useState('');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+    const items = useMemo(() => collectWrongAnswers(studyHistory, reviewQueue), [studyHistory, reviewQueue]);
+    const subjects = useMemo(() => [...new Set(items.map(item => item.subjectName))], [items]);
+    const understoodCount = items.filter(item => notes[item.id]?.understoodAt).length;
+
+    const groups = useMemo(() => groupWrongAnswers(items.filter(item =>
+        (!selectedSubject || item.subjectName === selectedSubject) &&
+        (statusFilter === 'all' || (statusFilter === 'understood') === !!notes[item.id]?.understoodAt)
+    )), [items, notes, selectedSubject, statusFilter]);
+
+    const handleSaveNote = (id: string, note: WrongAnswerNote) => {
+        setNotes(prev => ({ ...prev, [id]: note }));
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportWrongAnswersMarkdown(groups, notes)], { type: 'text/markdown;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `오답노트-${toDateKey()}.md`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto pb-24 md:pb-6">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <div>
+                    <h1 className="text-xl sm:text-2xl font-bold text-slate-900 dark:text-white">📒 오답노트</h1>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        틀린 문제 {items.length}개 · 이해 완료 {understoodCount}개
+                    </p>
+                </div>
+                <div className="flex gap-2 print:hidden">
+                    <Button variant="secondary" onClick={handleExport} disabled={groups.length === 0} className="!py-1.5 !px-3 text-xs">내보내기 (.md)</Button>
+                    <Button variant="secondary" onClick={() => window.print()} disabled={groups.length === 0} className="!py-1.5 !px-3 text-xs">인쇄</Button>
+                    <Button variant="secondary" onClick={onGoHome} className="!py-1.5 !px-3 text-xs">처음으로</Button>
+                </div>
+            </div>
+
+            {items.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4 print:hidden">
+                    {subjects.length > 1 && (
+                        <select
+                            value={selectedSubject}
+                            onChange={e => setSelectedSubject(e.target.value)}
+                            className="bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg py-1 px-2 text-xs sm:text-sm text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-neon-blue"
+                        >
+                            <option value="">모든 교과</option>
+                            {subjects.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    )}
+                    <div className="flex gap-1 p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg">
+                        {STATUS_FILTERS.map(filter => (
+                            <button
+                                key={filter.id}
+                                onClick={() => setStatusFilter(filter.id)}
+                                className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors ${
+                                    statusFilter === filter.id
+                                        ? 'bg-white dark:bg-slate-800 text-neon-blue shadow-sm'
+                                        : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                                }`}
+                            >
+                                {filter.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {items.length === 0 ? (
+                <Card className="p-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                    아직 틀린 문제가 없어요. 문제를 풀다가 틀리면 이곳에 자동으로 모여요.
+                </Card>
+            ) : groups.length === 0 ? (
+                <Card className="p-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                    조건에 맞는 문제가 없어요.
+                </Card>
+            ) : (
+                <div className="space-y-6">
+                    {groups.map(group => (
+                        <section key={group.subjectName}>
+                            <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-2">{group.subjectName}</h2>
+                            <div className="space-y-4">
+                                {group.units.map(unit => (
+                                    <Card key={unit.unitName} className="p-4">
+                                        <h3 className="text-base font-bold text-neon-blue mb-3">{unit.unitName}</h3>
+                                        <div className="space-y-4">
+                                            {unit.standards.map(standard => (
+                                                <div key={standard.standardId}>
+                                                    <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2 leading-snug">
+                                                        <span className="font-bold text-neon-blue mr-1">{standard.standardId}</span>
+                                                        {standard.standardDescription}
+                                                        <span className="ml-1 text-xs font-normal text-slate-500 dark:text-slate-400">({standard.items.length}문제)</span>
+                                                    </h4>
+                                                    <div className="space-y-3">
+                                                        {standard.items.map((item, index) => (
+                                                            <NotebookEntry
+                                                                key={item.id}
+                                                                item={item}
+                                                                number={index + 1}
+                                                                note={notes[item.id]}
+                                                                onSaveNote={note => handleSaveNote(item.id, note)}
+                                                            />
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </Card>
+                                ))}
+                            </div>
+                        </section>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
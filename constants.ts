@@ -1,5 +1,5 @@
 
-import type { EducationCurriculum, TTSVoice } from './types.ts';
+import type { EducationCurriculum, TTSVoice, AiSettings, AiProviderId, AiFeature, AiUsageBudget, LearnerProfile, SchoolLevel, LearnerLevel, ExplanationStyle, TutoringMode, MisconceptionType, QuestionType } from './types.ts';
 
 export const AVAILABLE_VOICES: { id: TTSVoice; name: string }[] = [
     { id: 'Kore', name: '코리 (여성)' },
@@ -9,6 +9,161 @@ export const AVAILABLE_VOICES: { id: TTSVoice; name: string }[] = [
     { id: 'Zephyr', name: '제퍼 (남성)' },
 ];
 
+export const AI_PROVIDER_OPTIONS: { id: AiProviderId; name: string; description: string }[] = [
+    { id: 'gemini', name: 'Google Gemini', description: 'Google AI Studio에서 발급받은 API 키로 Gemini 모델을 사용합니다.' },
+    { id: 'openai-compatible', name: '학교 AI 서버 (OpenAI 호환)', description: 'Ollama, vLLM 등 OpenAI 호환 API를 제공하는 교내 서버를 사용합니다.' },
+    { id: 'mock', name: '데모 / 오프라인 모드', description: 'API 키 없이 미리 준비된 예시 설명과 문제로 동작합니다. 수업 시연이나 인터넷이 없는 환경에 알맞습니다.' },
+];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+    provider: 'gemini',
+    gemini: {
+        textModel: 'gemini-2.5-flash',
+        imageModel: 'gemini-2.5-flash-image',
+        speechModel: 'gemini-2.5-flash-preview-tts',
+    },
+    openAiCompatible: {
+        baseUrl: 'http://localhost:11434/v1',
+        apiKey: '',
+        textModel: 'llama3.1',
+        imageModel: '',
+        speechModel: '',
+    },
+};
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+    'explanation': '개념 설명',
+    'summary': '핵심 요약',
+    'follow-up': '질문 답변',
+    'quiz': '문제 생성',
+    'grading': '서술형 채점',
+    'tts': '음성 듣기',
+    'image': '이미지 생성',
+    'diagnosis': '학습 진단',
+    'verification': '정답 검증',
+    'hint': '힌트',
+    'memory': '대화 요약',
+    'misconception': '오답 원인 분석',
+    'prerequisites': '선수 학습 추천',
+    'session-summary': '학습 정리',
+};
+
+// Hint ladder in the quiz: concept reminder, first step, near-solution.
+export const HINT_LEVEL_LABELS = ['개념 떠올리기', '첫 단계', '거의 다 왔어요'];
+export const MAX_HINTS_PER_QUESTION = HINT_LEVEL_LABELS.length;
+// Share of a question's credit lost per revealed hint.
+export const HINT_CREDIT_PENALTY = 0.2;
+
+// Exam mode
+export const EXAM_TIME_LIMIT_OPTIONS = [10, 20, 30, 50, 100]; // minutes
+export const DEFAULT_EXAM_TIME_LIMIT_MINUTES = 30;
+// 배점 for questions the model didn't score itself
+export const DEFAULT_EXAM_POINTS: Record<QuestionType, number> = {
+    'ox': 2,
+    'multiple-choice': 3,
+    'short-answer': 4,
+    'creativity': 4,
+};
+
+// Paid-tier list prices in USD per 1M tokens, used only for a rough cost estimate.
+// Models not listed here (e.g. self-hosted ones) are counted as free.
+export const AI_MODEL_PRICING: Record<string, { inputPerMillion: number; outputPerMillion: number }> = {
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.30, outputPerMillion: 30.00 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.50, outputPerMillion: 10.00 },
+};
+
+export const DEFAULT_AI_USAGE_BUDGET: AiUsageBudget = {
+    dailyTokenLimit: 0,
+    dailyImageLimit: 0,
+    dailySpeechLimit: 0,
+    action: 'warn',
+};
+
+export const SCHOOL_LEVEL_LABELS: Record<SchoolLevel, string> = {
+    middle: '중학교',
+    high: '고등학교',
+};
+
+// `prompt` is what the model is told about the learner; `name` is shown in settings.
+export const LEARNER_LEVEL_OPTIONS: { id: LearnerLevel; name: string; prompt: string }[] = [
+    { id: 'struggling', name: '기초가 부족해요', prompt: '기초 개념이 약하므로 선수 개념부터 짚어 주고, 용어를 쉽게 풀어 쓰고, 작은 단계로 나누어 설명하세요.' },
+    { id: 'average', name: '보통이에요', prompt: '교과서 수준의 개념은 알고 있으므로, 핵심 원리와 대표 예시를 중심으로 설명하세요.' },
+    { id: 'advanced', name: '자신 있어요', prompt: '기본 개념은 익숙하므로 쉬운 내용은 짧게 넘어가고, 원리의 이유와 응용, 심화 연결을 다루세요.' },
+];
+
+export const EXPLANATION_STYLE_OPTIONS: { id: ExplanationStyle; name: string; prompt: string }[] = [
+    { id: 'step-by-step', name: '차근차근 단계별로', prompt: '풀이와 설명을 번호를 매긴 단계로 나누고, 각 단계에서 무엇을 왜 하는지 밝히세요.' },
+    { id: 'concise', name: '핵심만 짧게', prompt: '군더더기 없이 핵심 개념과 공식, 결론 위주로 짧게 설명하세요.' },
+    { id: 'intuitive', name: '그림과 비유로 직관적으로', prompt: '비유, 실생활 예시, 그래프나 도형의 모양을 떠올리게 하는 직관적인 설명을 먼저 제시하세요.' },
+    { id: 'rigorous', name: '정의와 증명까지 엄밀하게', prompt: '정의와 조건을 정확히 밝히고, 공식이 성립하는 이유를 논리적으로 유도하거나 증명하세요.' },
+];
+
+export const DEFAULT_LEARNER_PROFILE: LearnerProfile = {
+    schoolLevel: 'high',
+    grade: 1,
+    selfRatedLevel: 'average',
+    explanationStyle: 'step-by-step',
+};
+
+export const TUTORING_MODE_OPTIONS: { id: TutoringMode; name: string; description: string }[] = [
+    { id: 'socratic', name: '질문으로 이끌기', description: '답 대신 생각할 질문을 던지고, 학생의 답을 확인하며 스스로 풀도록 도와요.' },
+    { id: 'direct', name: '바로 설명하기', description: '질문에 곧바로 답과 설명을 알려줘요.' },
+];
+
+// Practice time defaults to Socratic tutoring.
+export const DEFAULT_TUTORING_MODE: TutoringMode = 'socratic';
+
+// Q&A messages always sent verbatim, and how many older ones pile up before they are summarized together.
+export const CONVERSATION_RECENT_MESSAGES = 6;
+export const CONVERSATION_SUMMARY_BATCH = 4;
+
+// Student replies in one Socratic exchange before the tutor gives the answer.
+export const SOCRATIC_ATTEMPTS_BEFORE_ANSWER = 3;
+
+// Quiz results kept in the study history (oldest dropped first).
+export const STUDY_HISTORY_LIMIT = 30;
+
+// How many variants "비슷한 문제 더 풀기" can generate for a missed question.
+export const SIMILAR_QUESTION_COUNT_OPTIONS = [1, 3, 5];
+export const DEFAULT_SIMILAR_QUESTION_COUNT = 3;
+
+// Mixed quizzes over many standards: questions per standard to start with, and the cap on the whole quiz.
+export const DEFAULT_MIXED_QUESTIONS_PER_STANDARD = 2;
+export const MAX_MIXED_QUIZ_QUESTIONS = 40;
+
+// Spaced review of missed questions (SM-2 style)
+// Days until the 1st and 2nd review after a right answer; later intervals grow by the card's ease
+export const REVIEW_FIRST_INTERVALS_DAYS = [3, 7];
+export const REVIEW_INITIAL_EASE = 2.5;
+export const REVIEW_MIN_EASE = 1.3;
+// A card whose next interval reaches this is considered learned and leaves the queue
+export const REVIEW_RETIRE_INTERVAL_DAYS = 60;
+// Questions in one day's review
+export const DAILY_REVIEW_LIMIT = 20;
+// Cards kept on this device; learned ones are dropped first, then the oldest
+export const REVIEW_QUEUE_LIMIT = 300;
+
+// Prerequisite graph (see STANDARD_PREREQUISITES below)
+// A standard whose recent average is below this counts as weak
+export const WEAK_STANDARD_SCORE = 60;
+// How many steps back a weak standard's prerequisites are searched
+export const PREREQUISITE_SEARCH_DEPTH = 2;
+// Most prerequisites the AI may suggest for one standard
+export const MAX_PREREQUISITE_SUGGESTIONS = 3;
+
+// Kinds of mistakes a wrong answer is classified into.
+export const MISCONCEPTION_OPTIONS: { id: MisconceptionType; name: string; description: string }[] = [
+    { id: 'calculation', name: '계산 실수', description: '풀이 방법은 맞지만 사칙연산, 전개, 약분 등 계산 과정에서 틀렸어요.' },
+    { id: 'sign', name: '부호 오류', description: '음수, 이항, 부등호 방향 등 부호를 잘못 처리했어요.' },
+    { id: 'concept', name: '개념 오해', description: '정의, 공식, 성질을 잘못 알고 있거나 잘못 적용했어요.' },
+    { id: 'condition', name: '조건 누락', description: '범위, 정의역, 단서 등 문제의 조건을 빠뜨렸어요.' },
+    { id: 'misreading', name: '문제 오독', description: '문제가 묻는 것을 잘못 읽었어요. (예: 옳지 않은 것을 고르는 문제에서 옳은 것을 고름)' },
+    { id: 'other', name: '기타', description: '위 분류에 들어맞지 않는 실수예요.' },
+];
+
 export const EDUCATION_CURRICULUMS: EducationCurriculum[] = [
     {
         name: "2022 개정 교육과정",
@@ -616,3 +771,128 @@ export const EDUCATION_CURRICULUMS: EducationCurriculum[] = [
         ]
     }
 ];
+
+// Standards worth having down before each standard, keyed by standard id. Only the 수학
+// 선택과목 are seeded; students can edit the graph and ask the AI to suggest more.
+export const STANDARD_PREREQUISITES: Record<string, string[]> = {
+    // 공통수학1
+    "10공수1-01-02": ["10공수1-01-01"],
+    "10공수1-01-03": ["10공수1-01-01", "10공수1-01-02"],
+    "10공수1-02-01": ["10공수1-01-01"],
+    "10공수1-02-02": ["10공수1-02-01", "10공수1-01-03"],
+    "10공수1-02-03": ["10공수1-02-02"],
+    "10공수1-02-04": ["10공수1-02-02"],
+    "10공수1-02-05": ["10공수1-02-04"],
+    "10공수1-02-06": ["10공수1-02-04"],
+    "10공수1-02-07": ["10공수1-01-02", "10공수1-01-03", "10공수1-02-02"],
+    "10공수1-02-08": ["10공수1-02-02", "10공수1-01-03"],
+    "10공수1-02-10": ["10공수1-02-09"],
+    "10공수1-02-11": ["10공수1-02-04", "10공수1-02-09"],
+    "10공수1-03-02": ["10공수1-03-01"],
+    "10공수1-03-03": ["10공수1-03-02"],
+    "10공수1-04-02": ["10공수1-04-01"],
+    // 공통수학2
+    "10공수2-01-03": ["10공수2-01-02"],
+    "10공수2-01-05": ["10공수2-01-03", "10공수2-01-04", "10공수1-02-02"],
+    "10공수2-01-07": ["10공수2-01-06"],
+    "10공수2-02-02": ["10공수2-02-01"],
+    "10공수2-02-03": ["10공수2-02-02"],
+    "10공수2-02-05": ["10공수2-02-04"],
+    "10공수2-02-06": ["10공수2-02-02", "10공수2-02-05"],
+    "10공수2-02-07": ["10공수2-02-05"],
+    "10공수2-02-08": ["10공수2-02-07"],
+    "10공수2-03-02": ["10공수2-03-01"],
+    "10공수2-03-03": ["10공수2-03-01", "10공수2-03-02"],
+    "10공수2-03-04": ["10공수2-03-01", "10공수2-01-06"],
+    "10공수2-03-05": ["10공수2-03-03", "10공수2-01-06"],
+    // 대수
+    "12대수01-02": ["12대수01-01"],
+    "12대수01-03": ["12대수01-02"],
+    "12대수01-04": ["12대수01-03"],
+    "12대수01-05": ["12대수01-04"],
+    "12대수01-06": ["12대수01-03", "12대수01-04", "10공수2-03-03"],
+    "12대수01-07": ["12대수01-06", "10공수2-01-06", "10공수2-01-07"],
+    "12대수01-08": ["12대수01-07"],
+    "12대수02-02": ["12대수02-01", "10공수2-03-01"],
+    "12대수02-03": ["12대수02-02"],
+    "12대수03-02": ["12대수03-01"],
+    "12대수03-03": ["12대수03-01"],
+    "12대수03-04": ["12대수03-02", "12대수03-03"],
+    "12대수03-05": ["12대수03-04"],
+    "12대수03-06": ["12대수03-01"],
+    "12대수03-07": ["12대수03-06", "10공수2-02-07"],
+    // 미적분Ⅰ
+    "12미적Ⅰ-01-01": ["10공수2-03-01"],
+    "12미적Ⅰ-01-02": ["12미적Ⅰ-01-01"],
+    "12미적Ⅰ-01-03": ["12미적Ⅰ-01-02"],
+    "12미적Ⅰ-01-04": ["12미적Ⅰ-01-03"],
+    "12미적Ⅰ-02-01": ["12미적Ⅰ-01-02"],
+    "12미적Ⅰ-02-02": ["12미적Ⅰ-02-01", "12미적Ⅰ-01-03"],
+    "12미적Ⅰ-02-03": ["12미적Ⅰ-02-01"],
+    "12미적Ⅰ-02-04": ["12미적Ⅰ-02-03"],
+    "12미적Ⅰ-02-05": ["12미적Ⅰ-02-01", "12미적Ⅰ-02-04"],
+    "12미적Ⅰ-02-06": ["12미적Ⅰ-02-02", "12미적Ⅰ-01-04"],
+    "12미적Ⅰ-02-07": ["12미적Ⅰ-02-04", "12미적Ⅰ-02-06"],
+    "12미적Ⅰ-02-08": ["12미적Ⅰ-02-07"],
+    "12미적Ⅰ-02-09": ["12미적Ⅰ-02-08"],
+    "12미적Ⅰ-02-10": ["12미적Ⅰ-02-04"],
+    "12미적Ⅰ-03-01": ["12미적Ⅰ-02-04"],
+    "12미적Ⅰ-03-02": ["12미적Ⅰ-03-01"],
+    "12미적Ⅰ-03-03": ["12미적Ⅰ-01-04", "12대수03-04"],
+    "12미적Ⅰ-03-04": ["12미적Ⅰ-03-02", "12미적Ⅰ-03-03"],
+    "12미적Ⅰ-03-05": ["12미적Ⅰ-03-04"],
+    "12미적Ⅰ-03-06": ["12미적Ⅰ-03-04", "12미적Ⅰ-02-10"],
+    // 확률과 통계
+    "12확통01-01": ["10공수1-03-02"],
+    "12확통01-02": ["10공수1-03-03"],
+    "12확통01-03": ["10공수1-03-03"],
+    "12확통02-01": ["10공수1-03-01", "10공수2-02-03"],
+    "12확통02-02": ["12확통02-01"],
+    "12확통02-03": ["12확통02-02"],
+    "12확통02-04": ["12확통02-01"],
+    "12확통02-05": ["12확통02-04"],
+    "12확통02-06": ["12확통02-04"],
+    "12확통03-01": ["12확통02-01"],
+    "12확통03-02": ["12확통03-01"],
+    "12확통03-03": ["12확통03-02", "12확통01-03"],
+    "12확통03-04": ["12확통03-03"],
+    "12확통03-06": ["12확통03-02", "12확통03-05"],
+    "12확통03-07": ["12확통03-04", "12확통03-06"],
+    // 미적분Ⅱ
+    "12미적Ⅱ-01-01": ["12대수03-01"],
+    "12미적Ⅱ-01-02": ["12미적Ⅱ-01-01"],
+    "12미적Ⅱ-01-03": ["12미적Ⅱ-01-02", "12대수03-03"],
+    "12미적Ⅱ-01-04": ["12미적Ⅱ-01-02"],
+    "12미적Ⅱ-01-05": ["12미적Ⅱ-01-03", "12미적Ⅱ-01-04"],
+    "12미적Ⅱ-02-01": ["12대수01-07", "12미적Ⅰ-02-04"],
+    "12미적Ⅱ-02-02": ["12대수02-02"],
+    "12미적Ⅱ-02-03": ["12미적Ⅱ-02-02", "12미적Ⅰ-02-04"],
+    "12미적Ⅱ-02-04": ["12미적Ⅰ-02-04"],
+    "12미적Ⅱ-02-05": ["12미적Ⅰ-02-04", "10공수2-03-02"],
+    "12미적Ⅱ-02-06": ["12미적Ⅱ-02-05"],
+    "12미적Ⅱ-02-07": ["12미적Ⅱ-02-05", "10공수2-03-03"],
+    "12미적Ⅱ-02-08": ["12미적Ⅱ-02-05", "12미적Ⅰ-02-05"],
+    "12미적Ⅱ-02-09": ["12미적Ⅱ-02-05", "12미적Ⅰ-02-08"],
+    "12미적Ⅱ-02-10": ["12미적Ⅱ-02-09"],
+    "12미적Ⅱ-02-11": ["12미적Ⅱ-02-05", "12미적Ⅰ-02-10"],
+    "12미적Ⅱ-03-01": ["12미적Ⅱ-02-01", "12미적Ⅱ-02-03", "12미적Ⅰ-03-04"],
+    "12미적Ⅱ-03-02": ["12미적Ⅱ-03-01", "12미적Ⅱ-02-05"],
+    "12미적Ⅱ-03-03": ["12미적Ⅱ-03-01", "12미적Ⅰ-02-04"],
+    "12미적Ⅱ-03-04": ["12미적Ⅱ-01-04", "12미적Ⅰ-03-03"],
+    "12미적Ⅱ-03-05": ["12미적Ⅱ-03-02", "12미적Ⅱ-03-03", "12미적Ⅰ-03-05"],
+    "12미적Ⅱ-03-06": ["12미적Ⅱ-03-05"],
+    "12미적Ⅱ-03-07": ["12미적Ⅱ-03-05", "12미적Ⅰ-03-06"],
+    // 기하
+    "12기하01-01": ["10공수2-01-04"],
+    "12기하01-02": ["12기하01-01"],
+    "12기하01-03": ["12기하01-02"],
+    "12기하01-04": ["12기하01-01", "12기하01-02", "12기하01-03", "10공수2-01-05"],
+    "12기하02-02": ["12기하02-01"],
+    "12기하02-03": ["12기하02-02"],
+    "12기하02-04": ["10공수2-01-01"],
+    "12기하02-05": ["12기하02-04", "10공수2-01-04"],
+    "12기하03-02": ["12기하03-01"],
+    "12기하03-03": ["12기하03-02"],
+    "12기하03-04": ["12기하03-02", "10공수2-01-02"],
+    "12기하03-05": ["12기하03-03", "12기하03-04", "12기하02-05"],
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { getAiSchedulerState, subscribeAiScheduler } from '../services/requestScheduler.ts';
+
+export const useAiSchedulerState = () => {
+    const state = useSyncExternalStore(subscribeAiScheduler, getAiSchedulerState);
+    const [now, setNow] = useState(Date.now());
+
+    // Tick once a second while a cooldown or degraded window is running so countdowns stay current.
+    const isWaiting = (state.cooldownUntil ?? 0) > now || (state.degradedUntil ?? 0) > now;
+    useEffect(() => {
+        setNow(Date.now());
+        if (!isWaiting) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isWaiting, state]);
+
+    return {
+        ...state,
+        cooldownSeconds: state.cooldownUntil ? Math.max(0, Math.ceil((state.cooldownUntil - now) / 1000)) : 0,
+        isDegraded: state.degradedUntil !== null && state.degradedUntil > now,
+    };
+};
@@ -0,0 +1,115 @@
+import type { AiProviderId, AiSettings, AiFeature, QuestionType, TTSVoice, ConversationMessage } from '../types.ts';
+import { createGeminiProvider } from './providers/geminiProvider.ts';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider.ts';
+import { createMockProvider } from './providers/mockProvider.ts';
+
+// Provider-neutral subset of JSON Schema used for structured output.
+// Each provider translates it into its own schema dialect.
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    enum?: string[];
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+}
+
+// Describes what a request is for. Real models only need the prompt; the offline
+// demo backend uses this to pick the matching fixture instead of parsing prompts.
+export interface AiRequestContext {
+    feature: AiFeature;
+    subjectName?: string;
+    standardDescription?: string;
+    questionRequests?: { type: QuestionType; count: number }[];
+    expectedAnswer?: string;
+    studentAnswer?: string;
+    itemIndexes?: number[]; // Items a batch request covers, e.g. the wrong answers to classify
+    candidateIds?: string[]; // Standard ids the answer must be chosen from
+}
+
+// An image attached to the newest user turn, e.g. a photo of handwritten work.
+export interface AiImageInput {
+    mimeType: string;
+    data: string; // Base64, without the data: URL prefix
+}
+
+export interface AiTextRequest {
+    prompt: string;
+    systemInstruction?: string;
+    // Earlier turns of a chat, oldest first. Sent as real user/model turns; `prompt` is the newest user turn.
+    history?: ConversationMessage[];
+    images?: AiImageInput[];
+    // Skip the model's hidden reasoning step when the provider supports it (faster, cheaper).
+    disableThinking?: boolean;
+    context: AiRequestContext;
+    // Aborting stops the request, or the rest of the stream once it has started.
+    signal?: AbortSignal;
+}
+
+export interface AiJsonRequest extends AiTextRequest {
+    schema: JsonSchema;
+}
+
+// Thrown by providers for failed HTTP calls so the request scheduler can tell
+// rate limits and transient server errors apart from permanent failures.
+export class AiRequestError extends Error {
+    status: number;
+    retryAfterMs?: number;
+
+    constructor(message: string, status: number, retryAfterMs?: number) {
+        super(message);
+        this.name = 'AiRequestError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// Aborted requests reject with an AbortError (from fetch or signal.throwIfAborted()).
+// Callers treat it as a normal outcome rather than a failure to report.
+export const isAbortError = (error: unknown) =>
+    (error as { name?: unknown } | null)?.name === 'AbortError';
+
+export interface AiStreamChunk {
+    text: string;
+}
+
+export interface AiProvider {
+    readonly id: AiProviderId;
+    readonly textModel: string;
+    readonly imageModel: string;
+    validate(): Promise<void>;
+    generateText(request: AiTextRequest): Promise<string>;
+    generateTextStream(request: AiTextRequest): Promise<AsyncGenerator<AiStreamChunk>>;
+    generateJson<T>(request: AiJsonRequest): Promise<T>;
+    // Streams the raw JSON text as it is generated, for showing list items before the whole list is done.
+    generateJsonStream(request: AiJsonRequest): Promise<AsyncGenerator<AiStreamChunk>>;
+    // Returns base64 image data, or null when the provider has no image model configured.
+    generateImage(prompt: string, signal?: AbortSignal): Promise<string | null>;
+    // Returns base64 16-bit PCM audio at 24kHz.
+    generateSpeech(text: string, voice: TTSVoice, signal?: AbortSignal): Promise<string>;
+}
+
+let activeProvider: AiProvider | null = null;
+
+export const createAiProvider = (settings: AiSettings, geminiApiKey: string): AiProvider => {
+    switch (settings.provider) {
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(settings.openAiCompatible);
+        case 'mock':
+            return createMockProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider(geminiApiKey, settings.gemini);
+    }
+};
+
+export const setActiveAiProvider = (provider: AiProvider) => {
+    activeProvider = provider;
+};
+
+export const getActiveAiProvider = (): AiProvider => {
+    if (!activeProvider) {
+        throw new Error("AI 서비스가 초기화되지 않았습니다. API 키 또는 AI 서버 설정을 먼저 확인해주세요.");
+    }
+    return activeProvider;
+};
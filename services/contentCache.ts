@@ -0,0 +1,124 @@
+import type { ContentCacheDescriptor, ContentCacheEntry } from '../types.ts';
+import { PROMPT_VERSION } from './geminiService.ts';
+
+// IndexedDB-backed cache for generated study content (explanations, concept summaries, illustrations).
+// The cache is best-effort: if IndexedDB is unavailable every lookup simply misses.
+
+export const CONTENT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const CONTENT_CACHE_MAX_BYTES = 50 * 1024 * 1024; // 50MB, illustrations take most of it
+
+const DB_NAME = 'ai-tutor-content-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'content';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("이 브라우저는 IndexedDB를 지원하지 않습니다."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry instead of caching the failure forever.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T,>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const buildKey = (descriptor: ContentCacheDescriptor) =>
+    [descriptor.kind, descriptor.subjectName, descriptor.standardId, `v${PROMPT_VERSION}`, descriptor.model, descriptor.audience].join('|');
+
+const isExpired = (entry: ContentCacheEntry, now: number) =>
+    entry.promptVersion !== PROMPT_VERSION || now - entry.createdAt > CONTENT_CACHE_TTL_MS;
+
+export const listCachedContent = async (): Promise<ContentCacheEntry[]> => {
+    try {
+        return await runRequest<ContentCacheEntry[]>('readonly', store => store.getAll());
+    } catch (error) {
+        console.warn("Content cache unavailable:", error);
+        return [];
+    }
+};
+
+export const deleteCachedContent = async (key: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(key));
+};
+
+export const clearContentCache = async (): Promise<void> => {
+    await runRequest('readwrite', store => store.clear());
+};
+
+// Drops expired entries, then evicts the least recently used ones until the cache fits the size cap.
+const pruneContentCache = async () => {
+    const now = Date.now();
+    const entries = await listCachedContent();
+    const live: ContentCacheEntry[] = [];
+    for (const entry of entries) {
+        if (isExpired(entry, now)) {
+            await deleteCachedContent(entry.key);
+        } else {
+            live.push(entry);
+        }
+    }
+
+    let totalSize = live.reduce((sum, entry) => sum + entry.size, 0);
+    live.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    for (const entry of live) {
+        if (totalSize <= CONTENT_CACHE_MAX_BYTES) break;
+        await deleteCachedContent(entry.key);
+        totalSize -= entry.size;
+    }
+};
+
+export const getCachedContent = async (descriptor: ContentCacheDescriptor): Promise<string | null> => {
+    try {
+        const key = buildKey(descriptor);
+        const entry = await runRequest<ContentCacheEntry | undefined>('readonly', store => store.get(key));
+        if (!entry) return null;
+        if (isExpired(entry, Date.now())) {
+            await deleteCachedContent(key);
+            return null;
+        }
+        await runRequest('readwrite', store => store.put({ ...entry, lastAccessedAt: Date.now() }));
+        return entry.value;
+    } catch (error) {
+        console.warn("Content cache read failed:", error);
+        return null;
+    }
+};
+
+export const putCachedContent = async (descriptor: ContentCacheDescriptor, value: string): Promise<void> => {
+    try {
+        const now = Date.now();
+        const entry: ContentCacheEntry = {
+            ...descriptor,
+            key: buildKey(descriptor),
+            promptVersion: PROMPT_VERSION,
+            value,
+            size: new Blob([value]).size,
+            createdAt: now,
+            lastAccessedAt: now,
+        };
+        await runRequest('readwrite', store => store.put(entry));
+        await pruneContentCache();
+    } catch (error) {
+        console.warn("Content cache write failed:", error);
+    }
+};
@@ -0,0 +1,250 @@
+import type { DiagramSpec, DiagramShape, DiagramPoint } from '../types.ts';
+import { evaluateConstantExpression } from './mathEquivalence.ts';
+
+// Geometry figures are written by the model in a small line-based language (in question JSON,
+// or as a ```diagram fenced block in markdown) and drawn by GeometryDiagram. One statement per
+// line; a line that can't be read is skipped so one mistake doesn't lose the whole figure.
+//
+//   view -1 7 -1 5            drawing range (optional; fitted to the figure otherwise)
+//   axes                      draw coordinate axes
+//   point A 0 0 [hidden]      named point; hidden points are not drawn or labelled
+//   segment A B [dashed]      also: line A B (extended both ways), ray A B
+//   polygon A B C [filled]
+//   circle O 3                radius as a number, or a point on the circle: circle O A
+//   ellipse O 4 3 [x|y]       semi-axes a, b; 'y' puts the major axis on the y-axis
+//   hyperbola O 3 2 [x|y]     x^2/a^2 - y^2/b^2 = 1 around O ('y' opens up and down)
+//   parabola V 2 [x|y]        y^2 = 4px with vertex V ('y' for x^2 = 4py)
+//   angle B A C ["θ"] [right] angle BAC at vertex A
+//   vector A B ["a"]
+//   equal A B [2]             tick marks for equal lengths
+//   label A "text"
+//
+// Points can also be written inline as (x, y), and numbers as expressions like sqrt(3).
+
+export const DIAGRAM_FENCE_LANGUAGE = 'diagram';
+
+const MAX_STATEMENTS = 60;
+const PADDING_RATIO = 0.15;
+
+// Splits a line on whitespace, keeping "quoted text" and parenthesised groups together.
+const tokenize = (line: string): string[] => {
+    const tokens: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quoted = false;
+    for (const char of line) {
+        if (quoted) {
+            current += char;
+            if (char === '"') quoted = false;
+        } else if (char === '"') {
+            current += char;
+            quoted = true;
+        } else if (char === '(') {
+            depth++;
+            current += char;
+        } else if (char === ')') {
+            depth = Math.max(0, depth - 1);
+            current += char;
+        } else if (/\s/.test(char) && depth === 0) {
+            if (current) tokens.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current) tokens.push(current);
+    return tokens;
+};
+
+const isQuoted = (token: string) => token.length >= 2 && token.startsWith('"') && token.endsWith('"');
+
+class DiagramSyntaxError extends Error {}
+
+// Reads one statement's arguments in order, resolving point names against those defined so far.
+class StatementReader {
+    private index = 0;
+
+    constructor(private readonly args: string[], private readonly points: Map<string, DiagramPoint>) {}
+
+    number(): number {
+        const token = this.args[this.index++];
+        const value = token === undefined ? null : evaluateConstantExpression(token);
+        if (value === null) throw new DiagramSyntaxError(`number expected, got "${token}"`);
+        return value;
+    }
+
+    point(): DiagramPoint {
+        const token = this.args[this.index++];
+        if (token === undefined) throw new DiagramSyntaxError('point expected');
+        const named = this.points.get(token);
+        if (named) return named;
+        const match = token.match(/^\((.+),(.+)\)$/);
+        const x = match ? evaluateConstantExpression(match[1]) : null;
+        const y = match ? evaluateConstantExpression(match[2]) : null;
+        if (x === null || y === null) throw new DiagramSyntaxError(`unknown point "${token}"`);
+        return [x, y];
+    }
+
+    // A radius given directly, or as a point on the circle.
+    distanceFrom(center: DiagramPoint): number {
+        const token = this.args[this.index];
+        if (token !== undefined && (this.points.has(token) || token.startsWith('('))) {
+            const [x, y] = this.point();
+            return Math.hypot(x - center[0], y - center[1]);
+        }
+        return this.number();
+    }
+
+    hasMore(): boolean {
+        return this.index < this.args.length && !this.isOption(this.args[this.index]);
+    }
+
+    // Trailing words and quoted text may come in any order after the positional arguments.
+    flag(name: string): boolean {
+        return this.args.slice(this.index).includes(name);
+    }
+
+    text(): string | undefined {
+        const token = this.args.slice(this.index).find(isQuoted);
+        return token ? token.slice(1, -1).trim() || undefined : undefined;
+    }
+
+    axis(): 'x' | 'y' {
+        return this.flag('y') ? 'y' : 'x';
+    }
+
+    integer(fallback: number): number {
+        const token = this.args.slice(this.index).find(arg => /^\d+$/.test(arg));
+        return token ? Number(token) : fallback;
+    }
+
+    private isOption(token: string) {
+        return isQuoted(token) || ['dashed', 'filled', 'hidden', 'right', 'x', 'y'].includes(token);
+    }
+}
+
+const parseShape = (keyword: string, read: StatementReader): DiagramShape | null => {
+    const dashed = read.flag('dashed') || undefined;
+    switch (keyword) {
+        case 'segment':
+        case 'line':
+        case 'ray':
+            return { kind: keyword, from: read.point(), to: read.point(), dashed };
+        case 'polygon': {
+            const vertices: DiagramPoint[] = [];
+            while (read.hasMore()) vertices.push(read.point());
+            if (vertices.length < 3) throw new DiagramSyntaxError('polygon needs at least 3 vertices');
+            return { kind: 'polygon', vertices, dashed, filled: read.flag('filled') || undefined };
+        }
+        case 'circle': {
+            const center = read.point();
+            const radius = read.distanceFrom(center);
+            if (radius <= 0) throw new DiagramSyntaxError('radius must be positive');
+            return { kind: 'circle', center, radius, dashed };
+        }
+        case 'ellipse':
+        case 'hyperbola': {
+            const center = read.point();
+            const a = read.number();
+            const b = read.number();
+            if (a <= 0 || b <= 0) throw new DiagramSyntaxError('a and b must be positive');
+            return { kind: keyword, center, a, b, axis: read.axis(), dashed };
+        }
+        case 'parabola': {
+            const vertex = read.point();
+            const p = read.number();
+            if (p === 0) throw new DiagramSyntaxError('p must not be 0');
+            return { kind: 'parabola', vertex, p, axis: read.axis(), dashed };
+        }
+        case 'angle': {
+            const from = read.point();
+            const vertex = read.point();
+            const to = read.point();
+            return { kind: 'angle', vertex, from, to, label: read.text(), right: read.flag('right') || undefined };
+        }
+        case 'vector':
+            return { kind: 'vector', from: read.point(), to: read.point(), label: read.text() };
+        case 'equal':
+            return { kind: 'equal', from: read.point(), to: read.point(), marks: Math.min(3, Math.max(1, read.integer(1))) };
+        case 'label': {
+            const at = read.point();
+            const text = read.text();
+            return text ? { kind: 'label', at, text } : null;
+        }
+        default:
+            throw new DiagramSyntaxError(`unknown statement "${keyword}"`);
+    }
+};
+
+// Bounding box of everything drawn, used when the source has no `view` line.
+const fitView = (spec: Pick<DiagramSpec, 'points' | 'shapes'>) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    const include = ([x, y]: DiagramPoint, rx = 0, ry = rx) => {
+        xs.push(x - rx, x + rx);
+        ys.push(y - ry, y + ry);
+    };
+    spec.points.forEach(point => include(point.at));
+    spec.shapes.forEach(shape => {
+        switch (shape.kind) {
+            case 'polygon': shape.vertices.forEach(vertex => include(vertex)); break;
+            case 'circle': include(shape.center, shape.radius); break;
+            case 'ellipse': include(shape.center, shape.axis === 'x' ? shape.a : shape.b, shape.axis === 'x' ? shape.b : shape.a); break;
+            case 'hyperbola': include(shape.center, 2.5 * Math.max(shape.a, shape.b)); break;
+            case 'parabola': include(shape.vertex, 4 * Math.abs(shape.p)); break;
+            case 'angle': include(shape.vertex); break;
+            case 'label': include(shape.at); break;
+            default: include(shape.from); include(shape.to);
+        }
+    });
+    if (xs.length === 0) return null;
+    const pad = (min: number, max: number): [number, number] => {
+        const margin = Math.max(max - min, 1) * PADDING_RATIO;
+        return [min - margin, max + margin];
+    };
+    const [xMin, xMax] = pad(Math.min(...xs), Math.max(...xs));
+    const [yMin, yMax] = pad(Math.min(...ys), Math.max(...ys));
+    return { xMin, xMax, yMin, yMax };
+};
+
+// Parses diagram source. Returns null when nothing in it can be drawn.
+export const parseDiagram = (source: string): DiagramSpec | null => {
+    if (typeof source !== 'string') return null;
+    const named = new Map<string, DiagramPoint>();
+    const points: DiagramSpec['points'] = [];
+    const shapes: DiagramShape[] = [];
+    let view: { xMin: number; xMax: number; yMin: number; yMax: number } | null = null;
+    let axes = false;
+
+    const lines = source.split('\n').map(line => line.replace(/#.*$/, '').trim()).filter(Boolean).slice(0, MAX_STATEMENTS);
+    for (const line of lines) {
+        const [keyword, ...args] = tokenize(line);
+        const read = new StatementReader(args, named);
+        try {
+            if (keyword === 'axes') {
+                axes = true;
+            } else if (keyword === 'view') {
+                const [xMin, xMax, yMin, yMax] = [read.number(), read.number(), read.number(), read.number()];
+                if (xMin < xMax && yMin < yMax) view = { xMin, xMax, yMin, yMax };
+            } else if (keyword === 'point') {
+                const name = args[0];
+                if (!name || !/^[^\s()"]+$/.test(name)) continue;
+                const coordinates = new StatementReader(args.slice(1), named);
+                const at: DiagramPoint = args[1]?.startsWith('(') ? coordinates.point() : [coordinates.number(), coordinates.number()];
+                named.set(name, at);
+                points.push({ name, at, hidden: args.includes('hidden') || undefined });
+            } else {
+                const shape = parseShape(keyword, read);
+                if (shape) shapes.push(shape);
+            }
+        } catch (error) {
+            if (!(error instanceof DiagramSyntaxError)) throw error;
+        }
+    }
+
+    const visiblePoints = points.filter(point => !point.hidden);
+    if (shapes.length === 0 && visiblePoints.length === 0) return null;
+    const range = view ?? fitView({ points, shapes });
+    if (!range) return null;
+    return { ...range, axes, points, shapes };
+};
@@ -1,28 +1,33 @@
+import type { QuizQuestion, TTSVoice, QuestionType, ConversationMessage, ShortAnswerEvaluation, QuizResult, AiSettings, GeneratedQuiz, QuizValidationReport, TutoringMode, StuckPoint, ConversationMemory, LearnerProfile, MisconceptionTag, MisconceptionType, AchievementStandard, PrerequisiteSuggestion } from '../types.ts';
+import { createAiProvider, setActiveAiProvider, getActiveAiProvider, isAbortError, AiStreamChunk, AiImageInput, JsonSchema } from './aiProvider.ts';
+import { normalizeQuestion, findQuestionProblems, solvedAnswerAgrees } from './quizValidation.ts';
+import { withRequestScheduler, isQuotaError } from './requestScheduler.ts';
+import { UsageBudgetExceededError } from './usageLedger.ts';
+import { gradeShortAnswerLocally } from './mathEquivalence.ts';
+import { getLearnerProfile, describeLearner, learnerNoun, buildLearnerPrompt } from './learnerProfile.ts';
+import { PLOT_SPEC_SCHEMA, PLOT_FENCE_LANGUAGE } from './plotSpec.ts';
+import { DIAGRAM_FENCE_LANGUAGE } from './diagramSpec.ts';
+import { createJsonArrayReader } from './jsonStream.ts';
+import { findClassifiableMistakes, countMisconceptions } from './studyHistory.ts';
+import { findStandardLocation, prerequisiteCandidates } from './prerequisites.ts';
+import { MAX_HINTS_PER_QUESTION, SOCRATIC_ATTEMPTS_BEFORE_ANSWER, CONVERSATION_RECENT_MESSAGES, CONVERSATION_SUMMARY_BATCH, MISCONCEPTION_OPTIONS, MAX_PREREQUISITE_SUGGESTIONS } from '../constants.ts';
 
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from '@google/genai';
-import type { QuizQuestion, TTSVoice, QuestionType, ConversationMessage, ShortAnswerEvaluation, QuizResult } from '../types.ts';
-
-let ai: GoogleGenAI | null = null;
-
-export const initializeAi = (apiKey: string) => {
-    if (!apiKey) {
-        throw new Error("API 키가 제공되지 않았습니다.");
+const handleApiError = (error: unknown): never => {
+    // Cancellation is not a failure; let the caller recognise it.
+    if (isAbortError(error)) {
+        throw error;
     }
-    ai = new GoogleGenAI({ apiKey });
-};
-
-const getAi = (): GoogleGenAI => {
-    if (!ai) {
-        throw new Error("AI 서비스가 초기화되지 않았습니다. API 키를 먼저 설정해주세요.");
+    console.error("AI API Error:", error);
+    if (error instanceof UsageBudgetExceededError) {
+        throw error;
     }
-    return ai;
-};
-
-const handleApiError = (error: unknown): never => {
-    console.error("Gemini API Error:", error);
     if (error instanceof Error && (error.message.includes("API key not valid") || error.message.includes("Requested entity was not found."))) {
         throw new Error("API 키가 유효하지 않습니다. 올바른 키로 다시 설정해주세요.");
     }
+
+    if (isQuotaError(error)) {
+        throw new Error("AI 사용량 한도에 도달했습니다. 잠시 후 다시 시도해주세요.");
+    }
     
     if (typeof window !== 'undefined' && window.location.protocol === 'file:') {
         throw new Error("AI 모델 통신 오류: 파일을 직접 열어 실행하는 경우 브라우저 보안 정책으로 인해 AI 기능이 작동하지 않을 수 있습니다. 로컬 개발 서버를 통해 접속해주세요.");
@@ -31,55 +36,37 @@ const handleApiError = (error: unknown): never => {
     throw new Error("AI 모델과 통신 중 오류가 발생했습니다. 네트워크 연결을 확인하거나 잠시 후 다시 시도해주세요.");
 };
 
-export const validateApiKey = async (apiKey: string): Promise<void> => {
-    if (!apiKey) {
+// Bump when the explanation, summary or illustration prompts change so that
+// content cached with the old prompts is no longer served.
+export const PROMPT_VERSION = 4;
+
+// Builds the provider chosen in settings, checks that it is reachable and routes every call in this module to it.
+export const connectAiProvider = async (settings: AiSettings, geminiApiKey: string): Promise<void> => {
+    if (settings.provider === 'gemini' && !geminiApiKey) {
         throw new Error("API 키를 입력해주세요.");
     }
-    try {
-        const tempAi = new GoogleGenAI({ apiKey });
-        // Use a very simple, low-cost call to validate the key
-        await tempAi.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: 'hello',
-        });
-        // If successful, it returns void.
-    } catch (error) {
-        console.error("API Key validation failed:", error);
-        if (error instanceof Error && (error.message.includes("API key not valid") || error.message.includes("Requested entity was not found."))) {
-            throw new Error("API 키가 유효하지 않습니다. Google AI Studio에서 발급받은 정확한 키인지 확인해주세요.");
-        }
-        throw new Error("키를 확인하는 중 오류가 발생했습니다. 네트워크 연결을 확인해주세요.");
-    }
+    const provider = createAiProvider(settings, geminiApiKey);
+    await provider.validate();
+    setActiveAiProvider(withRequestScheduler(provider));
+};
+
+export const getActiveModelNames = (): { text: string; image: string } => {
+    const provider = getActiveAiProvider();
+    return { text: `${provider.id}:${provider.textModel}`, image: `${provider.id}:${provider.imageModel}` };
 };
 
-export const generateIllustration = async (prompt: string): Promise<string | null> => {
+export const generateIllustration = async (prompt: string, signal?: AbortSignal): Promise<string | null> => {
     try {
-        const aiInstance = getAi();
-        const imagePrompt = `**[Strict Visual Rule]** This image must be purely visual. Do NOT include any text, numbers, labels, or symbols. Style: Friendly, colorful, and clear educational illustration suitable for a middle school textbook. It should visually explain the following concept to help a student understand: ${prompt}.`;
-        
-        // Switched from imagen-4.0-generate-001 to gemini-2.5-flash-image to optimize quota usage and follow guidelines.
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: imagePrompt }] },
-            config: {
-                imageConfig: {
-                    aspectRatio: "1:1",
-                },
-            },
-        });
+        const schoolLevel = getLearnerProfile().schoolLevel === 'high' ? 'high school' : 'middle school';
+        const imagePrompt = `**[Strict Visual Rule]** This image must be purely visual. Do NOT include any text, numbers, labels, or symbols. Style: Friendly, colorful, and clear educational illustration suitable for a ${schoolLevel} textbook. It should visually explain the following concept to help a student understand: ${prompt}.`;
 
-        if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    return part.inlineData.data;
-                }
-            }
-        }
-        return null;
+        return await getActiveAiProvider().generateImage(imagePrompt, signal);
     } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
         // Suppress 429 errors to avoid console noise for optional features
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        if (errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
+        if (isQuotaError(error)) {
             console.warn("Image generation quota exceeded. Illustration skipped.");
             return null;
         }
@@ -101,55 +88,95 @@ const MATH_RULE_PROMPT = `
 5. **JSON 출력 시**: 백슬래시(\\)는 반드시 이스케이프(\\\\)해야 합니다. (예: "\\frac" -> "\\\\frac")
 `;
 
-export const getExplanationStream = async (subjectName: string, standardDescription: string): Promise<AsyncGenerator<GenerateContentResponse>> => {
+// Graphs in markdown answers are drawn by the app from a ```plot block instead of an image.
+const PLOT_FENCE_PROMPT = `
+**[그래프 표기]**
+함수의 그래프를 보여주면 이해에 도움이 될 때는 그림을 묘사하지 말고, 아래처럼 \`\`\`${PLOT_FENCE_LANGUAGE} 코드 블록에 JSON으로 그래프 명세를 작성하세요. 앱이 정확한 그래프로 그려줍니다.
+\`\`\`${PLOT_FENCE_LANGUAGE}
+{"xMin": -3, "xMax": 3, "yMin": -2, "yMax": 8, "functions": [{"expression": "x^2 - 1", "label": "y=x^2-1"}], "points": [{"x": 1, "y": 0, "label": "(1, 0)"}]}
+\`\`\`
+- expression은 LaTeX가 아닌 x에 대한 일반 식으로 쓰세요. (예: "2^x", "ln(x)/ln(2)", "sin(2x)", "1/(x-1)")
+- 필요하면 "asymptotes": [{"orientation": "vertical", "value": 1}], "shadedRegions": [{"upper": "x^2", "lower": "0", "from": 0, "to": 1}], 삼각함수는 "piTicks": true 를 쓰세요.
+`;
+
+// Geometry figures are written in the app's diagram language; the same rules serve the
+// question JSON field and the ```diagram block in markdown answers.
+const DIAGRAM_LANGUAGE_PROMPT = `
+한 줄에 명령 하나씩 씁니다. 점은 먼저 point로 정의하고 이름으로 참조하며, (x, y)처럼 직접 써도 됩니다. 수는 sqrt(3), 2cos(pi/3)처럼 식으로 써도 됩니다.
+- view xMin xMax yMin yMax (생략하면 자동), axes (좌표축 표시)
+- point A 0 0 [hidden]
+- segment A B [dashed] / line A B (직선) / ray A B (반직선) / polygon A B C [filled]
+- circle O 3 또는 circle O A (A를 지나는 원)
+- ellipse O a b [x|y] / hyperbola O a b [x|y] / parabola V p [x|y] (y^2=4px, y를 쓰면 x^2=4py)
+- angle B A C ["θ"] [right] (꼭짓점 A인 각 BAC, right는 직각 표시)
+- vector A B ["a"] / equal A B [개수] (같은 길이 표시) / label A "글자"
+도형의 좌표는 문제의 조건(길이, 각, 평행, 수직)을 실제로 만족하도록 계산해서 쓰세요.
+`;
+
+// Figures in markdown answers are drawn by the app from a ```diagram block instead of an image.
+const DIAGRAM_FENCE_PROMPT = `
+**[도형 표기]**
+도형, 좌표평면 위의 원·이차곡선, 벡터를 그림으로 보여주면 이해에 도움이 될 때는 \`\`\`${DIAGRAM_FENCE_LANGUAGE} 코드 블록에 아래 도형 언어로 작성하세요. 앱이 정확한 그림으로 그려줍니다.
+\`\`\`${DIAGRAM_FENCE_LANGUAGE}
+point A 0 0
+point B 4 0
+point C 0 3
+polygon A B C
+angle B A C right
+\`\`\`
+${DIAGRAM_LANGUAGE_PROMPT}`;
+
+export const getExplanationStream = async (subjectName: string, standardDescription: string, signal?: AbortSignal): Promise<AsyncGenerator<AiStreamChunk>> => {
     try {
+        const profile = getLearnerProfile();
+        const learner = learnerNoun(profile);
         let systemInstruction = '';
         let userPrompt = '';
 
         if (subjectName === '영어') {
             systemInstruction = `
-            당신은 한국 중학생들을 위한 친절하고 유능한 영어 AI 튜터입니다.
+            당신은 한국 ${learner}들을 위한 친절하고 유능한 영어 AI 튜터입니다.
             학생들이 핵심 개념을 **쉽고 재미있게** 이해할 수 있도록 도와주세요.
-            
+            ${buildLearnerPrompt(profile)}
             **작성 지침:**
             1. **구조화된 설명**: **1. 핵심 개념**, **2. 주요 표현/문법**, **3. 예문** 과 같이 번호를 매겨 정리하세요.
-            2. **중학생 눈높이**: 어려운 용어는 쉽게 풀어서 설명하고, 친근한 어조("~해요", "~랍니다")를 사용하세요.
+            2. **${learner} 눈높이**: 어려운 용어는 쉽게 풀어서 설명하고, 친근한 어조("~해요", "~랍니다")를 사용하세요.
             3. **풍부한 예시**: 문법이나 표현을 설명할 때 실제 원어민이 사용하는 자연스러운 영어 문장 예시를 많이 들어주세요.
             4. **핵심 요약**: 400자 내외로 핵심 내용을 명확하게 전달하세요.
             `;
-            userPrompt = `다음 영어과 성취기준의 핵심 개념을 중학생들이 이해하기 쉽게 개요 형식으로 설명해주세요.\n성취기준: "${standardDescription}"`;
+            userPrompt = `다음 영어과 성취기준의 핵심 개념을 ${learner}들이 이해하기 쉽게 개요 형식으로 설명해주세요.\n성취기준: "${standardDescription}"`;
         } else {
             systemInstruction = `
-            당신은 한국의 중학생들을 위한 친절하고 유능한 AI 튜터입니다.
+            당신은 한국의 ${learner}들을 위한 친절하고 유능한 AI 튜터입니다.
             학생들이 성취기준을 **쉽고 재미있게** 이해할 수 있도록 도와주세요.
 
             ${MATH_RULE_PROMPT}
+            ${buildLearnerPrompt(profile)}
 
             **작성 지침:**
             1. **구조화된 개요 형식**: 줄글로 길게 늘어놓지 말고, **1. 개념 정의**, **2. 주요 특징/원리**, **3. 실생활 예시** 와 같이 번호를 매겨 구조화하세요.
-            2. **중학생 눈높이**: 어려운 전문 용어 대신 쉬운 단어를 사용하고, 개념을 직관적으로 이해할 수 있도록 설명하세요.
+            2. **${learner} 눈높이**: 학습자 정보에 맞는 수준의 용어를 사용하고, 개념을 직관적으로 이해할 수 있도록 설명하세요.
             3. **수식 강조**: 수학/과학 공식은 **블록 수식($$ ... $$)**을 사용하여 눈에 잘 띄게 표현하세요. 간단한 변수명도 인라인 수식(\`$x$\`)으로 감싸세요.
             4. **친근한 어조**: 선생님이 정리해주는 것처럼 다정하고 격려하는 어조("~해요", "~랍니다")를 사용하세요.
+            5. **그래프와 도형**: 함수 단원이라면 대표적인 그래프를, 도형·기하·벡터 단원이라면 대표적인 그림을 하나 이상 보여주세요.
+            ${PLOT_FENCE_PROMPT}
+            ${DIAGRAM_FENCE_PROMPT}
             `;
             userPrompt = `다음 성취기준에 대해 설명해주세요.\n성취기준: "${standardDescription}"`;
         }
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContentStream({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-            }
+        return await getActiveAiProvider().generateTextStream({
+            prompt: userPrompt,
+            systemInstruction: systemInstruction,
+            context: { feature: 'explanation', subjectName, standardDescription },
+            signal,
         });
-        
-        return response;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const generateSummary = async (text: string): Promise<string> => {
+export const generateSummary = async (text: string, signal?: AbortSignal): Promise<string> => {
     try {
         // Summary uses a fresh call, so we inject Math rules in system instruction here too.
         const systemInstruction = `
@@ -158,95 +185,193 @@ export const generateSummary = async (text: string): Promise<string> => {
         `;
         
         const userPrompt = `
-        위 내용을 중학생이 한눈에 알아볼 수 있도록 3~7줄 내외의 글머리 기호(Bullet points)로 핵심만 요약해줘.
+        위 내용을 ${learnerNoun(getLearnerProfile())}이 한눈에 알아볼 수 있도록 3~7줄 내외의 글머리 기호(Bullet points)로 핵심만 요약해줘.
         
         ---
         ${text}
         `;
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-            }
+        const summary = await getActiveAiProvider().generateText({
+            prompt: userPrompt,
+            systemInstruction: systemInstruction,
+            context: { feature: 'summary' },
+            signal,
         });
 
-        return response.text || "요약을 생성할 수 없습니다.";
+        return summary || "요약을 생성할 수 없습니다.";
     } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
         console.error("Summary generation error:", error);
         throw new Error("요약 생성 중 오류가 발생했습니다.");
     }
 };
 
-export const generateConceptSummary = async (subjectName: string, standardDescription: string): Promise<string> => {
+export const generateConceptSummary = async (subjectName: string, standardDescription: string, signal?: AbortSignal): Promise<string> => {
     try {
+        const profile = getLearnerProfile();
+        const learner = learnerNoun(profile);
         let systemInstruction = '';
         if (subjectName === '영어') {
             systemInstruction = `
-            당신은 한국 중학생들을 위한 친절하고 유능한 영어 AI 튜터입니다.
+            당신은 한국 ${learner}들을 위한 친절하고 유능한 영어 AI 튜터입니다.
             학생들이 성취기준의 핵심 내용을 쉽고 명확하게 파악할 수 있도록 도와주세요.
             `;
         } else {
             systemInstruction = `
             당신은 ${subjectName} 교과 전문가입니다.
             ${MATH_RULE_PROMPT}
+            ${buildLearnerPrompt(profile)}
             `;
         }
         
         const userPrompt = `
-        다음 성취기준에 대한 핵심 내용을 중학생이 이해하기 쉽게 3~5줄 내외의 글머리 기호(Bullet points)로 요약해줘.
+        다음 성취기준에 대한 핵심 내용을 ${learner}이 이해하기 쉽게 3~5줄 내외의 글머리 기호(Bullet points)로 요약해줘.
         설명보다는 핵심 개념 정의와 원리 위주로 정리해줘.
         
         성취기준: "${standardDescription}"
         `;
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-            }
+        const text = await getActiveAiProvider().generateText({
+            prompt: userPrompt,
+            systemInstruction: systemInstruction,
+            context: { feature: 'summary', subjectName, standardDescription },
+            signal,
         });
 
-        return response.text || "요약을 생성할 수 없습니다.";
+        return text || "요약을 생성할 수 없습니다.";
     } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
         console.error("Concept summary generation error:", error);
         return "";
     }
 };
 
+// Where the student is in the current Q&A exchange; attempt counts their replies since it opened.
+export interface TutoringTurn {
+    mode: TutoringMode;
+    attempt: number;
+}
+
+// Socratic replies end with machine-readable markers that the UI strips before display.
+const STUCK_MARKER = /\[\[막힘:\s*([^\]]*)\]\]/;
+const RESOLVED_MARKER = /\[\[해결\]\]/;
+
+export const parseSocraticReply = (text: string): { text: string; stuckNote: string | null; resolved: boolean } => {
+    const stuck = text.match(STUCK_MARKER);
+    const cleaned = text
+        .replace(new RegExp(STUCK_MARKER.source, 'g'), '')
+        .replace(new RegExp(RESOLVED_MARKER.source, 'g'), '')
+        .replace(/\[\[[^\n]*$|\[$/, '') // A marker that is still streaming in
+        .trimEnd();
+    return { text: cleaned, stuckNote: stuck ? stuck[1].trim() || null : null, resolved: RESOLVED_MARKER.test(text) };
+};
+
+const buildSocraticPrompt = (attempt: number) => {
+    const mustAnswer = attempt >= SOCRATIC_ATTEMPTS_BEFORE_ANSWER;
+    return `
+            **[소크라테스식 지도 모드]**
+            - 답이나 풀이를 바로 알려주지 말고, 학생이 스스로 다음 단계를 떠올릴 수 있도록 안내 질문을 한 번에 하나만 하세요.
+            - 학생이 대답하면 그 대답이 맞는지 먼저 확인하고(맞으면 칭찬, 틀리면 어느 부분이 어긋났는지 짚기), 다음 안내 질문으로 이어가세요.
+            - 지금까지 이 질문에 대한 학생의 시도: ${attempt}회 (최대 ${SOCRATIC_ATTEMPTS_BEFORE_ANSWER}회)
+            ${mustAnswer
+                ? '- 시도 횟수를 모두 사용했습니다. 이번에는 정답과 풀이를 친절하게 모두 설명하세요.'
+                : '- 학생이 스스로 답에 도달하기 전까지는 정답을 말하지 마세요.'}
+            - 학생의 대답이 틀렸거나 막혔다면, 답변 맨 끝에 [[막힘: 학생이 막힌 지점을 한 문장으로]] 을 붙이세요.
+            - 학생이 답에 도달했거나 당신이 정답을 알려주었다면, 답변 맨 끝에 [[해결]] 을 붙이세요.
+    `;
+};
+
+export const EMPTY_CONVERSATION_MEMORY: ConversationMemory = { summary: '', summarizedCount: 0 };
+
+// Folds older Q&A turns into the running summary once enough of them pile up beyond the
+// recent window. Returns the memory unchanged when there is nothing to fold or summarizing fails.
+export const updateConversationMemory = async (
+    memory: ConversationMemory,
+    conversation: ConversationMessage[],
+    signal?: AbortSignal
+): Promise<ConversationMemory> => {
+    // Keep the cut on a question/answer boundary so the verbatim part starts with a student turn.
+    let cutoff = Math.max(0, conversation.length - CONVERSATION_RECENT_MESSAGES);
+    while (cutoff > memory.summarizedCount && conversation[cutoff]?.role !== 'user') cutoff--;
+    if (cutoff - memory.summarizedCount < CONVERSATION_SUMMARY_BATCH) {
+        return memory;
+    }
+
+    const turnsText = conversation
+        .slice(memory.summarizedCount, cutoff)
+        .map(msg => `${msg.role === 'user' ? '학생' : 'AI 튜터'}: ${msg.text}`)
+        .join('\n');
+    try {
+        const summary = await getActiveAiProvider().generateText({
+            prompt: `
+            --- 지금까지의 요약 ---
+            ${memory.summary || '(없음)'}
+            --------------------
+
+            --- 새로 요약할 대화 ---
+            ${turnsText}
+            --------------------
+
+            위 요약에 새 대화 내용을 합쳐, 튜터가 이후 대화를 이어가는 데 필요한 내용만 10줄 이내의 글머리 기호로 다시 정리하세요.
+            학생이 한 질문, 튜터가 설명한 핵심, 학생이 헷갈려 한 부분, 아직 해결되지 않은 질문을 빠뜨리지 마세요.
+            `,
+            systemInstruction: `당신은 학습 대화를 간결하게 기록하는 조교입니다.\n${MATH_RULE_PROMPT}`,
+            disableThinking: true,
+            context: { feature: 'memory' },
+            signal,
+        });
+        return summary.trim() ? { summary: summary.trim(), summarizedCount: cutoff } : memory;
+    } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
+        console.error("Conversation memory update error:", error);
+        return memory;
+    }
+};
+
 export const getFollowUpAnswerStream = async (
     subjectName: string,
     standardDescription: string,
     initialExplanation: string,
-    conversationHistory: ConversationMessage[],
-    userQuestion: string
-): Promise<AsyncGenerator<GenerateContentResponse>> => {
+    memory: ConversationMemory,
+    conversation: ConversationMessage[],
+    userQuestion: string,
+    tutoring: TutoringTurn = { mode: 'direct', attempt: 0 },
+    signal?: AbortSignal
+): Promise<AsyncGenerator<AiStreamChunk>> => {
     try {
-        const historyText = conversationHistory
-            .map(msg => `${msg.role === 'user' ? '학생' : 'AI 튜터'}: ${msg.text}`)
-            .join('\n');
-
+        const profile = getLearnerProfile();
+        const learner = learnerNoun(profile);
         let systemInstruction = '';
         
         if (subjectName === '영어') {
             systemInstruction = `
-            당신은 한국 중학생들을 위한 친절하고 유능한 영어 AI 튜터입니다. 
-            학생의 질문에 대해 중학생 눈높이에 맞춰 쉽고 친절하게 답변해주세요.
+            당신은 한국 ${learner}들을 위한 친절하고 유능한 영어 AI 튜터입니다. 
+            학생의 질문에 대해 ${learner} 눈높이에 맞춰 쉽고 친절하게 답변해주세요.
             문법, 어휘, 표현 등을 설명할 때는 친근한 태도를 유지하세요.
+            ${buildLearnerPrompt(profile)}
             `;
         } else {
             systemInstruction = `
-            당신은 한국의 중학생들을 위한 친절하고 유능한 AI 튜터입니다.
-            학생의 질문에 대해 중학생 눈높이에 맞춰 쉽고 친절하게 답변해주세요. 이해를 돕기 위해 비유나 예시를 활용하면 좋습니다.
+            당신은 한국의 ${learner}들을 위한 친절하고 유능한 AI 튜터입니다.
+            학생의 질문에 대해 ${learner} 눈높이에 맞춰 쉽고 친절하게 답변해주세요. 이해를 돕기 위해 비유나 예시를 활용하면 좋습니다.
             ${MATH_RULE_PROMPT}
+            ${PLOT_FENCE_PROMPT}
+            ${DIAGRAM_FENCE_PROMPT}
+            ${buildLearnerPrompt(profile)}
             `;
         }
+        if (tutoring.mode === 'socratic') {
+            systemInstruction += buildSocraticPrompt(tutoring.attempt);
+        }
 
-        const userPrompt = `
+        // Lesson context goes in the system instruction; the chat itself is sent as real turns.
+        systemInstruction += `
             학생은 현재 다음 성취기준에 대해 학습하고 있습니다:
             "${standardDescription}"
 
@@ -254,48 +379,388 @@ export const getFollowUpAnswerStream = async (
             --- 초기 설명 ---
             ${initialExplanation}
             --------------------
-
-            지금까지 학생과의 대화 내용은 다음과 같습니다:
-            --- 대화 기록 ---
-            ${historyText}
-            --------------------
-
-            학생이 다음과 같은 새로운 질문을 했습니다.
-            학생의 질문: "${userQuestion}"
         `;
+        if (memory.summary) {
+            systemInstruction += `
+            이 대화의 앞부분은 다음과 같이 요약되어 있습니다:
+            --- 이전 대화 요약 ---
+            ${memory.summary}
+            --------------------
+            `;
+        }
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContentStream({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-            }
+        return await getActiveAiProvider().generateTextStream({
+            prompt: userQuestion,
+            systemInstruction: systemInstruction,
+            history: conversation.slice(memory.summarizedCount),
+            context: { feature: 'follow-up', subjectName, standardDescription },
+            signal,
         });
-
-        return response;
     } catch (error) {
         handleApiError(error);
     }
 };
 
 
+type GeneratedQuestion = QuizQuestion & { imagePrompt?: string };
+
+const buildQuestionListSchema = (subjectName: string): JsonSchema => {
+    const requiredFields = ["question", "questionType", "answer", "explanation"];
+    if (subjectName === '영어') {
+        requiredFields.push("questionTranslation", "answerTranslation", "explanationTranslation");
+    } else {
+        requiredFields.push("solutionSteps");
+    }
+
+    return {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                question: { type: 'string' },
+                questionTranslation: { type: 'string', description: "Korean translation of the question (Required for English subject)" },
+                passage: { 
+                    type: 'string',
+                    description: "The reading passage or listening script context. Required for reading/listening tasks."
+                },
+                passageTranslation: { type: 'string', description: "Korean translation of the passage (if subject is English)" },
+                questionType: { 
+                    type: 'string',
+                    description: "Must be exactly one of: 'multiple-choice', 'short-answer', 'ox', 'creativity'"
+                },
+                options: {
+                    type: 'array',
+                    items: { type: 'string' },
+                },
+                optionsTranslation: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: "Korean translations of the options (if subject is English)"
+                },
+                answer: { type: 'string', description: "Correct answer or model answer key for creativity questions." },
+                answerTranslation: { type: 'string', description: "Korean translation of the answer (if subject is English)" },
+                explanation: { type: 'string' },
+                explanationTranslation: { type: 'string', description: "Korean translation of the explanation (if subject is English)" },
+                solutionSteps: {
+                    type: 'array',
+                    description: "Ordered worked solution. Empty for creativity questions.",
+                    items: {
+                        type: 'object',
+                        properties: {
+                            latex: { type: 'string', description: "The math of this step in LaTeX, without $ delimiters" },
+                            justification: { type: 'string', description: "One short sentence on why this step follows" },
+                        },
+                        required: ["latex", "justification"],
+                    },
+                },
+                points: { type: 'integer', description: "배점 as in 수능: 2, 3 or 4" },
+                plot: PLOT_SPEC_SCHEMA,
+                diagram: {
+                    type: 'string',
+                    description: "Geometry figure in the app's diagram language, one statement per line. Empty if not needed.",
+                },
+                imagePrompt: { 
+                    type: 'string',
+                    description: 'Concise English prompt for image generation. Empty if not needed.'
+                },
+            },
+            required: requiredFields,
+        },
+    };
+};
+
+interface CheckedQuestion {
+    question: GeneratedQuestion;
+    problems: string[];
+}
+
+const checkGeneratedQuestion = (question: GeneratedQuestion, subjectName: string): CheckedQuestion => {
+    const normalized = normalizeQuestion(question) as GeneratedQuestion;
+    return { question: normalized, problems: findQuestionProblems(normalized, subjectName === '영어') };
+};
+
+// Asks the model once to fix the questions that failed validation (telling it exactly what is
+// wrong). Returns the fixed question, or null where it is still invalid, in the input order.
+const repairQuestions = async (
+    invalid: CheckedQuestion[],
+    subjectName: string,
+    standardDescription: string,
+    systemInstruction: string,
+    signal?: AbortSignal
+): Promise<(GeneratedQuestion | null)[]> => {
+    const itemsText = invalid
+        .map((item, i) => `${i + 1}. 문제 JSON: ${JSON.stringify(item.question)}\n   오류: ${item.problems.join('; ')}`)
+        .join('\n');
+    const repairPrompt = `
+        성취기준: "${standardDescription}"
+
+        아래 문제들은 형식 검사를 통과하지 못했습니다. 각 문제의 내용과 의도는 유지하면서 지적된 오류만 고쳐주세요.
+        - 객관식은 서로 다른 선택지가 정확히 5개여야 하며, answer는 선택지 중 하나와 글자 그대로 같아야 합니다.
+        - OX 문제의 answer는 "O" 또는 "X"여야 합니다.
+        - questionType은 'multiple-choice', 'short-answer', 'ox', 'creativity' 중 하나여야 합니다.
+        - 고친 문제를 입력과 같은 순서로, 같은 개수만큼 JSON 배열로 반환하세요.
+
+        ${itemsText}
+    `;
+
+    try {
+        const fixes = await getActiveAiProvider().generateJson<GeneratedQuestion[]>({
+            prompt: repairPrompt,
+            systemInstruction,
+            schema: buildQuestionListSchema(subjectName),
+            disableThinking: true,
+            context: {
+                feature: 'quiz',
+                subjectName,
+                standardDescription,
+                questionRequests: invalid.map(item => ({ type: item.question.questionType, count: 1 })),
+            },
+            signal,
+        });
+        return invalid.map((_, i) => {
+            const fix = Array.isArray(fixes) ? fixes[i] : undefined;
+            if (!fix) return null;
+            const checked = checkGeneratedQuestion(fix, subjectName);
+            return checked.problems.length === 0 ? checked.question : null;
+        });
+    } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
+        // A failed repair only costs the broken questions, not the whole quiz.
+        console.warn("Question repair failed:", error);
+        return invalid.map(() => null);
+    }
+};
+
+// Subjects whose questions have a single checkable answer worth re-solving.
+const VERIFIED_SUBJECTS = ['수학'];
+
+// Has the model solve every question again without the answer key and records whether its
+// answer agrees with the key. Disagreements are flagged on the question, not silently fixed,
+// since either side may be the one that is wrong.
+const verifyQuestionAnswers = async <Q extends QuizQuestion>(
+    questions: Q[],
+    subjectName: string,
+    standardDescription: string,
+    signal?: AbortSignal
+): Promise<Q[]> => {
+    const checkable = questions
+        .map((question, index) => ({ question, index }))
+        .filter(({ question }) => question.questionType !== 'creativity');
+    if (!VERIFIED_SUBJECTS.includes(subjectName) || checkable.length === 0) {
+        return questions;
+    }
+
+    const problemsText = checkable.map(({ question, index }) => {
+        const options = question.options ? `\n   선택지: ${question.options.map((option, i) => `(${i + 1}) ${option}`).join(' ')}` : '';
+        const passage = question.passage ? `\n   지문: ${question.passage}` : '';
+        return `[${index}] (${question.questionType}) ${question.question}${passage}${options}`;
+    }).join('\n');
+
+    const prompt = `
+        성취기준: "${standardDescription}"
+
+        다음 문제들을 처음부터 직접 풀어주세요. 각 문제의 번호(index)와 함께 최종 답을 반환하세요.
+        - 객관식은 정답 선택지의 내용을 글자 그대로 answer에 쓰세요.
+        - OX 문제는 "O" 또는 "X"만 쓰세요.
+        - 단답형은 가장 간단한 형태의 최종 답만 쓰세요. (예: "x=3" 대신 "3")
+        - reasoning에는 풀이의 핵심 단계를 2~3문장으로 적으세요.
+
+        ${problemsText}
+    `;
+
+    try {
+        const solutions = await getActiveAiProvider().generateJson<{ index: number; answer: string; reasoning: string }[]>({
+            prompt,
+            systemInstruction: `당신은 꼼꼼한 수학 검토 교사입니다. 문제를 스스로 풀어 답을 확인합니다.\n${MATH_RULE_PROMPT}`,
+            schema: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        index: { type: 'integer' },
+                        answer: { type: 'string' },
+                        reasoning: { type: 'string' },
+                    },
+                    required: ["index", "answer"],
+                },
+            },
+            context: { feature: 'verification', subjectName, standardDescription },
+            signal,
+        });
+
+        const solutionByIndex = new Map((Array.isArray(solutions) ? solutions : []).map(solution => [solution.index, solution]));
+        return questions.map((question, index): Q => {
+            const solution = solutionByIndex.get(index);
+            if (question.questionType === 'creativity') return question;
+            if (!solution) return { ...question, verification: { status: 'unchecked' } };
+            const agrees = solvedAnswerAgrees(question, solution.answer);
+            return {
+                ...question,
+                verification: {
+                    status: agrees === null ? 'unchecked' : agrees ? 'verified' : 'disputed',
+                    solvedAnswer: solution.answer,
+                    reasoning: solution.reasoning,
+                },
+            };
+        });
+    } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
+        // Verification is a safety net; without it the quiz is still usable.
+        console.warn("Answer verification failed:", error);
+        return questions.map(question => question.questionType === 'creativity' ? question : { ...question, verification: { status: 'unchecked' } });
+    }
+};
+
 export interface QuestionRequest {
     type: QuestionType;
     count: number;
 }
 
-export const generateQuestions = async (
-    subjectName: string, 
-    standardDescription: string, 
+// Receives a streamed quiz. Questions are appended in the order they become ready; a question
+// already handed over may later be replaced when its answer check or illustration arrives.
+export interface QuizStreamHandlers {
+    onQuestion: (question: QuizQuestion) => void;
+    onUpdate: (index: number, question: QuizQuestion) => void;
+    // Every question has been handed over; only updates follow.
+    onQuestionsComplete?: (report: QuizValidationReport) => void;
+}
+
+// The "지침" list shared by every prompt that writes quiz questions.
+const buildQuestionGuidelines = (subjectName: string, difficulty: string) => {
+    const languageInstruction = subjectName === '영어'
+        ? '모든 텍스트(질문, 지문, 선택지, 정답, 해설)는 반드시 영어로만 작성하십시오. **필수**: `questionTranslation`, `answerTranslation`, `explanationTranslation` 필드에 각각의 한국어 번역을 반드시 포함하십시오.'
+        : '문제, 정답, 해설은 모두 한국어로 작성하십시오.';
+
+    const explanationInstruction = subjectName === '영어'
+        ? '해설(explanation)은 영어로 작성하고, 그에 대한 한국어 번역은 explanationTranslation에 작성하십시오.'
+        : '해설 포함. 또한 `solutionSteps`에 풀이를 2~6개의 단계로 나누어 순서대로 작성하세요. 각 단계의 `latex`에는 그 단계의 식만 LaTeX로($ 기호 없이), `justification`에는 그 식이 왜 성립하는지 한 문장으로 쓰세요. 창의/탐구형 문제는 빈 배열로 두세요.';
+        
+    const passageInstruction = subjectName === '영어'
+        ? '**중요**: 듣기(Listening)나 독해(Reading) 평가인 경우, 대화문(Script)이나 지문(Passage)은 반드시 `passage` 필드(영어)와 `passageTranslation` 필드(한국어)에 분리하여 작성해야 합니다. `passage` 필드에는 한글을 포함하지 마세요.'
+        : '국어 과목이나 지문이 필요한 경우 `passage` 필드에 지문을 작성하세요.';
+
+    return `
+            - ${languageInstruction}
+            - ${explanationInstruction}
+            - ${passageInstruction}
+            - 난이도가 '${difficulty}'임을 감안하여 문제의 복잡성을 조절하세요.
+            - 'points'에는 수능처럼 배점을 2, 3, 4 중 하나로 적으세요. 개념 확인이나 한 단계 계산은 2점, 일반적인 문제는 3점, 여러 단계의 추론이 필요한 문제는 4점입니다.
+            - **창의/탐구형 문제('creativity')의 경우**: 'answer' 필드에는 학생이 작성해야 할 모범 답안의 예시나, 채점 시 고려해야 할 핵심 평가 요소(키워드, 논리 구조 등)를 상세히 기술하세요.
+            - 함수의 그래프가 필요한 문제(이차함수, 지수·로그함수, 삼각함수, 미분 등)는 'plot'에 그래프 명세를 작성하세요. 앱이 정확한 그래프로 그립니다. 'expression'은 LaTeX가 아닌 x에 대한 일반 식(예: "x^2 - 2x", "2^x", "ln(x)/ln(2)", "sin(2x)")으로 쓰고, 좌표 범위는 중요한 점이 모두 보이도록 정하세요. 문제에서 학생이 구해야 하는 값(정답)은 그래프의 점 이름이나 라벨로 드러내지 마세요. 그래프가 필요 없으면 'plot'을 생략하세요.
+            - 도형, 좌표평면 위의 원·직선·이차곡선, 벡터 그림이 필요한 문제(도형의 방정식, 기하, 벡터 단원 등)는 'diagram'에 아래 도형 언어로 그림을 작성하세요. 앱이 문제와 정확히 일치하는 그림을 그립니다. 정답이 되는 값은 그림의 라벨로 드러내지 마세요. 필요 없으면 빈 문자열로 두세요.
+            ${DIAGRAM_LANGUAGE_PROMPT}
+            - 그래프나 도형이 아닌 시각 자료가 문제 풀이에 결정적인 도움이 되는 경우에만 'imagePrompt'에 영어 프롬프트 작성 (없으면 빈 문자열). 'plot'이나 'diagram'을 쓴 문제에는 imagePrompt를 쓰지 마세요.
+            - **JSON 문자열 내부 주의**: LaTeX를 사용할 때는 백슬래시를 이스케이프 해야 합니다. (예: "$\\frac{1}{2}$" -> "$\\\\frac{1}{2}$")
+        `;
+};
+
+const buildQuizSystemInstruction = (profile: LearnerProfile, difficulty: string) => `
+            당신은 ${describeLearner(profile)} 학생을 가르치는 교사입니다. 정확한 JSON 형식으로 문제를 출제합니다.
+            ${MATH_RULE_PROMPT}
+            ${buildLearnerPrompt(profile)}
+            (문제의 난이도는 위에서 선택한 '${difficulty}' 난이도를 따르고, 학습자 정보는 해설의 서술 방식에 반영하세요.)
+        `;
+
+// Streams a question list and hands over each question as soon as it is complete and valid,
+// so a quiz can start while the rest is still being written. Broken questions are repaired
+// together once the list is complete and appended at the end. Resolves when everything,
+// including illustrations, has arrived. Errors are left to the caller's handleApiError.
+const runQuestionStream = async (
+    prompt: string,
+    systemInstruction: string,
+    subjectName: string,
+    standardDescription: string,
+    requests: QuestionRequest[],
+    handlers: QuizStreamHandlers,
+    signal?: AbortSignal
+): Promise<QuizValidationReport> => {
+    const delivered: GeneratedQuestion[] = [];
+    const illustrations: Promise<void>[] = [];
+    const deliver = (question: GeneratedQuestion) => {
+        const index = delivered.length;
+        delivered.push(question);
+        handlers.onQuestion(question);
+        if (!question.plot && !question.diagram && question.imagePrompt && question.imagePrompt.trim() !== '') {
+            // Only rejects when aborted, which the stream reports anyway
+            illustrations.push(generateIllustration(question.imagePrompt, signal).then(imageBase64 => {
+                if (!imageBase64) return;
+                delivered[index] = { ...delivered[index], imageBase64 };
+                handlers.onUpdate(index, delivered[index]);
+            }, () => undefined));
+        }
+    };
+
+    const stream = await getActiveAiProvider().generateJsonStream({
+        prompt,
+        systemInstruction,
+        schema: buildQuestionListSchema(subjectName),
+        disableThinking: true,
+        context: { feature: 'quiz', subjectName, standardDescription, questionRequests: requests },
+        signal,
+    });
+    const readItems = createJsonArrayReader();
+    const invalid: CheckedQuestion[] = [];
+    for await (const chunk of stream) {
+        for (const item of readItems(chunk.text)) {
+            const checked = checkGeneratedQuestion(item as GeneratedQuestion, subjectName);
+            if (checked.problems.length === 0) {
+                deliver(checked.question);
+            } else {
+                invalid.push(checked);
+            }
+        }
+    }
+
+    const report: QuizValidationReport = { repairedCount: 0, dropped: [] };
+    if (invalid.length > 0) {
+        const repaired = await repairQuestions(invalid, subjectName, standardDescription, systemInstruction, signal);
+        repaired.forEach((question, i) => {
+            if (question) {
+                report.repairedCount++;
+                deliver(question);
+            } else {
+                report.dropped.push({ question: invalid[i].question.question || '(내용 없음)', problems: invalid[i].problems });
+            }
+        });
+        if (report.dropped.length > 0) {
+            console.warn("Dropped invalid generated questions:", report.dropped);
+        }
+    }
+
+    handlers.onQuestionsComplete?.(report);
+
+    // Checked as one batch once the list is complete; images may still be arriving meanwhile.
+    const snapshot = [...delivered];
+    const verified = await verifyQuestionAnswers(snapshot, subjectName, standardDescription, signal);
+    verified.forEach((question, index) => {
+        if (question.verification === snapshot[index].verification) return;
+        delivered[index] = { ...delivered[index], verification: question.verification };
+        handlers.onUpdate(index, delivered[index]);
+    });
+
+    await Promise.all(illustrations);
+    return report;
+};
+
+// Streams a quiz for a standard; see runQuestionStream.
+export const streamQuestions = async (
+    subjectName: string,
+    standardDescription: string,
     requests: QuestionRequest[],
-    difficulty: string = '중'
-): Promise<QuizQuestion[]> => {
+    difficulty: string,
+    handlers: QuizStreamHandlers,
+    signal?: AbortSignal
+): Promise<QuizValidationReport> => {
     try {
         const totalQuestions = requests.reduce((sum, req) => sum + req.count, 0);
         if (totalQuestions === 0) {
-            return [];
+            return { repairedCount: 0, dropped: [] };
         }
+        const profile = getLearnerProfile();
 
         const requestPrompts = requests
             .filter(req => req.count > 0)
@@ -311,120 +776,295 @@ export const generateQuestions = async (
                         return `- ${req.count}개의 창의/탐구형 서술형 문제. (정답이 하나로 정해지지 않고, 학생이 성취기준을 바탕으로 논리적으로 생각하여 자신만의 답을 서술해야 하는 문제. 실생활 적용, 대안 제시, 비판적 사고 등을 요구함.)`;
                 }
             }).join('\n');
-            
-        const languageInstruction = subjectName === '영어'
-            ? '모든 텍스트(질문, 지문, 선택지, 정답, 해설)는 반드시 영어로만 작성하십시오. **필수**: `questionTranslation`, `answerTranslation`, `explanationTranslation` 필드에 각각의 한국어 번역을 반드시 포함하십시오.'
-            : '문제, 정답, 해설은 모두 한국어로 작성하십시오.';
-
-        const explanationInstruction = subjectName === '영어'
-            ? '해설(explanation)은 영어로 작성하고, 그에 대한 한국어 번역은 explanationTranslation에 작성하십시오.'
-            : '해설 포함.';
-            
-        const passageInstruction = subjectName === '영어'
-            ? '**중요**: 듣기(Listening)나 독해(Reading) 평가인 경우, 대화문(Script)이나 지문(Passage)은 반드시 `passage` 필드(영어)와 `passageTranslation` 필드(한국어)에 분리하여 작성해야 합니다. `passage` 필드에는 한글을 포함하지 마세요.'
-            : '국어 과목이나 지문이 필요한 경우 `passage` 필드에 지문을 작성하세요.';
 
         const userPrompt = `
             성취기준: "${standardDescription}"
             난이도: ${difficulty} (상, 중, 하 중 선택됨)
             
-            위 성취기준에 근거하여 중학생 수준의 총 ${totalQuestions}개의 문제를 JSON 형식으로 생성하세요.
+            위 성취기준에 근거하여 ${describeLearner(profile)} 수준의 총 ${totalQuestions}개의 문제를 JSON 형식으로 생성하세요.
             
             요청사항:
             ${requestPrompts}
             
             지침:
-            - ${languageInstruction}
-            - ${explanationInstruction}
-            - ${passageInstruction}
-            - 난이도가 '${difficulty}'임을 감안하여 문제의 복잡성을 조절하세요.
-            - **창의/탐구형 문제('creativity')의 경우**: 'answer' 필드에는 학생이 작성해야 할 모범 답안의 예시나, 채점 시 고려해야 할 핵심 평가 요소(키워드, 논리 구조 등)를 상세히 기술하세요.
-            - 시각 자료가 문제 풀이에 결정적인 도움이 되는 경우에만 'imagePrompt'에 영어 프롬프트 작성 (없으면 빈 문자열).
-            - **JSON 문자열 내부 주의**: LaTeX를 사용할 때는 백슬래시를 이스케이프 해야 합니다. (예: "$\\frac{1}{2}$" -> "$\\\\frac{1}{2}$")
+            ${buildQuestionGuidelines(subjectName, difficulty)}
+        `;
+
+        return await runQuestionStream(userPrompt, buildQuizSystemInstruction(profile, difficulty), subjectName, standardDescription, requests, handlers, signal);
+    } catch (error) {
+        handleApiError(error);
+    }
+};
+
+export interface StandardAllocation {
+    standard: AchievementStandard;
+    requests: QuestionRequest[];
+}
+
+// Streams a quiz spanning several standards, one standard after another, and tags each question
+// with its standard. A standard starts generating as soon as the previous one has handed over
+// all its questions; answer checks and illustrations of earlier standards carry on meanwhile.
+export const streamMixedQuestions = async (
+    subjectName: string,
+    allocations: StandardAllocation[],
+    difficulty: string,
+    handlers: QuizStreamHandlers,
+    signal?: AbortSignal
+): Promise<QuizValidationReport> => {
+    const report: QuizValidationReport = { repairedCount: 0, dropped: [] };
+    const parts: Promise<QuizValidationReport>[] = [];
+    let deliveredCount = 0;
+    for (const { standard, requests } of allocations) {
+        if (requests.every(req => req.count === 0)) continue;
+        const offset = deliveredCount;
+        let markComplete = () => {};
+        const complete = new Promise<void>(resolve => { markComplete = resolve; });
+        const part = streamQuestions(subjectName, standard.description, requests, difficulty, {
+            onQuestion: question => {
+                deliveredCount++;
+                handlers.onQuestion({ ...question, standardId: standard.id });
+            },
+            onUpdate: (index, question) => handlers.onUpdate(offset + index, { ...question, standardId: standard.id }),
+            onQuestionsComplete: partReport => {
+                report.repairedCount += partReport.repairedCount;
+                report.dropped.push(...partReport.dropped);
+                markComplete();
+            },
+        }, signal);
+        // Failures surface through the race below or the final Promise.all
+        part.catch(() => undefined);
+        parts.push(part);
+        await Promise.race([complete, part]);
+    }
+    handlers.onQuestionsComplete?.(report);
+    await Promise.all(parts);
+    return report;
+};
+
+// Streams variants of a question the student missed: same concept and type, different numbers
+// or context. The student's wrong answer, when known, points the variants at the same slip.
+export const streamSimilarQuestions = async (
+    subjectName: string,
+    standardDescription: string,
+    original: QuizQuestion,
+    studentAnswer: string | null,
+    count: number,
+    handlers: QuizStreamHandlers,
+    signal?: AbortSignal
+): Promise<QuizValidationReport> => {
+    try {
+        const profile = getLearnerProfile();
+        const difficulty = '중';
+        const options = original.options ? `\n선택지: ${original.options.map((option, i) => `(${i + 1}) ${option}`).join(' ')}` : '';
+        const passage = original.passage ? `\n지문: ${original.passage}` : '';
+
+        const userPrompt = `
+            성취기준: "${standardDescription}"
+
+            학생이 아래 문제를 틀렸습니다. 같은 개념을 다시 연습할 수 있도록 유사 문제 ${count}개를 JSON 형식으로 생성하세요.
+
+            [원래 문제] (유형: ${original.questionType})
+            ${original.question}${passage}${options}
+            정답: ${original.answer}
+            해설: ${original.explanation}
+            ${studentAnswer ? `학생의 오답: ${studentAnswer}` : ''}
+
+            요청사항:
+            - 모든 문제의 questionType은 원래 문제와 같은 '${original.questionType}'으로 하세요.
+            - 평가하는 핵심 개념과 풀이 단계는 원래 문제와 같게 유지하되, 숫자·조건·상황(맥락)을 바꾸어 원래 문제나 서로와 겹치지 않게 하세요.
+            - 학생의 오답이 있다면 같은 실수를 다시 점검할 수 있는 문제를 포함하세요.
+            - 난이도는 원래 문제와 비슷하게 하세요.
+
+            지침:
+            ${buildQuestionGuidelines(subjectName, difficulty)}
         `;
 
+        return await runQuestionStream(
+            userPrompt,
+            buildQuizSystemInstruction(profile, difficulty),
+            subjectName,
+            standardDescription,
+            [{ type: original.questionType, count }],
+            handlers,
+            signal
+        );
+    } catch (error) {
+        handleApiError(error);
+    }
+};
+
+// Generates a whole quiz at once, for callers that don't show questions as they arrive.
+export const generateQuestions = async (
+    subjectName: string, 
+    standardDescription: string, 
+    requests: QuestionRequest[],
+    difficulty: string = '중',
+    signal?: AbortSignal
+): Promise<GeneratedQuiz> => {
+    const questions: QuizQuestion[] = [];
+    const report = await streamQuestions(subjectName, standardDescription, requests, difficulty, {
+        onQuestion: question => questions.push(question),
+        onUpdate: (index, question) => { questions[index] = question; },
+    }, signal);
+    return { questions, report };
+};
+
+// A focused follow-up chat about one step of a worked solution ("왜 이렇게 되나요?").
+export const getSolutionStepAnswerStream = async (
+    subjectName: string,
+    standardDescription: string,
+    question: QuizQuestion,
+    stepIndex: number,
+    conversationHistory: ConversationMessage[],
+    userQuestion: string,
+    signal?: AbortSignal
+): Promise<AsyncGenerator<AiStreamChunk>> => {
+    try {
+        const steps = question.solutionSteps || [];
+        const stepsText = steps
+            .map((step, index) => `${index + 1}단계${index === stepIndex ? ' (질문 대상)' : ''}: $${step.latex}$ — ${step.justification}`)
+            .join('\n');
+
+        const profile = getLearnerProfile();
         const systemInstruction = `
-            당신은 중학교 교사입니다. 정확한 JSON 형식으로 문제를 출제합니다.
+            당신은 한국의 ${learnerNoun(profile)}들을 위한 친절한 AI 튜터입니다.
+            학생은 문제 풀이의 한 단계가 이해되지 않아 질문하고 있습니다. 그 단계에만 집중해서,
+            바로 앞 단계에서 이 단계로 넘어가는 근거(사용한 개념, 법칙, 계산)를 짧고 분명하게 설명하세요.
+            뒤쪽 단계나 다른 주제로 이야기를 넓히지 마세요.
             ${MATH_RULE_PROMPT}
+            ${buildLearnerPrompt(profile)}
+
+            성취기준: "${standardDescription}"
+            문제: ${question.question}
+            정답: ${question.answer}
+
+            --- 풀이 단계 ---
+            ${stepsText}
+            --------------------
+
+            학생은 ${stepIndex + 1}단계에 대해 질문하고 있습니다.
         `;
 
-        const requiredFields = ["question", "questionType", "answer", "explanation"];
-        if (subjectName === '영어') {
-            requiredFields.push("questionTranslation", "answerTranslation", "explanationTranslation");
-        }
+        return await getActiveAiProvider().generateTextStream({
+            prompt: userQuestion,
+            systemInstruction: systemInstruction,
+            history: conversationHistory,
+            context: { feature: 'follow-up', subjectName, standardDescription },
+            signal,
+        });
+    } catch (error) {
+        handleApiError(error);
+    }
+};
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            question: { type: Type.STRING },
-                            questionTranslation: { type: Type.STRING, description: "Korean translation of the question (Required for English subject)" },
-                            passage: { 
-                                type: Type.STRING,
-                                description: "The reading passage or listening script context. Required for reading/listening tasks."
-                            },
-                            passageTranslation: { type: Type.STRING, description: "Korean translation of the passage (if subject is English)" },
-                            questionType: { 
-                                type: Type.STRING,
-                                description: "Must be exactly one of: 'multiple-choice', 'short-answer', 'ox', 'creativity'"
-                            },
-                            options: {
-                                type: Type.ARRAY,
-                                items: { type: Type.STRING },
-                            },
-                            optionsTranslation: {
-                                type: Type.ARRAY,
-                                items: { type: Type.STRING },
-                                description: "Korean translations of the options (if subject is English)"
-                            },
-                            answer: { type: Type.STRING, description: "Correct answer or model answer key for creativity questions." },
-                            answerTranslation: { type: Type.STRING, description: "Korean translation of the answer (if subject is English)" },
-                            explanation: { type: Type.STRING },
-                            explanationTranslation: { type: Type.STRING, description: "Korean translation of the explanation (if subject is English)" },
-                            imagePrompt: { 
-                                type: Type.STRING,
-                                description: 'Concise English prompt for image generation. Empty if not needed.'
-                            },
-                        },
-                        required: requiredFields,
-                    },
-                },
-                thinkingConfig: { thinkingBudget: 0 },
-            },
+// Wraps up the Q&A part of a session, calling out the points where the student got stuck.
+export const generateSessionSummary = async (
+    subjectName: string,
+    standardDescription: string,
+    conversation: ConversationMessage[],
+    stuckPoints: StuckPoint[],
+    signal?: AbortSignal
+): Promise<string> => {
+    try {
+        const profile = getLearnerProfile();
+        const historyText = conversation
+            .map(msg => `${msg.role === 'user' ? '학생' : 'AI 튜터'}: ${msg.text}`)
+            .join('\n');
+        const stuckText = stuckPoints.length > 0
+            ? stuckPoints.map(point => `- "${point.question}" → ${point.note}`).join('\n')
+            : '(기록된 막힌 지점 없음)';
+
+        const userPrompt = `
+            성취기준: "${standardDescription}"
+
+            --- 질문 대화 기록 ---
+            ${historyText}
+            --------------------
+
+            --- 학생이 막혔던 지점 ---
+            ${stuckText}
+            --------------------
+
+            위 대화를 바탕으로 이번 학습을 3~6줄의 글머리 기호로 정리하세요.
+            학생이 막혔던 지점이 있다면 반드시 하나씩 짚고, 다음에 무엇을 복습하면 좋을지 덧붙이세요.
+        `;
+
+        const summary = await getActiveAiProvider().generateText({
+            prompt: userPrompt,
+            systemInstruction: `당신은 ${learnerNoun(profile)}의 ${subjectName} 학습을 돌아보게 돕는 튜터입니다.\n${MATH_RULE_PROMPT}\n${buildLearnerPrompt(profile)}`,
+            context: { feature: 'session-summary', subjectName, standardDescription },
+            signal,
         });
+        return summary || "요약을 생성할 수 없습니다.";
+    } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
+        console.error("Session summary generation error:", error);
+        throw new Error("학습 정리 중 오류가 발생했습니다.");
+    }
+};
 
-        const jsonString = response.text;
-        const questionsWithPrompts = JSON.parse(jsonString) as (QuizQuestion & { imagePrompt?: string })[];
+// Writes the whole hint ladder for a question in one call; the quiz reveals it one step at a time.
+export const generateHints = async (
+    question: QuizQuestion,
+    subjectName: string,
+    standardDescription: string,
+    signal?: AbortSignal
+): Promise<string[]> => {
+    const profile = getLearnerProfile();
+    const options = question.options ? `\n선택지: ${question.options.map((option, i) => `(${i + 1}) ${option}`).join(' ')}` : '';
+    const prompt = `
+        성취기준: "${standardDescription}"
+        문제 유형: ${question.questionType}
+        문제: ${question.question}${options}
+        정답(학생에게 공개 금지): ${question.answer}
 
-        const questionsWithImages = await Promise.all(
-            questionsWithPrompts.map(async (q) => {
-                if (q.imagePrompt && q.imagePrompt.trim() !== '') {
-                    const imageBase64 = await generateIllustration(q.imagePrompt);
-                    return { ...q, imageBase64: imageBase64 || undefined };
-                }
-                return q;
-            })
-        );
-        
-        return questionsWithImages as QuizQuestion[];
+        이 문제를 스스로 풀고 싶은 학생에게 줄 힌트를 정확히 ${MAX_HINTS_PER_QUESTION}개, 점점 구체적으로 작성하세요.
+        1. 개념 떠올리기: 필요한 개념이나 공식만 상기시킵니다. 풀이 방법은 말하지 마세요.
+        2. 첫 단계: 풀이의 첫 단계를 구체적으로 안내합니다.
+        3. 거의 다 왔어요: 답 직전까지의 풀이 흐름을 보여 주되, 최종 답(또는 정답 선택지 번호)은 절대 쓰지 마세요.
+        각 힌트는 1~3문장으로 짧게 쓰세요.
+    `;
 
+    let result: { hints: string[] };
+    try {
+        result = await getActiveAiProvider().generateJson<{ hints: string[] }>({
+            prompt,
+            systemInstruction: `당신은 답을 바로 알려주지 않고 스스로 생각하도록 돕는 ${subjectName} 튜터입니다.\n${MATH_RULE_PROMPT}\n${buildLearnerPrompt(profile)}`,
+            schema: {
+                type: 'object',
+                properties: {
+                    hints: { type: 'array', items: { type: 'string' } },
+                },
+                required: ["hints"],
+            },
+            disableThinking: true,
+            context: { feature: 'hint', subjectName, standardDescription, expectedAnswer: question.answer },
+            signal,
+        });
     } catch (error) {
         handleApiError(error);
     }
+
+    const hints = (Array.isArray(result?.hints) ? result.hints : [])
+        .filter(hint => typeof hint === 'string' && hint.trim() !== '')
+        .slice(0, MAX_HINTS_PER_QUESTION);
+    if (hints.length === 0) {
+        throw new Error("힌트를 만들지 못했습니다. 잠시 후 다시 시도해주세요.");
+    }
+    return hints;
 };
 
-export const evaluateShortAnswer = async (question: string, correctAnswer: string, userAnswer: string): Promise<ShortAnswerEvaluation> => {
+export const evaluateShortAnswer = async (question: string, correctAnswer: string, userAnswer: string, signal?: AbortSignal): Promise<ShortAnswerEvaluation> => {
+    // Clear-cut math answers are graded offline; only undecidable ones reach the model.
+    const localResult = gradeShortAnswerLocally(userAnswer, correctAnswer);
+    if (localResult) return localResult;
+
     try {
+        const profile = getLearnerProfile();
         const prompt = `
-        You are a strict but fair teacher grading a middle school student's answer.
+        You are a strict but fair teacher grading the answer of a Korean student in ${describeLearner(profile)}.
         
         Question: "${question}"
         Model/Correct Answer: "${correctAnswer}"
@@ -448,59 +1088,230 @@ export const evaluateShortAnswer = async (question: string, correctAnswer: strin
         - Grade 'E': Incorrect/Irrelevant (0% points).
 
         Provide a brief, encouraging feedback explaining why this grade was given (in Korean).
+        Word the feedback for this learner; the grade itself must depend only on the answer.
+        ${buildLearnerPrompt(profile)}
         `;
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        grade: { type: Type.STRING, enum: ["A", "B", "C", "D", "E"] },
-                        feedback: { type: Type.STRING },
-                    },
-                    required: ["grade", "feedback"],
+        return await getActiveAiProvider().generateJson<ShortAnswerEvaluation>({
+            prompt: prompt,
+            schema: {
+                type: 'object',
+                properties: {
+                    grade: { type: 'string', enum: ["A", "B", "C", "D", "E"] },
+                    feedback: { type: 'string' },
                 },
+                required: ["grade", "feedback"],
             },
+            context: { feature: 'grading', expectedAnswer: correctAnswer, studentAnswer: userAnswer },
+            signal,
         });
-
-        return JSON.parse(response.text) as ShortAnswerEvaluation;
     } catch (error) {
         console.error("Evaluation error:", error);
+        if (error instanceof UsageBudgetExceededError || isAbortError(error)) {
+            throw error;
+        }
+        if (isQuotaError(error)) {
+            throw new Error("AI 사용량 한도에 도달해 채점하지 못했습니다. 잠시 후 다시 시도해주세요.");
+        }
         throw new Error("AI 채점 중 오류가 발생했습니다.");
     }
 };
 
-export const generateSpeech = async (textToSpeak: string, voice: TTSVoice): Promise<string> => {
+// Grades a photo of the student's handwritten work. Besides the grade it reports what it read
+// from the photo and the first step that went wrong, so the student sees where to look.
+export const evaluateHandwrittenAnswer = async (
+    question: string,
+    correctAnswer: string,
+    photo: AiImageInput,
+    signal?: AbortSignal
+): Promise<ShortAnswerEvaluation> => {
     try {
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: textToSpeak }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: voice },
-                    },
+        const profile = getLearnerProfile();
+        const prompt = `
+        You are a strict but fair teacher grading the handwritten work of a Korean student in ${describeLearner(profile)}.
+        The attached photo shows the student's solution, written by hand on paper.
+
+        Question: "${question}"
+        Model/Correct Answer: "${correctAnswer}"
+
+        1. Read the photo and write down the student's work line by line in 'transcription', using LaTeX for math ($...$).
+           If the photo is unreadable or does not show a solution, say so in 'transcription' and give grade 'E'.
+        2. Grade the final answer and the reasoning with the scale below. For creativity (창의/탐구형) questions the model answer is only a guide.
+        3. If a step is wrong, quote or describe the FIRST wrong step in 'wrongStep' (in Korean) and explain what went wrong there. Leave it empty if every step is correct.
+
+        **Grade Scale:**
+        - Grade 'A': Excellent. Accurate/Creative/Logical (100% points).
+        - Grade 'B': Good. Mostly accurate or logical but misses minor details (75% points).
+        - Grade 'C': Fair. Captures keywords or basic logic but lacks completeness (50% points).
+        - Grade 'D': Poor. Misses key points or logic is weak (25% points).
+        - Grade 'E': Incorrect/Irrelevant (0% points).
+
+        Provide a brief, encouraging feedback explaining why this grade was given (in Korean).
+        Word the feedback for this learner; the grade itself must depend only on the work.
+        ${buildLearnerPrompt(profile)}
+        `;
+
+        const result = await getActiveAiProvider().generateJson<ShortAnswerEvaluation>({
+            prompt: prompt,
+            images: [photo],
+            schema: {
+                type: 'object',
+                properties: {
+                    grade: { type: 'string', enum: ["A", "B", "C", "D", "E"] },
+                    feedback: { type: 'string' },
+                    transcription: { type: 'string' },
+                    wrongStep: { type: 'string', description: "First wrong step and what went wrong; empty if none" },
                 },
+                required: ["grade", "feedback", "transcription"],
             },
+            context: { feature: 'grading', expectedAnswer: correctAnswer },
+            signal,
         });
-        
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("API로부터 오디오 데이터를 받지 못했습니다.");
+        return { ...result, wrongStep: result.wrongStep?.trim() || undefined };
+    } catch (error) {
+        console.error("Handwritten evaluation error:", error);
+        if (error instanceof UsageBudgetExceededError || isAbortError(error)) {
+            throw error;
+        }
+        if (isQuotaError(error)) {
+            throw new Error("AI 사용량 한도에 도달해 채점하지 못했습니다. 잠시 후 다시 시도해주세요.");
         }
-        return base64Audio;
+        throw new Error("사진 채점 중 오류가 발생했습니다. 글씨가 잘 보이도록 다시 찍어 주세요.");
+    }
+};
+
+export const generateSpeech = async (textToSpeak: string, voice: TTSVoice, signal?: AbortSignal): Promise<string> => {
+    try {
+        return await getActiveAiProvider().generateSpeech(textToSpeak, voice, signal);
+    } catch (error) {
+        handleApiError(error);
+    }
+};
+
+// Classifies why each wrong answer in a quiz result went wrong, in one request for the whole
+// quiz. Returns one entry per question of the result; null where nothing was classified.
+export const classifyMisconceptions = async (result: QuizResult, signal?: AbortSignal): Promise<(MisconceptionTag | null)[]> => {
+    const questions = result.questions || [];
+    const mistakes = findClassifiableMistakes(result);
+    if (mistakes.length === 0) {
+        return questions.map(() => null);
+    }
+
+    const mistakesText = mistakes.map(index => {
+        const question = questions[index];
+        const options = question.options ? `\n선택지: ${question.options.map((option, i) => `(${i + 1}) ${option}`).join(' ')}` : '';
+        return `[${index}] (유형: ${question.questionType})\n문제: ${question.question}${options}\n정답: ${question.answer}\n해설: ${question.explanation}\n학생의 답: ${result.userAnswers?.[index]}`;
+    }).join('\n\n');
+    const categoriesText = MISCONCEPTION_OPTIONS.map(option => `- ${option.id} (${option.name}): ${option.description}`).join('\n');
+
+    const prompt = `
+        성취기준: "${result.standardDescription}"
+
+        학생이 아래 문제들을 틀렸습니다. 문제, 정답, 학생의 답을 비교하여 각 오답의 원인을 아래 분류 중 하나로 판단하세요.
+
+        분류:
+        ${categoriesText}
+
+        - 각 문제의 번호(index)와 함께 type에는 분류의 영문 id를, note에는 학생이 구체적으로 무엇을 잘못했는지 한 문장(한국어)으로 쓰세요.
+        - 학생의 답으로부터 원인을 추측하기 어렵다면 가장 가능성이 높은 분류를 고르세요.
+
+        ${mistakesText}
+    `;
+
+    let tags: { index: number; type: string; note: string }[];
+    try {
+        tags = await getActiveAiProvider().generateJson<{ index: number; type: string; note: string }[]>({
+            prompt,
+            systemInstruction: `당신은 학생의 오답을 분석하는 꼼꼼한 수학 교사입니다.\n${MATH_RULE_PROMPT}`,
+            schema: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        index: { type: 'integer' },
+                        type: { type: 'string', enum: MISCONCEPTION_OPTIONS.map(option => option.id) },
+                        note: { type: 'string' },
+                    },
+                    required: ["index", "type", "note"],
+                },
+            },
+            disableThinking: true,
+            context: { feature: 'misconception', subjectName: result.subject, standardDescription: result.standardDescription, itemIndexes: mistakes },
+            signal,
+        });
+    } catch (error) {
+        handleApiError(error);
+    }
+
+    const validTypes = MISCONCEPTION_OPTIONS.map(option => option.id);
+    const tagByIndex = new Map((Array.isArray(tags) ? tags : [])
+        .filter(tag => mistakes.includes(tag.index) && validTypes.includes(tag.type as MisconceptionType))
+        .map(tag => [tag.index, { type: tag.type as MisconceptionType, note: typeof tag.note === 'string' ? tag.note.trim() : '' }]));
+    return questions.map((_, index) => tagByIndex.get(index) ?? null);
+};
+
+// Suggests which earlier standards of the same subject a standard builds on.
+export const suggestPrerequisites = async (standardId: string, signal?: AbortSignal): Promise<PrerequisiteSuggestion[]> => {
+    const location = findStandardLocation(standardId);
+    const candidates = prerequisiteCandidates(standardId);
+    if (!location || candidates.length === 0) {
+        return [];
+    }
+
+    const candidatesText = candidates.map(candidate => `- ${candidate.standard.id} (${candidate.unitName}): ${candidate.standard.description}`).join('\n');
+    const prompt = `
+        과목: ${location.subjectName} (${location.grade})
+        성취기준: ${location.standard.id} "${location.standard.description}"
+
+        아래는 같은 과목에서 이 성취기준보다 앞에 배우는 성취기준들입니다. 이 성취기준을 이해하고 문제를 풀려면 반드시 먼저 알고 있어야 하는 것을 최대 ${MAX_PREREQUISITE_SUGGESTIONS}개 고르세요.
+
+        - 단순히 앞에 배운다는 이유만으로 고르지 말고, 이 성취기준의 개념이나 계산에 직접 쓰이는 것만 고르세요.
+        - 각 항목의 standardId에는 아래 목록의 코드를 그대로, reason에는 왜 필요한지 한 문장(한국어)으로 쓰세요.
+
+        ${candidatesText}
+    `;
+
+    let suggestions: PrerequisiteSuggestion[];
+    try {
+        suggestions = await getActiveAiProvider().generateJson<PrerequisiteSuggestion[]>({
+            prompt,
+            systemInstruction: `당신은 고등학교 수학 교육과정의 계통을 잘 아는 수학 교사입니다.`,
+            schema: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        standardId: { type: 'string', enum: candidates.map(candidate => candidate.standard.id) },
+                        reason: { type: 'string' },
+                    },
+                    required: ["standardId", "reason"],
+                },
+            },
+            disableThinking: true,
+            context: {
+                feature: 'prerequisites',
+                subjectName: location.subjectName,
+                standardDescription: location.standard.description,
+                candidateIds: candidates.map(candidate => candidate.standard.id),
+            },
+            signal,
+        });
     } catch (error) {
         handleApiError(error);
     }
+
+    const candidateIds = new Set(candidates.map(candidate => candidate.standard.id));
+    return (Array.isArray(suggestions) ? suggestions : [])
+        .filter((suggestion, index, all) =>
+            candidateIds.has(suggestion.standardId) && all.findIndex(other => other.standardId === suggestion.standardId) === index)
+        .map(suggestion => ({ standardId: suggestion.standardId, reason: typeof suggestion.reason === 'string' ? suggestion.reason.trim() : '' }))
+        .slice(0, MAX_PREREQUISITE_SUGGESTIONS);
 };
 
-export const generateLearningDiagnosis = async (history: QuizResult[]): Promise<string> => {
+const describeMisconceptionCounts = (counts: Partial<Record<MisconceptionType, number>>) =>
+    MISCONCEPTION_OPTIONS.filter(option => counts[option.id]).map(option => `${option.name} ${counts[option.id]}`).join(', ');
+
+export const generateLearningDiagnosis = async (history: QuizResult[], signal?: AbortSignal): Promise<string> => {
     try {
         if (!history || history.length === 0) {
             return "아직 분석할 학습 기록이 충분하지 않습니다. 문제를 풀고 다시 시도해주세요!";
@@ -512,42 +1323,57 @@ export const generateLearningDiagnosis = async (history: QuizResult[]): Promise<
         
         const historyText = recentHistory.map((h, idx) => {
              const date = new Date(h.date).toLocaleDateString();
-             return `${idx+1}. [${date}] 과목: ${h.subject}, 내용: ${h.standardDescription || h.standardId}, 점수: ${Math.round(h.score)}점`;
+             const mistakes = describeMisconceptionCounts(countMisconceptions([h]));
+             const breakdown = (h.standardBreakdown || []).map(part => `${part.standardId} ${part.correctAnswers}/${part.totalQuestions}`).join(', ');
+             const exam = h.exam ? ` (시험 모드, 제한 ${h.exam.timeLimitMinutes}분 중 ${Math.ceil(h.exam.elapsedSeconds / 60)}분 사용${h.exam.timedOut ? ', 시간 초과' : ''})` : '';
+             return `${idx+1}. [${date}] 과목: ${h.subject}, 내용: ${h.standardDescription || h.standardId}, 점수: ${Math.round(h.score)}점${exam}${breakdown ? `, 성취기준별: ${breakdown}` : ''}${mistakes ? `, 오답 원인: ${mistakes}` : ''}`;
         }).join('\n');
 
+        // A few recent notes show what the mistakes actually looked like.
+        const mistakeNotes = recentHistory
+            .flatMap(h => (h.misconceptions || []).flatMap(tag => (tag && tag.note ? [`- [${h.subject}] ${MISCONCEPTION_OPTIONS.find(option => option.id === tag.type)?.name}: ${tag.note}`] : [])))
+            .slice(0, 10);
+        const mistakesText = mistakeNotes.length > 0
+            ? `\n**오답 원인 분석 (전체: ${describeMisconceptionCounts(countMisconceptions(recentHistory))}):**\n${mistakeNotes.join('\n')}\n`
+            : '';
+
         const prompt = `
         학생의 학습 이력을 분석하여, 학생에게 도움이 되는 **학습 진단 리포트**를 작성해주세요.
 
         **학생의 학습 이력 (최신순):**
         ${historyText}
+        ${mistakesText}
 
         **리포트 작성 가이드라인:**
         1. **인사 및 총평**: 학생의 전반적인 노력(학습 빈도, 시도 횟수 등)을 칭찬하며 따뜻하게 시작하세요.
         2. **강점 발견**: 성취도가 높거나 꾸준히 학습한 과목/단원을 찾아 구체적으로 칭찬해주세요.
-        3. **취약점 및 보완 제안**: 상대적으로 점수가 낮거나 기복이 심한 부분이 있다면, 질책보다는 격려와 함께 구체적인 복습 방법(예: 개념 재확인, 오답 노트 등)을 제안해주세요.
+        3. **취약점 및 보완 제안**: 상대적으로 점수가 낮거나 기복이 심한 부분이 있다면, 질책보다는 격려와 함께 구체적인 복습 방법(예: 개념 재확인, 오답 노트 등)을 제안해주세요. 오답 원인 분석이 있다면 점수가 낮은 *이유*(계산 실수인지, 개념 오해인지 등)를 짚고, 원인에 맞는 보완 방법을 제안해주세요.
         4. **맞춤형 학습 전략**: 앞으로 어떤 과목이나 단원에 집중하면 좋을지, 어떤 태도로 임하면 좋을지 실질적인 조언을 해주세요.
         5. **마무리**: 할 수 있다는 자신감을 불어넣어 주는 응원의 말로 마무리하세요.
         `;
 
+        const profile = getLearnerProfile();
         const systemInstruction = `
         당신은 학생의 자기주도학습을 돕는 다정하고 예리한 'AI 학습 코치'입니다.
         **마크다운(Markdown)** 형식을 사용하여 가독성 있게 작성하세요 (소제목 볼드체, 리스트 활용).
-        중학생에게 말하듯 **친근하고 존중하는 해요체**를 사용하세요.
+        ${learnerNoun(profile)}에게 말하듯 **친근하고 존중하는 해요체**를 사용하세요.
+        ${buildLearnerPrompt(profile)}
         이모지(😊, 📚, ✨ 등)를 적절히 사용하여 딱딱하지 않게 표현해주세요.
         `;
 
-        const aiInstance = getAi();
-        const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: systemInstruction,
-            }
+        const text = await getActiveAiProvider().generateText({
+            prompt: prompt,
+            systemInstruction: systemInstruction,
+            context: { feature: 'diagnosis' },
+            signal,
         });
         
-        return response.text || "진단 리포트를 생성하지 못했습니다.";
+        return text || "진단 리포트를 생성하지 못했습니다.";
     } catch (error) {
         console.error("Diagnosis generation error:", error);
+        if (error instanceof UsageBudgetExceededError || isAbortError(error)) {
+            throw error;
+        }
         throw new Error("리포트를 생성하는 중 오류가 발생했습니다.");
     }
 };
@@ -0,0 +1,52 @@
+// Pulls complete items out of a top-level JSON array while it is still being streamed, so
+// each item can be used as soon as its closing brace arrives. Items must be objects or arrays.
+
+export const createJsonArrayReader = () => {
+    let buffer = '';
+    let position = 0;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let itemStart = -1;
+
+    // Feeds the next piece of text and returns the items it completed, in order.
+    return (chunk: string): unknown[] => {
+        buffer += chunk;
+        const items: unknown[] = [];
+        for (; position < buffer.length; position++) {
+            const char = buffer[position];
+            if (inString) {
+                if (escaped) escaped = false;
+                else if (char === '\\') escaped = true;
+                else if (char === '"') inString = false;
+                continue;
+            }
+            if (char === '"') {
+                inString = true;
+            } else if (char === '{' || char === '[') {
+                if (depth === 1) itemStart = position;
+                depth++;
+            } else if (char === '}' || char === ']') {
+                depth--;
+                if (depth === 1 && itemStart !== -1) {
+                    try {
+                        items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+                    } catch {
+                        console.warn("Skipping malformed streamed item:", buffer.slice(itemStart, position + 1));
+                    }
+                    itemStart = -1;
+                }
+            }
+        }
+        // Everything before an unfinished item has been consumed
+        if (itemStart > 0) {
+            buffer = buffer.slice(itemStart);
+            position -= itemStart;
+            itemStart = 0;
+        } else if (itemStart === -1) {
+            buffer = '';
+            position = 0;
+        }
+        return items;
+    };
+};
@@ -0,0 +1,39 @@
+import type { LearnerProfile } from '../types.ts';
+import { DEFAULT_LEARNER_PROFILE, SCHOOL_LEVEL_LABELS, LEARNER_LEVEL_OPTIONS, EXPLANATION_STYLE_OPTIONS } from '../constants.ts';
+
+// The learner profile is edited in settings (through useLocalStorage) and read here on
+// every prompt, so a change applies to the next request without reconnecting.
+
+export const LEARNER_PROFILE_STORAGE_KEY = 'learner_profile';
+
+export const getLearnerProfile = (): LearnerProfile => {
+    try {
+        const item = window.localStorage.getItem(LEARNER_PROFILE_STORAGE_KEY);
+        return { ...DEFAULT_LEARNER_PROFILE, ...(item ? JSON.parse(item) : {}) };
+    } catch (error) {
+        console.error(error);
+        return DEFAULT_LEARNER_PROFILE;
+    }
+};
+
+// "고등학교 1학년"
+export const describeLearner = (profile: LearnerProfile) => `${SCHOOL_LEVEL_LABELS[profile.schoolLevel]} ${profile.grade}학년`;
+
+// "고등학생", for prompts such as "고등학생 눈높이에 맞춰"
+export const learnerNoun = (profile: LearnerProfile) => (profile.schoolLevel === 'high' ? '고등학생' : '중학생');
+
+// Identifies the audience in content cache keys, so a profile change doesn't serve text written for someone else.
+export const learnerProfileTag = (profile: LearnerProfile) =>
+    [profile.schoolLevel, profile.grade, profile.selfRatedLevel, profile.explanationStyle].join('-');
+
+export const buildLearnerPrompt = (profile: LearnerProfile) => {
+    const level = LEARNER_LEVEL_OPTIONS.find(option => option.id === profile.selfRatedLevel) ?? LEARNER_LEVEL_OPTIONS[1];
+    const style = EXPLANATION_STYLE_OPTIONS.find(option => option.id === profile.explanationStyle) ?? EXPLANATION_STYLE_OPTIONS[0];
+    return `
+**[학습자 정보]**
+- 학년: ${describeLearner(profile)}
+- 스스로 평가한 수준: ${level.name} → ${level.prompt}
+- 선호하는 설명 방식: ${style.name} → ${style.prompt}
+용어의 난이도, 설명의 깊이, 어조를 이 학습자에게 맞추세요.
+`;
+};
@@ -0,0 +1,604 @@
+import type { ShortAnswerEvaluation } from '../types.ts';
+
+// Offline equivalence check for short math answers. Both the student's answer and the key
+// (LaTeX or plain text) are parsed into expression trees and compared numerically, so
+// `2x+1` matches `1+2x`, `1/2` matches `0.5` and `x=1 또는 x=2` matches `2, 1`.
+// Anything it cannot parse confidently is reported as 'unknown' and left to AI grading.
+
+export type EquivalenceResult = 'equivalent' | 'different' | 'unknown';
+
+type Expr =
+    | { kind: 'num'; value: number }
+    | { kind: 'var'; name: string }
+    | { kind: 'neg'; arg: Expr }
+    | { kind: 'op'; op: '+' | '-' | '*' | '/' | '^'; left: Expr; right: Expr }
+    | { kind: 'fn'; name: string; arg: Expr };
+
+type AnswerValue =
+    | { kind: 'expr'; expr: Expr }
+    | { kind: 'equation'; diff: Expr } // lhs - rhs of a general equation
+    | { kind: 'tuple'; items: Expr[] } // ordered pair or coordinate
+    | { kind: 'set'; items: Expr[] } // roots or an explicit set; order does not matter
+    | { kind: 'assignments'; items: { name: string; value: Expr }[] } // "a=2, b=3": one value per variable
+    | { kind: 'interval'; lower: Expr | null; upper: Expr | null; lowerClosed: boolean; upperClosed: boolean };
+
+class UnsupportedAnswerError extends Error {}
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    log: Math.log10,
+    ln: Math.log,
+    abs: Math.abs,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E, inf: Infinity };
+
+// Functions we don't evaluate. Without this list "exp" would read as e·x·p and "sinh" as sin(h).
+const UNSUPPORTED_FUNCTIONS = ['exp', 'sinh', 'cosh', 'tanh', 'sec', 'csc', 'cot', 'arcsin', 'arccos', 'arctan', 'asin', 'acos', 'atan', 'max', 'min', 'lim'];
+
+// Fixed, non-integer sample points so that results are reproducible and rarely hit coincidences.
+const SAMPLE_VALUES = [0.731, -1.318, 2.207, -0.562, 1.649, -2.473, 0.289, 3.117];
+const EXACT_TOLERANCE = 1e-9;
+// Values this close but not exact look like rounding (e.g. 0.866 for √3/2); let the AI judge those.
+const ROUNDING_TOLERANCE = 1e-2;
+
+// ---------- LaTeX / unicode to plain text ----------
+
+const readGroup = (text: string, start: number): [string, number] => {
+    let i = start;
+    while (text[i] === ' ') i++;
+    if (text[i] !== '{') {
+        // \frac12 style: a single character argument
+        return [text[i] ?? '', i + 1];
+    }
+    let depth = 0;
+    for (let j = i; j < text.length; j++) {
+        if (text[j] === '{') depth++;
+        if (text[j] === '}') depth--;
+        if (depth === 0) return [text.slice(i + 1, j), j + 1];
+    }
+    throw new UnsupportedAnswerError('unbalanced braces');
+};
+
+const convertStructures = (text: string): string => {
+    let out = '';
+    let i = 0;
+    while (i < text.length) {
+        if (text.startsWith('\\frac', i)) {
+            const [numerator, afterNumerator] = readGroup(text, i + 5);
+            const [denominator, afterDenominator] = readGroup(text, afterNumerator);
+            out += `((${convertStructures(numerator)})/(${convertStructures(denominator)}))`;
+            i = afterDenominator;
+        } else if (text.startsWith('\\sqrt', i)) {
+            let j = i + 5;
+            let index: string | null = null;
+            if (text[j] === '[') {
+                const close = text.indexOf(']', j);
+                if (close === -1) throw new UnsupportedAnswerError('unclosed root index');
+                index = text.slice(j + 1, close);
+                j = close + 1;
+            }
+            const [radicand, after] = readGroup(text, j);
+            out += index === null
+                ? `sqrt(${convertStructures(radicand)})`
+                : `((${convertStructures(radicand)})^(1/(${convertStructures(index)})))`;
+            i = after;
+        } else {
+            out += text[i];
+            i++;
+        }
+    }
+    return out;
+};
+
+export const latexToPlain = (input: string): string => {
+    let text = input
+        .replace(/\$/g, '')
+        .replace(/\\(left|right|displaystyle)/g, '')
+        .replace(/\\[,;:! ]/g, ' ')
+        .replace(/\\[dt]frac/g, '\\frac')
+        .replace(/\\\{/g, '⦃')
+        .replace(/\\\}/g, '⦄');
+    text = convertStructures(text);
+    return text
+        .replace(/\\(cdot|times)/g, '*')
+        .replace(/\\div/g, '/')
+        .replace(/\\pm/g, '±')
+        .replace(/\\(leq|le)\b/g, '<=')
+        .replace(/\\(geq|ge)\b/g, '>=')
+        .replace(/\\lt\b/g, '<')
+        .replace(/\\gt\b/g, '>')
+        .replace(/\\infty/g, 'inf')
+        .replace(/\\(pi|sin|cos|tan|log|ln)\b/g, '$1')
+        .replace(/[×·]/g, '*')
+        .replace(/÷/g, '/')
+        .replace(/−/g, '-')
+        .replace(/≤/g, '<=')
+        .replace(/≥/g, '>=')
+        .replace(/π/g, 'pi')
+        .replace(/∞/g, 'inf')
+        .replace(/√\s*\(/g, 'sqrt(')
+        .replace(/√\s*([\d.a-z]+)/g, 'sqrt($1)')
+        .replace(/²/g, '^2')
+        .replace(/³/g, '^3')
+        .replace(/[{]/g, '(')
+        .replace(/[}]/g, ')')
+        .replace(/⦃/g, '{')
+        .replace(/⦄/g, '}')
+        .trim();
+};
+
+// ---------- Expression parser ----------
+
+type Token = { type: 'num'; value: number } | { type: 'id'; value: string } | { type: 'sym'; value: string };
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[\d.]/.test(ch)) {
+            const match = text.slice(i).match(/^\d*\.?\d+|^\d+\./)!;
+            // "1e3" is 1000 to a calculator but 1·e·3 to the parser.
+            if (/^[eE][-+]?\d/.test(text.slice(i + match[0].length))) throw new UnsupportedAnswerError('scientific notation');
+            tokens.push({ type: 'num', value: Number(match[0]) });
+            i += match[0].length;
+        } else if (/[a-zA-Z]/.test(ch)) {
+            const word = text.slice(i).match(/^[a-zA-Z]+/)![0];
+            const unsupported = UNSUPPORTED_FUNCTIONS.find(name => word.startsWith(name));
+            if (unsupported) throw new UnsupportedAnswerError(`unsupported function ${unsupported}`);
+            const known = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].find(name => word.startsWith(name));
+            if (known) {
+                tokens.push({ type: 'id', value: known });
+                i += known.length;
+            } else {
+                if (ch === 'i') throw new UnsupportedAnswerError('complex numbers');
+                // A longer word is more likely a unit ("12cm", "3kg") than a product of variables.
+                if (word.length > 1) throw new UnsupportedAnswerError(`unknown word ${word}`);
+                tokens.push({ type: 'id', value: ch });
+                i++;
+            }
+        } else if ('+-*/^()|'.includes(ch)) {
+            tokens.push({ type: 'sym', value: ch });
+            i++;
+        } else {
+            throw new UnsupportedAnswerError(`unexpected character ${ch}`);
+        }
+    }
+    return tokens;
+};
+
+const parseExpression = (text: string): Expr => {
+    const tokens = tokenize(text);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const isSym = (value: string) => peek()?.type === 'sym' && peek()!.value === value;
+    const expect = (value: string) => {
+        if (!isSym(value)) throw new UnsupportedAnswerError(`expected ${value}`);
+        pos++;
+    };
+
+    const parseSum = (): Expr => {
+        let left = parseProduct();
+        while (isSym('+') || isSym('-')) {
+            const op = tokens[pos++].value as '+' | '-';
+            left = { kind: 'op', op, left, right: parseProduct() };
+        }
+        return left;
+    };
+
+    const startsOperand = () => {
+        const token = peek();
+        return !!token && (token.type !== 'sym' || token.value === '(');
+    };
+
+    const parseProduct = (): Expr => {
+        let left = parseUnary();
+        while (true) {
+            if (isSym('*') || isSym('/')) {
+                const op = tokens[pos++].value as '*' | '/';
+                left = { kind: 'op', op, left, right: parseUnary() };
+            } else if (startsOperand()) {
+                // Implicit multiplication: 2x, 3(x+1), x y
+                left = { kind: 'op', op: '*', left, right: parsePower() };
+            } else {
+                return left;
+            }
+        }
+    };
+
+    const parseUnary = (): Expr => {
+        if (isSym('-')) {
+            pos++;
+            return { kind: 'neg', arg: parseUnary() };
+        }
+        if (isSym('+')) {
+            pos++;
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    const parsePower = (): Expr => {
+        const base = parsePrimary();
+        if (isSym('^')) {
+            pos++;
+            return { kind: 'op', op: '^', left: base, right: parseUnary() };
+        }
+        return base;
+    };
+
+    const parsePrimary = (): Expr => {
+        const token = peek();
+        if (!token) throw new UnsupportedAnswerError('unexpected end');
+        pos++;
+        if (token.type === 'num') return { kind: 'num', value: token.value };
+        if (token.type === 'id') {
+            if (token.value in FUNCTIONS) {
+                // "sin(2x)" takes the bracket; a power after it applies to the result, as in sin(x)^2.
+                if (isSym('(')) return { kind: 'fn', name: token.value, arg: parsePrimary() };
+                // "sin 2x" could be sin(2x) or sin(2)·x, and "sin x cos x" is just as unclear.
+                const arg = parsePower();
+                if (startsOperand()) throw new UnsupportedAnswerError(`ambiguous argument of ${token.value}`);
+                return { kind: 'fn', name: token.value, arg };
+            }
+            if (token.value in CONSTANTS) return { kind: 'num', value: CONSTANTS[token.value] };
+            return { kind: 'var', name: token.value };
+        }
+        if (token.value === '(') {
+            const inner = parseSum();
+            expect(')');
+            return inner;
+        }
+        if (token.value === '|') {
+            const inner = parseSum();
+            expect('|');
+            return { kind: 'fn', name: 'abs', arg: inner };
+        }
+        throw new UnsupportedAnswerError(`unexpected ${token.value}`);
+    };
+
+    const expr = parseSum();
+    if (pos !== tokens.length) throw new UnsupportedAnswerError('trailing input');
+    return expr;
+};
+
+const collectVariables = (expr: Expr, into: Set<string> = new Set()): Set<string> => {
+    switch (expr.kind) {
+        case 'var': into.add(expr.name); break;
+        case 'neg': collectVariables(expr.arg, into); break;
+        case 'fn': collectVariables(expr.arg, into); break;
+        case 'op': collectVariables(expr.left, into); collectVariables(expr.right, into); break;
+    }
+    return into;
+};
+
+const evaluate = (expr: Expr, scope: Record<string, number>): number => {
+    switch (expr.kind) {
+        case 'num': return expr.value;
+        case 'var': return scope[expr.name];
+        case 'neg': return -evaluate(expr.arg, scope);
+        case 'fn': return FUNCTIONS[expr.name](evaluate(expr.arg, scope));
+        case 'op': {
+            const left = evaluate(expr.left, scope);
+            const right = evaluate(expr.right, scope);
+            switch (expr.op) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return left / right;
+                case '^': return Math.pow(left, right);
+            }
+        }
+    }
+};
+
+// Compiles an expression in x ("x^2-1", "y = \sin(x)", "f(x)=2^x") into a function for plotting.
+// Returns null when it can't be parsed or uses any variable other than x.
+export const compileFunctionOfX = (expression: string): ((x: number) => number) | null => {
+    try {
+        const plain = latexToPlain(expression).replace(/^\s*(y|f\s*\(\s*x\s*\))\s*=/, '');
+        const expr = parseExpression(plain);
+        if ([...collectVariables(expr)].some(name => name !== 'x')) return null;
+        return (x: number) => evaluate(expr, { x });
+    } catch (error) {
+        if (error instanceof UnsupportedAnswerError) return null;
+        throw error;
+    }
+};
+
+// Evaluates a constant such as "3", "sqrt(3)" or "2cos(pi/3)". Null when it has variables or can't be read.
+export const evaluateConstantExpression = (expression: string): number | null => {
+    try {
+        const expr = parseExpression(latexToPlain(expression));
+        if (collectVariables(expr).size > 0) return null;
+        const value = evaluate(expr, {});
+        return Number.isFinite(value) ? value : null;
+    } catch (error) {
+        if (error instanceof UnsupportedAnswerError) return null;
+        throw error;
+    }
+};
+
+// ---------- Answer structure ----------
+
+// Splits on commas that are not nested inside brackets.
+const splitTopLevel = (text: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+        if ('([{'.includes(ch)) depth++;
+        if (')]}'.includes(ch)) depth--;
+        if (ch === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(part => part !== '');
+};
+
+const SINGLE_VARIABLE = /^[a-zA-Z]$/;
+const ASSIGNMENT = /^\s*([a-zA-Z])\s*=(?!=)(.*)$/;
+
+// "x = 3" -> "3"; leaves anything else untouched.
+const stripVariablePrefix = (text: string) => {
+    const match = text.match(ASSIGNMENT);
+    return match ? match[2].trim() : text;
+};
+
+// "a = 2, b = 3" names each value, so the values can't be compared as an unordered set.
+// Only one value per variable is read; "x=1, y=2 또는 x=3, y=4" pairs them up in ways we can't tell apart.
+const parseAssignments = (parts: string[]): AnswerValue => {
+    const items = parts.map(part => {
+        const match = part.match(ASSIGNMENT);
+        if (!match) throw new UnsupportedAnswerError('mixed named and unnamed values');
+        return { name: match[1], value: parseExpression(match[2].trim()) };
+    });
+    if (new Set(items.map(item => item.name)).size !== items.length) throw new UnsupportedAnswerError('repeated variable');
+    return { kind: 'assignments', items };
+};
+
+// "1 ± √2" -> ["1 + √2", "1 - √2"]
+const expandPlusMinus = (text: string): string[] => {
+    const index = text.indexOf('±');
+    if (index === -1) return [text];
+    return [
+        ...expandPlusMinus(text.slice(0, index) + '+' + text.slice(index + 1)),
+        ...expandPlusMinus(text.slice(0, index) + '-' + text.slice(index + 1)),
+    ];
+};
+
+const parseInequality = (text: string): AnswerValue | null => {
+    const parts = text.split(/(<=|>=|<|>)/).map(part => part.trim());
+    if (parts.length === 3) {
+        const [left, op, right] = parts;
+        const variableOnLeft = SINGLE_VARIABLE.test(left);
+        if (!variableOnLeft && !SINGLE_VARIABLE.test(right)) return null;
+        const bound = parseExpression(variableOnLeft ? right : left);
+        // Normalise to "x op bound"
+        const flipped = variableOnLeft ? op : ({ '<': '>', '>': '<', '<=': '>=', '>=': '<=' } as Record<string, string>)[op];
+        const closed = flipped.endsWith('=');
+        return flipped.startsWith('>')
+            ? { kind: 'interval', lower: bound, upper: null, lowerClosed: closed, upperClosed: false }
+            : { kind: 'interval', lower: null, upper: bound, lowerClosed: false, upperClosed: closed };
+    }
+    if (parts.length === 5 && SINGLE_VARIABLE.test(parts[2]) && parts[1].startsWith('<') && parts[3].startsWith('<')) {
+        return {
+            kind: 'interval',
+            lower: parseExpression(parts[0]),
+            upper: parseExpression(parts[4]),
+            lowerClosed: parts[1] === '<=',
+            upperClosed: parts[3] === '<=',
+        };
+    }
+    return null;
+};
+
+const parseBound = (text: string): Expr | null => (/^[-+]?inf$/.test(text) ? null : parseExpression(text));
+
+const parseAnswer = (raw: string): AnswerValue => {
+    // A bare "{1, 2}" typed without LaTeX escapes is still a set, not a group.
+    const trimmed = raw.trim();
+    const source = /^\{.*\}$/.test(trimmed) ? `\\{${trimmed.slice(1, -1)}\\}` : trimmed;
+    let text = latexToPlain(source)
+        .replace(/\s*(또는|혹은|그리고|이고|or|and)\s*/g, ',')
+        .replace(/[.。]$/, '')
+        .trim();
+    if (text === '') throw new UnsupportedAnswerError('empty');
+
+    if (/<|>/.test(text)) {
+        const inequality = parseInequality(text);
+        if (inequality) return inequality;
+        throw new UnsupportedAnswerError('unsupported inequality');
+    }
+
+    const first = text[0];
+    const last = text[text.length - 1];
+    if (first === '{' && last === '}') {
+        return { kind: 'set', items: splitTopLevel(text.slice(1, -1)).flatMap(expandPlusMinus).map(parseExpression) };
+    }
+    if ('[('.includes(first) && '])'.includes(last)) {
+        const inner = splitTopLevel(text.slice(1, -1));
+        const isInfinite = (part: string) => /^[-+]?inf$/.test(part);
+        if (inner.length === 2 && (first === '[' || last === ']' || inner.some(isInfinite))) {
+            return { kind: 'interval', lower: parseBound(inner[0]), upper: parseBound(inner[1]), lowerClosed: first === '[', upperClosed: last === ']' };
+        }
+        if (inner.length >= 2 && first === '(' && last === ')') {
+            return { kind: 'tuple', items: inner.map(parseExpression) };
+        }
+    }
+
+    const topLevel = splitTopLevel(text);
+    const names = new Set(topLevel.flatMap(part => part.match(ASSIGNMENT)?.[1] ?? []));
+    if (names.size > 1) return parseAssignments(topLevel);
+
+    const parts = topLevel.map(stripVariablePrefix).flatMap(expandPlusMinus);
+    if (parts.length > 1) {
+        return { kind: 'set', items: parts.map(parseExpression) };
+    }
+
+    text = parts[0];
+    const sides = text.split('=');
+    if (sides.length === 2) {
+        const [left, right] = sides.map(side => side.trim());
+        // "y = 2x + 1": compare the defining expression
+        if (SINGLE_VARIABLE.test(left)) return { kind: 'expr', expr: parseExpression(right) };
+        if (SINGLE_VARIABLE.test(right)) return { kind: 'expr', expr: parseExpression(left) };
+        return { kind: 'equation', diff: { kind: 'op', op: '-', left: parseExpression(left), right: parseExpression(right) } };
+    }
+    if (sides.length > 2) throw new UnsupportedAnswerError('chained equation');
+    return { kind: 'expr', expr: parseExpression(text) };
+};
+
+// ---------- Comparison ----------
+
+const compareNumbers = (a: number, b: number): EquivalenceResult => {
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return a === b ? 'equivalent' : 'unknown';
+    const scale = Math.max(1, Math.abs(a), Math.abs(b));
+    const diff = Math.abs(a - b) / scale;
+    if (diff <= EXACT_TOLERANCE) return 'equivalent';
+    if (diff <= ROUNDING_TOLERANCE) return 'unknown';
+    return 'different';
+};
+
+const sampleScopes = (variables: string[]): Record<string, number>[] =>
+    SAMPLE_VALUES.map((_, i) => Object.fromEntries(variables.map((name, k) => [name, SAMPLE_VALUES[(i + k * 3) % SAMPLE_VALUES.length]])));
+
+const compareExpressions = (a: Expr, b: Expr): EquivalenceResult => {
+    const variablesA = collectVariables(a);
+    const variablesB = collectVariables(b);
+    // "4m" for "4" or "A" for "a" is a unit or a letter case, not necessarily a wrong value.
+    if (variablesA.size !== variablesB.size || [...variablesA].some(name => !variablesB.has(name))) return 'unknown';
+    const variables = [...variablesA];
+    if (variables.length === 0) return compareNumbers(evaluate(a, {}), evaluate(b, {}));
+
+    let checked = 0;
+    for (const scope of sampleScopes(variables)) {
+        const valueA = evaluate(a, scope);
+        const valueB = evaluate(b, scope);
+        if (!Number.isFinite(valueA) || !Number.isFinite(valueB)) continue; // outside the domain
+        const result = compareNumbers(valueA, valueB);
+        if (result !== 'equivalent') return result;
+        checked++;
+    }
+    return checked >= 3 ? 'equivalent' : 'unknown';
+};
+
+// Two equations are the same when one side-difference is a constant non-zero multiple of the other.
+const compareEquations = (a: Expr, b: Expr): EquivalenceResult => {
+    const variables = [...new Set([...collectVariables(a), ...collectVariables(b)])];
+    let ratio: number | null = null;
+    let checked = 0;
+    for (const scope of sampleScopes(variables)) {
+        const valueA = evaluate(a, scope);
+        const valueB = evaluate(b, scope);
+        if (!Number.isFinite(valueA) || !Number.isFinite(valueB) || Math.abs(valueB) < EXACT_TOLERANCE) continue;
+        const current = valueA / valueB;
+        if (ratio === null) {
+            ratio = current;
+        } else if (compareNumbers(ratio, current) !== 'equivalent') {
+            return 'unknown';
+        }
+        checked++;
+    }
+    return checked >= 3 && ratio !== null && Math.abs(ratio) > EXACT_TOLERANCE ? 'equivalent' : 'unknown';
+};
+
+const compareLists = (a: Expr[], b: Expr[], ordered: boolean): EquivalenceResult => {
+    // A different number of roots or coordinates may deserve partial credit; leave it to the AI.
+    if (a.length !== b.length) return 'unknown';
+    if (ordered) {
+        const results = a.map((item, i) => compareExpressions(item, b[i]));
+        if (results.includes('unknown')) return 'unknown';
+        return results.every(result => result === 'equivalent') ? 'equivalent' : 'different';
+    }
+    const remaining = [...b];
+    for (const item of a) {
+        const match = remaining.findIndex(candidate => compareExpressions(item, candidate) === 'equivalent');
+        if (match === -1) {
+            return remaining.some(candidate => compareExpressions(item, candidate) === 'unknown') ? 'unknown' : 'different';
+        }
+        remaining.splice(match, 1);
+    }
+    return 'equivalent';
+};
+
+const compareBounds = (a: Expr | null, b: Expr | null): EquivalenceResult => {
+    if (a === null || b === null) return a === b ? 'equivalent' : 'different';
+    return compareExpressions(a, b);
+};
+
+const compareValues = (a: AnswerValue, b: AnswerValue): EquivalenceResult => {
+    // A single root may be written with or without set notation.
+    if (a.kind === 'set' && a.items.length === 1) return compareValues({ kind: 'expr', expr: a.items[0] }, b);
+    if (b.kind === 'set' && b.items.length === 1) return compareValues(a, { kind: 'expr', expr: b.items[0] });
+    // "(1, 3)" is both an ordered pair and an open interval.
+    if (a.kind === 'tuple' && b.kind === 'interval') return compareValues(b, a);
+    if (a.kind === 'interval' && b.kind === 'tuple') {
+        if (b.items.length !== 2 || a.lowerClosed || a.upperClosed) return 'unknown';
+        return compareValues(a, { kind: 'interval', lower: b.items[0], upper: b.items[1], lowerClosed: false, upperClosed: false });
+    }
+    if (a.kind !== b.kind) return 'unknown';
+
+    switch (a.kind) {
+        case 'expr':
+            return compareExpressions(a.expr, (b as typeof a).expr);
+        case 'equation':
+            return compareEquations(a.diff, (b as typeof a).diff);
+        case 'tuple':
+            return compareLists(a.items, (b as typeof a).items, true);
+        case 'set':
+            return compareLists(a.items, (b as typeof a).items, false);
+        case 'assignments': {
+            const other = b as typeof a;
+            if (a.items.length !== other.items.length) return 'unknown';
+            const results = a.items.map(item => {
+                const match = other.items.find(candidate => candidate.name === item.name);
+                // Different letters for the unknowns; the AI can tell whether they line up.
+                return match ? compareExpressions(item.value, match.value) : 'unknown';
+            });
+            if (results.includes('unknown')) return 'unknown';
+            return results.every(result => result === 'equivalent') ? 'equivalent' : 'different';
+        }
+        case 'interval': {
+            const other = b as typeof a;
+            if (a.lowerClosed !== other.lowerClosed || a.upperClosed !== other.upperClosed) return 'different';
+            const results = [compareBounds(a.lower, other.lower), compareBounds(a.upper, other.upper)];
+            if (results.includes('unknown')) return 'unknown';
+            return results.every(result => result === 'equivalent') ? 'equivalent' : 'different';
+        }
+    }
+};
+
+export const compareMathAnswers = (studentAnswer: string, answerKey: string): EquivalenceResult => {
+    if (!studentAnswer.trim() || !answerKey.trim()) return 'unknown';
+    try {
+        return compareValues(parseAnswer(studentAnswer), parseAnswer(answerKey));
+    } catch (error) {
+        if (error instanceof UnsupportedAnswerError) return 'unknown';
+        console.warn("Math equivalence check failed:", error);
+        return 'unknown';
+    }
+};
+
+// Grades a short answer without the AI when the math check is conclusive, otherwise returns null.
+export const gradeShortAnswerLocally = (studentAnswer: string, answerKey: string): ShortAnswerEvaluation | null => {
+    switch (compareMathAnswers(studentAnswer, answerKey)) {
+        case 'equivalent':
+            return { grade: 'A', feedback: "정답과 같은 값(식)이에요. 자동으로 채점했어요.", gradedLocally: true };
+        case 'different':
+            return { grade: 'E', feedback: "정답과 값이 달라요. 해설을 보며 풀이 과정을 다시 확인해보세요.", gradedLocally: true };
+        default:
+            return null;
+    }
+};
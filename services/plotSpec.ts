@@ -0,0 +1,143 @@
+import type { PlotSpec } from '../types.ts';
+import type { JsonSchema } from './aiProvider.ts';
+import { compileFunctionOfX } from './mathEquivalence.ts';
+
+// Graphs are requested from the model as a PlotSpec (in question JSON, or as a ```plot
+// fenced block in markdown) and drawn by FunctionPlot. Everything here checks that a spec
+// is usable before it reaches the renderer; whatever can't be drawn is dropped.
+
+export const PLOT_FENCE_LANGUAGE = 'plot';
+
+const MAX_FUNCTIONS = 4;
+const MAX_POINTS = 12;
+const DEFAULT_RANGE = 5;
+
+export const PLOT_SPEC_SCHEMA: JsonSchema = {
+    type: 'object',
+    description: "Function graph the app draws itself. Omit when the question needs no graph.",
+    properties: {
+        xMin: { type: 'number' },
+        xMax: { type: 'number' },
+        yMin: { type: 'number' },
+        yMax: { type: 'number' },
+        piTicks: { type: 'boolean', description: "true for trigonometric graphs (x-axis in multiples of π/2)" },
+        functions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    expression: { type: 'string', description: "Plain text in x, e.g. 'x^2 - 2x', '2^x', 'ln(x)/ln(2)', 'sin(2x)'. No LaTeX." },
+                    label: { type: 'string', description: "Short label such as 'y=f(x)'" },
+                    domainMin: { type: 'number' },
+                    domainMax: { type: 'number' },
+                },
+                required: ["expression"],
+            },
+        },
+        points: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    x: { type: 'number' },
+                    y: { type: 'number' },
+                    label: { type: 'string' },
+                    open: { type: 'boolean', description: "true for an excluded (hollow) point" },
+                },
+                required: ["x", "y"],
+            },
+        },
+        asymptotes: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    orientation: { type: 'string', enum: ['vertical', 'horizontal'] },
+                    value: { type: 'number' },
+                },
+                required: ["orientation", "value"],
+            },
+        },
+        shadedRegions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    upper: { type: 'string', description: "Upper boundary expression in x" },
+                    lower: { type: 'string', description: "Lower boundary expression in x; '0' for the x-axis" },
+                    from: { type: 'number' },
+                    to: { type: 'number' },
+                },
+                required: ["upper", "lower", "from", "to"],
+            },
+        },
+    },
+    required: ["xMin", "xMax", "yMin", "yMax", "functions"],
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOrientation = (value: unknown): value is 'vertical' | 'horizontal' => value === 'vertical' || value === 'horizontal';
+
+const optionalNumber = (value: unknown) => (isFiniteNumber(value) ? value : undefined);
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const compiles = (expression: unknown): expression is string =>
+    typeof expression === 'string' && compileFunctionOfX(expression) !== null;
+
+const readRange = (min: unknown, max: unknown): [number, number] =>
+    isFiniteNumber(min) && isFiniteNumber(max) && min < max ? [min, max] : [-DEFAULT_RANGE, DEFAULT_RANGE];
+
+// Returns a clean copy of a model-written spec, or null when nothing in it can be drawn.
+export const normalizePlotSpec = (raw: unknown): PlotSpec | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const spec = raw as Record<string, unknown>;
+    const list = (value: unknown): Record<string, unknown>[] =>
+        Array.isArray(value) ? value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object') : [];
+
+    const functions = list(spec.functions)
+        .flatMap(fn => (compiles(fn.expression) ? [{
+            expression: fn.expression.trim(),
+            label: optionalText(fn.label),
+            domainMin: optionalNumber(fn.domainMin),
+            domainMax: optionalNumber(fn.domainMax),
+        }] : []))
+        .slice(0, MAX_FUNCTIONS);
+    const points = list(spec.points)
+        .flatMap(point => (isFiniteNumber(point.x) && isFiniteNumber(point.y)
+            ? [{ x: point.x, y: point.y, label: optionalText(point.label), open: point.open === true }]
+            : []))
+        .slice(0, MAX_POINTS);
+    if (functions.length === 0 && points.length === 0) return null;
+
+    const [xMin, xMax] = readRange(spec.xMin, spec.xMax);
+    const [yMin, yMax] = readRange(spec.yMin, spec.yMax);
+    const asymptotes = list(spec.asymptotes).flatMap(({ orientation, value }) =>
+        isOrientation(orientation) && isFiniteNumber(value) ? [{ orientation, value }] : []);
+    const shadedRegions = list(spec.shadedRegions).flatMap(region => {
+        const lower = optionalText(region.lower) ?? '0';
+        const { upper, from, to } = region;
+        return compiles(upper) && compiles(lower) && isFiniteNumber(from) && isFiniteNumber(to) && from < to
+            ? [{ upper: upper.trim(), lower, from, to }]
+            : [];
+    });
+
+    return {
+        xMin, xMax, yMin, yMax,
+        piTicks: spec.piTicks === true || undefined,
+        functions,
+        points: points.length > 0 ? points : undefined,
+        asymptotes: asymptotes.length > 0 ? asymptotes : undefined,
+        shadedRegions: shadedRegions.length > 0 ? shadedRegions : undefined,
+    };
+};
+
+// Reads the JSON body of a ```plot fenced block.
+export const parsePlotSource = (source: string): PlotSpec | null => {
+    try {
+        return normalizePlotSpec(JSON.parse(source));
+    } catch {
+        return null;
+    }
+};
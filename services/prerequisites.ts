@@ -0,0 +1,109 @@
+import type { PrerequisiteGraph, QuizResult, StandardLocation, WeakPrerequisite } from '../types.ts';
+import { EDUCATION_CURRICULUMS, STANDARD_PREREQUISITES, WEAK_STANDARD_SCORE, PREREQUISITE_SEARCH_DEPTH } from '../constants.ts';
+import { splitByStandard } from './studyHistory.ts';
+
+// The prerequisite graph between achievement standards: STANDARD_PREREQUISITES overlaid with
+// the student's own edits, which are made in the graph view (through useLocalStorage) and read
+// here wherever weak prerequisites are looked up.
+
+export const PREREQUISITE_EDITS_STORAGE_KEY = 'prerequisite_edits';
+
+// Every standard, in curriculum order
+export const ALL_STANDARD_LOCATIONS: StandardLocation[] = EDUCATION_CURRICULUMS.flatMap(curriculum =>
+    curriculum.subjects.flatMap(subject =>
+        subject.grades.flatMap(grade =>
+            grade.units.flatMap(unit =>
+                unit.standards.map(standard => ({ subjectName: subject.name, grade: grade.grade, unitName: unit.name, standard }))
+            )
+        )
+    )
+);
+
+const locationById = new Map(ALL_STANDARD_LOCATIONS.map(location => [location.standard.id, location]));
+
+export const findStandardLocation = (standardId: string) => locationById.get(standardId);
+
+// An edited list replaces the seeded one, so edits can remove links as well as add them.
+export const buildPrerequisiteGraph = (edits: PrerequisiteGraph): PrerequisiteGraph => ({ ...STANDARD_PREREQUISITES, ...edits });
+
+export const getPrerequisiteGraph = (): PrerequisiteGraph => {
+    try {
+        const item = window.localStorage.getItem(PREREQUISITE_EDITS_STORAGE_KEY);
+        return buildPrerequisiteGraph(item ? JSON.parse(item) : {});
+    } catch (error) {
+        console.error(error);
+        return STANDARD_PREREQUISITES;
+    }
+};
+
+export const getPrerequisites = (graph: PrerequisiteGraph, standardId: string) =>
+    (graph[standardId] || []).filter(id => locationById.has(id));
+
+export const getDependents = (graph: PrerequisiteGraph, standardId: string) =>
+    Object.keys(graph).filter(id => graph[id].includes(standardId) && locationById.has(id));
+
+// Whether `standardId` depends on `prerequisiteId`, directly or through other standards.
+export const dependsOn = (graph: PrerequisiteGraph, standardId: string, prerequisiteId: string): boolean => {
+    const seen = new Set<string>();
+    const stack = [standardId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === prerequisiteId) return true;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        stack.push(...(graph[id] || []));
+    }
+    return false;
+};
+
+// Standards that may be linked as prerequisites: those that come earlier in the same subject.
+export const prerequisiteCandidates = (standardId: string): StandardLocation[] => {
+    const location = locationById.get(standardId);
+    if (!location) return [];
+    const index = ALL_STANDARD_LOCATIONS.indexOf(location);
+    return ALL_STANDARD_LOCATIONS.slice(0, index).filter(candidate => candidate.subjectName === location.subjectName);
+};
+
+// Average of the last three scores per standard. Mixed quizzes count per standard.
+export const recentStandardScores = (history: QuizResult[]): Map<string, number> => {
+    const scoresById = new Map<string, number[]>();
+    history.flatMap(splitByStandard).forEach(result => {
+        scoresById.set(result.standardId, [...(scoresById.get(result.standardId) || []), result.score]);
+    });
+    return new Map([...scoresById.entries()].map(([id, scores]) => {
+        const recent = scores.slice(-3);
+        return [id, recent.reduce((sum, score) => sum + score, 0) / recent.length];
+    }));
+};
+
+// Prerequisites of a standard that are weak or not studied yet, up to PREREQUISITE_SEARCH_DEPTH
+// steps back. A prerequisite the student knows well ends the search along that path.
+// Weak ones come first, then the nearest.
+export const findWeakPrerequisites = (graph: PrerequisiteGraph, standardId: string, history: QuizResult[]): WeakPrerequisite[] => {
+    const scores = recentStandardScores(history);
+    const seen = new Set([standardId]);
+    const found: WeakPrerequisite[] = [];
+    let frontier = [standardId];
+    for (let depth = 1; depth <= PREREQUISITE_SEARCH_DEPTH && frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+            for (const prerequisiteId of getPrerequisites(graph, id)) {
+                if (seen.has(prerequisiteId)) continue;
+                seen.add(prerequisiteId);
+                const score = scores.get(prerequisiteId) ?? null;
+                if (score !== null && score >= WEAK_STANDARD_SCORE) continue;
+                found.push({ ...locationById.get(prerequisiteId)!, score, depth });
+                next.push(prerequisiteId);
+            }
+        }
+        frontier = next;
+    }
+    return found.sort((a, b) => Number(a.score === null) - Number(b.score === null) || a.depth - b.depth);
+};
+
+// Standards whose recent average is below WEAK_STANDARD_SCORE, weakest first.
+export const findWeakStandards = (history: QuizResult[]): { location: StandardLocation; score: number }[] =>
+    [...recentStandardScores(history).entries()]
+        .filter(([id, score]) => score < WEAK_STANDARD_SCORE && locationById.has(id))
+        .map(([id, score]) => ({ location: locationById.get(id)!, score }))
+        .sort((a, b) => a.score - b.score);
@@ -0,0 +1,188 @@
+import { GoogleGenAI, Type, Modality, Schema, GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { AiModelSettings, AiFeature, TTSVoice } from '../../types.ts';
+import type { AiProvider, AiTextRequest, AiJsonRequest, AiStreamChunk, JsonSchema } from '../aiProvider.ts';
+import { recordAiUsage } from '../usageLedger.ts';
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+    array: Type.ARRAY,
+    object: Type.OBJECT,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: SCHEMA_TYPES[schema.type],
+    description: schema.description,
+    enum: schema.enum,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    properties: schema.properties
+        ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+        : undefined,
+    required: schema.required,
+});
+
+// Thinking tokens are billed as output, so they count towards the output total.
+const recordUsage = (feature: AiFeature, model: string, usage?: GenerateContentResponseUsageMetadata) => {
+    recordAiUsage({
+        feature,
+        model,
+        inputTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    });
+};
+
+const isInvalidKeyError = (error: unknown) =>
+    error instanceof Error && (error.message.includes("API key not valid") || error.message.includes("Requested entity was not found."));
+
+export const createGeminiProvider = (apiKey: string, models: AiModelSettings): AiProvider => {
+    if (!apiKey) {
+        throw new Error("API 키가 제공되지 않았습니다.");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    const buildContents = (request: AiTextRequest) => (request.history?.length || request.images?.length
+        ? [
+            ...(request.history || []).map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+            {
+                role: 'user',
+                parts: [
+                    ...(request.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+                    { text: request.prompt },
+                ],
+            },
+        ]
+        : request.prompt);
+
+    const buildConfig = (request: AiTextRequest) => ({
+        systemInstruction: request.systemInstruction,
+        abortSignal: request.signal,
+        ...(request.disableThinking ? { thinkingConfig: { thinkingBudget: 0 } } : {}),
+    });
+
+    const buildJsonConfig = (request: AiJsonRequest) => ({
+        ...buildConfig(request),
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+    });
+
+    const streamContent = async (request: AiTextRequest, config: ReturnType<typeof buildConfig>) => {
+        const stream = await ai.models.generateContentStream({
+            model: models.textModel,
+            contents: buildContents(request),
+            config,
+        });
+        return (async function* (): AsyncGenerator<AiStreamChunk> {
+            // Usage arrives with the last chunk; record whatever was seen even if the reader stops early.
+            let usage: GenerateContentResponseUsageMetadata | undefined;
+            try {
+                for await (const chunk of stream) {
+                    request.signal?.throwIfAborted();
+                    usage = chunk.usageMetadata ?? usage;
+                    yield { text: chunk.text || '' };
+                }
+            } finally {
+                recordUsage(request.context.feature, models.textModel, usage);
+            }
+        })();
+    };
+
+    return {
+        id: 'gemini',
+        textModel: models.textModel,
+        imageModel: models.imageModel,
+
+        async validate() {
+            try {
+                // Use a very simple, low-cost call to validate the key
+                await ai.models.generateContent({
+                    model: models.textModel,
+                    contents: 'hello',
+                });
+            } catch (error) {
+                console.error("API Key validation failed:", error);
+                if (isInvalidKeyError(error)) {
+                    throw new Error("API 키가 유효하지 않습니다. Google AI Studio에서 발급받은 정확한 키인지 확인해주세요.");
+                }
+                throw new Error("키를 확인하는 중 오류가 발생했습니다. 네트워크 연결을 확인해주세요.");
+            }
+        },
+
+        async generateText(request) {
+            const response = await ai.models.generateContent({
+                model: models.textModel,
+                contents: buildContents(request),
+                config: buildConfig(request),
+            });
+            recordUsage(request.context.feature, models.textModel, response.usageMetadata);
+            return response.text || '';
+        },
+
+        generateTextStream(request) {
+            return streamContent(request, buildConfig(request));
+        },
+
+        async generateJson<T>(request: AiJsonRequest) {
+            const response = await ai.models.generateContent({
+                model: models.textModel,
+                contents: buildContents(request),
+                config: buildJsonConfig(request),
+            });
+            recordUsage(request.context.feature, models.textModel, response.usageMetadata);
+            return JSON.parse(response.text || '') as T;
+        },
+
+        generateJsonStream(request) {
+            return streamContent(request, buildJsonConfig(request));
+        },
+
+        async generateImage(prompt, signal) {
+            if (!models.imageModel) return null;
+            const response = await ai.models.generateContent({
+                model: models.imageModel,
+                contents: { parts: [{ text: prompt }] },
+                config: {
+                    abortSignal: signal,
+                    imageConfig: {
+                        aspectRatio: "1:1",
+                    },
+                },
+            });
+            recordUsage('image', models.imageModel, response.usageMetadata);
+
+            for (const part of response.candidates?.[0]?.content?.parts || []) {
+                if (part.inlineData && part.inlineData.data) {
+                    return part.inlineData.data;
+                }
+            }
+            return null;
+        },
+
+        async generateSpeech(text: string, voice: TTSVoice, signal?: AbortSignal) {
+            if (!models.speechModel) {
+                throw new Error("현재 AI 설정에서는 음성 합성을 사용할 수 없습니다.");
+            }
+            const response = await ai.models.generateContent({
+                model: models.speechModel,
+                contents: [{ parts: [{ text }] }],
+                config: {
+                    abortSignal: signal,
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: voice },
+                        },
+                    },
+                },
+            });
+            recordUsage('tts', models.speechModel, response.usageMetadata);
+
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new Error("API로부터 오디오 데이터를 받지 못했습니다.");
+            }
+            return base64Audio;
+        },
+    };
+};
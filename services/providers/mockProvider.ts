@@ -0,0 +1,175 @@
+import type { QuizQuestion, QuestionType, ShortAnswerEvaluation, MisconceptionTag } from '../../types.ts';
+import type { AiProvider, AiTextRequest, AiJsonRequest, AiStreamChunk } from '../aiProvider.ts';
+import { EDUCATION_CURRICULUMS } from '../../constants.ts';
+import demoPack from '../fixtures/demoPack.json';
+
+interface FixtureContent {
+    explanation?: string;
+    conceptSummary?: string;
+    summary?: string;
+    followUp?: string;
+    diagnosis?: string;
+    grade?: { correct: ShortAnswerEvaluation; incorrect: ShortAnswerEvaluation };
+    handwrittenGrade?: ShortAnswerEvaluation;
+    hints?: string[];
+    misconception?: MisconceptionTag;
+    prerequisiteReason?: string;
+    questions?: Partial<Record<QuestionType, QuizQuestion[]>>;
+}
+
+// A fixture pack supplies canned content for every standard: `defaults` covers all of
+// EDUCATION_CURRICULUMS, and `standards` overrides it per standard id.
+export interface FixturePack {
+    name: string;
+    defaults: Required<FixtureContent>;
+    standards: Record<string, FixtureContent>;
+}
+
+const STREAM_CHUNK_SIZE = 40;
+const STREAM_CHUNK_DELAY_MS = 15;
+const SILENT_AUDIO_BYTES = 24000; // 0.5s of 16-bit PCM at 24kHz
+
+const standardIdByDescription = new Map<string, string>();
+for (const curriculum of EDUCATION_CURRICULUMS) {
+    for (const subject of curriculum.subjects) {
+        for (const grade of subject.grades) {
+            for (const unit of grade.units) {
+                for (const standard of unit.standards) {
+                    standardIdByDescription.set(standard.description, standard.id);
+                }
+            }
+        }
+    }
+}
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+    template.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+
+const fillQuestionTemplate = (template: QuizQuestion, values: Record<string, string>): QuizQuestion =>
+    Object.fromEntries(Object.entries(template).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? fillTemplate(value, values)
+            : Array.isArray(value) ? value.map(item => (typeof item === 'string' ? fillTemplate(item, values) : item))
+            : value,
+    ])) as QuizQuestion;
+
+const normalizeAnswer = (answer: string) => answer.replace(/[\s$]/g, '').replace(/[.,]$/, '').toLowerCase();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = (pack: FixturePack = demoPack as FixturePack): AiProvider => {
+    const lookup = <K extends keyof FixtureContent>(request: AiTextRequest, key: K): NonNullable<FixtureContent[K]> => {
+        const standardId = standardIdByDescription.get(request.context.standardDescription || '');
+        const override = standardId ? pack.standards[standardId]?.[key] : undefined;
+        return (override ?? pack.defaults[key]) as NonNullable<FixtureContent[K]>;
+    };
+
+    const templateValues = (request: AiTextRequest) => ({
+        description: request.context.standardDescription || '',
+        subject: request.context.subjectName || '',
+    });
+
+    const cannedText = (request: AiTextRequest): string => {
+        const values = templateValues(request);
+        switch (request.context.feature) {
+            case 'explanation':
+                return fillTemplate(lookup(request, 'explanation'), values);
+            case 'summary':
+            case 'session-summary':
+                return fillTemplate(request.context.standardDescription ? lookup(request, 'conceptSummary') : pack.defaults.summary, values);
+            case 'follow-up':
+                return fillTemplate(lookup(request, 'followUp'), values);
+            case 'memory':
+                return pack.defaults.summary;
+            case 'diagnosis':
+                return fillTemplate(pack.defaults.diagnosis, values);
+            default:
+                return '';
+        }
+    };
+
+    const cannedQuestions = (request: AiTextRequest): QuizQuestion[] => {
+        const questions: QuizQuestion[] = [];
+        for (const { type, count } of request.context.questionRequests || []) {
+            const ownPool = lookup(request, 'questions')[type];
+            const pool = ownPool && ownPool.length > 0 ? ownPool : pack.defaults.questions[type] || [];
+            for (let i = 0; i < count && pool.length > 0; i++) {
+                const values = { ...templateValues(request), n: String(questions.length + 1) };
+                questions.push(fillQuestionTemplate(pool[i % pool.length], values));
+            }
+        }
+        return questions;
+    };
+
+    const cannedGrade = (request: AiTextRequest): ShortAnswerEvaluation => {
+        const grades = lookup(request, 'grade');
+        const { expectedAnswer = '', studentAnswer = '' } = request.context;
+        const isCorrect = studentAnswer.trim() !== '' && normalizeAnswer(studentAnswer) === normalizeAnswer(expectedAnswer);
+        return isCorrect ? grades.correct : grades.incorrect;
+    };
+
+    const cannedJson = (request: AiJsonRequest): unknown => {
+        switch (request.context.feature) {
+            case 'quiz':
+                return cannedQuestions(request);
+            case 'grading':
+                // A photo can't be compared with the key offline, so it always gets the canned handwritten result.
+                return request.images?.length ? lookup(request, 'handwrittenGrade') : cannedGrade(request);
+            case 'verification':
+                // Fixtures carry no independent solutions, so every question stays unchecked.
+                return [];
+            case 'hint':
+                return { hints: lookup(request, 'hints') };
+            case 'misconception':
+                return (request.context.itemIndexes || []).map(index => ({ index, ...lookup(request, 'misconception') }));
+            case 'prerequisites':
+                // The standard just before is the likeliest prerequisite without knowing the content.
+                return (request.context.candidateIds || []).slice(-1).map(standardId => ({ standardId, reason: lookup(request, 'prerequisiteReason') }));
+            default:
+                throw new Error(`데모 모드에서 지원하지 않는 요청입니다: ${request.context.feature}`);
+        }
+    };
+
+    // Replays canned text in small delayed chunks so streaming UIs behave as they do online.
+    const streamText = async (text: string, signal?: AbortSignal) => (async function* (): AsyncGenerator<AiStreamChunk> {
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            await delay(STREAM_CHUNK_DELAY_MS);
+            signal?.throwIfAborted();
+            yield { text: text.slice(i, i + STREAM_CHUNK_SIZE) };
+        }
+    })();
+
+    return {
+        id: 'mock',
+        textModel: `fixture:${pack.name}`,
+        imageModel: '',
+
+        async validate() {
+            // Fixtures are bundled with the app, so there is nothing to reach.
+        },
+
+        async generateText(request) {
+            return cannedText(request);
+        },
+
+        async generateTextStream(request) {
+            return streamText(cannedText(request), request.signal);
+        },
+
+        async generateJson<T>(request: AiJsonRequest) {
+            return cannedJson(request) as T;
+        },
+
+        async generateJsonStream(request) {
+            return streamText(JSON.stringify(cannedJson(request)), request.signal);
+        },
+
+        async generateImage() {
+            return null;
+        },
+
+        async generateSpeech() {
+            return btoa('\0'.repeat(SILENT_AUDIO_BYTES));
+        },
+    };
+};
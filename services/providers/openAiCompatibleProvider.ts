@@ -0,0 +1,210 @@
+import type { OpenAiCompatibleSettings, AiFeature, TTSVoice } from '../../types.ts';
+import { AiRequestError } from '../aiProvider.ts';
+import type { AiProvider, AiTextRequest, AiJsonRequest, AiStreamChunk } from '../aiProvider.ts';
+import { recordAiUsage } from '../usageLedger.ts';
+
+// OpenAI has no Korean-named voices, so map the app's voice list onto the closest built-in ones.
+const VOICE_MAP: Record<TTSVoice, string> = {
+    Kore: 'nova',
+    Puck: 'echo',
+    Charon: 'onyx',
+    Fenrir: 'shimmer',
+    Zephyr: 'fable',
+};
+
+const buildMessages = (request: AiTextRequest) => [
+    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+    ...(request.history || []).map(message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text })),
+    {
+        role: 'user',
+        content: request.images?.length
+            ? [
+                ...request.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+                { type: 'text', text: request.prompt },
+            ]
+            : request.prompt,
+    },
+];
+
+interface ChatUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+const recordUsage = (feature: AiFeature, model: string, usage?: ChatUsage) => {
+    recordAiUsage({ feature, model, inputTokens: usage?.prompt_tokens ?? 0, outputTokens: usage?.completion_tokens ?? 0 });
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Local models often wrap JSON in a markdown code fence even when asked not to.
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export const createOpenAiCompatibleProvider = (settings: OpenAiCompatibleSettings): AiProvider => {
+    const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+    if (!baseUrl) {
+        throw new Error("AI 서버 주소가 설정되지 않았습니다.");
+    }
+
+    const send = async (path: string, init: RequestInit = {}): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+                ...init.headers,
+            },
+        });
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new AiRequestError(
+                `AI 서버 응답 오류 (${response.status}): ${body.slice(0, 200)}`,
+                response.status,
+                parseRetryAfter(response.headers.get('Retry-After')),
+            );
+        }
+        return response;
+    };
+
+    const postJson = (path: string, body: object, signal?: AbortSignal) =>
+        send(path, { method: 'POST', body: JSON.stringify(body), signal });
+
+    const jsonResponseFormat = (request: AiJsonRequest) => ({
+        response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: request.schema },
+        },
+    });
+
+    const complete = async (request: AiTextRequest, extra: object = {}): Promise<string> => {
+        const response = await postJson('/chat/completions', {
+            model: settings.textModel,
+            messages: buildMessages(request),
+            ...extra,
+        }, request.signal);
+        const data = await response.json();
+        recordUsage(request.context.feature, settings.textModel, data.usage);
+        return data.choices?.[0]?.message?.content || '';
+    };
+
+    const streamCompletion = async (request: AiTextRequest, extra: object = {}): Promise<AsyncGenerator<AiStreamChunk>> => {
+        const response = await postJson('/chat/completions', {
+            model: settings.textModel,
+            messages: buildMessages(request),
+            stream: true,
+            // Ask for a final event carrying token usage; servers that ignore this just report none.
+            stream_options: { include_usage: true },
+            ...extra,
+        }, request.signal);
+        if (!response.body) {
+            throw new Error("AI 서버가 스트리밍 응답을 지원하지 않습니다.");
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+
+        // Parse the server-sent events stream: each event is a `data: {...}` line.
+        return (async function* (): AsyncGenerator<AiStreamChunk> {
+            let buffer = '';
+            let usage: ChatUsage | undefined;
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffer += decoder.decode(value, { stream: true });
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() || '';
+                    for (const line of lines) {
+                        const trimmed = line.trim();
+                        if (!trimmed.startsWith('data:')) continue;
+                        const payload = trimmed.slice(5).trim();
+                        if (payload === '[DONE]') return;
+                        let event;
+                        try {
+                            event = JSON.parse(payload);
+                        } catch {
+                            console.warn("Skipping malformed stream event:", payload);
+                            continue;
+                        }
+                        usage = event.usage ?? usage;
+                        const text = event.choices?.[0]?.delta?.content;
+                        if (text) yield { text };
+                    }
+                }
+            } finally {
+                recordUsage(request.context.feature, settings.textModel, usage);
+            }
+        })();
+    };
+
+    return {
+        id: 'openai-compatible',
+        textModel: settings.textModel,
+        imageModel: settings.imageModel,
+
+        async validate() {
+            try {
+                await send('/models');
+            } catch (error) {
+                console.error("AI server validation failed:", error);
+                throw new Error("AI 서버에 연결할 수 없습니다. 서버 주소와 키를 확인해주세요.");
+            }
+        },
+
+        generateText(request) {
+            return complete(request);
+        },
+
+        generateTextStream(request) {
+            return streamCompletion(request);
+        },
+
+        async generateJson<T>(request: AiJsonRequest) {
+            const text = await complete(request, jsonResponseFormat(request));
+            return JSON.parse(stripCodeFence(text)) as T;
+        },
+
+        generateJsonStream(request) {
+            return streamCompletion(request, jsonResponseFormat(request));
+        },
+
+        async generateImage(prompt, signal) {
+            if (!settings.imageModel) return null;
+            const response = await postJson('/images/generations', {
+                model: settings.imageModel,
+                prompt,
+                size: '1024x1024',
+                response_format: 'b64_json',
+            }, signal);
+            const data = await response.json();
+            recordUsage('image', settings.imageModel);
+            return data.data?.[0]?.b64_json || null;
+        },
+
+        async generateSpeech(text: string, voice: TTSVoice, signal?: AbortSignal) {
+            if (!settings.speechModel) {
+                throw new Error("현재 AI 서버 설정에서는 음성 합성을 사용할 수 없습니다.");
+            }
+            // 'pcm' is raw 16-bit little-endian PCM at 24kHz, the same format Gemini TTS returns.
+            const response = await postJson('/audio/speech', {
+                model: settings.speechModel,
+                input: text,
+                voice: VOICE_MAP[voice],
+                response_format: 'pcm',
+            }, signal);
+            recordUsage('tts', settings.speechModel);
+            const bytes = new Uint8Array(await response.arrayBuffer());
+            let binary = '';
+            for (let i = 0; i < bytes.length; i++) {
+                binary += String.fromCharCode(bytes[i]);
+            }
+            return btoa(binary);
+        },
+    };
+};
@@ -0,0 +1,165 @@
+import type { QuizQuestion, QuestionType } from '../types.ts';
+import { compareMathAnswers } from './mathEquivalence.ts';
+import { normalizePlotSpec } from './plotSpec.ts';
+import { parseDiagram } from './diagramSpec.ts';
+import { DEFAULT_EXAM_POINTS } from '../constants.ts';
+
+// Checks generated questions against the invariants the Quiz UI relies on, and fixes the
+// mechanical problems (answer given as an option number, missing OX options) locally.
+
+export const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'short-answer', 'ox', 'creativity'];
+export const MULTIPLE_CHOICE_OPTION_COUNT = 5;
+export const OX_OPTIONS = ['O', 'X'];
+export const EXAM_POINT_VALUES = [2, 3, 4];
+
+const CIRCLED_NUMBERS = ['①', '②', '③', '④', '⑤', '⑥', '⑦', '⑧', '⑨', '⑩'];
+
+// Same normalisation the Quiz uses when comparing answers.
+const normalize = (text: string) => text.replace(/\s+/g, '').replace(/[.,]$/, '').toLowerCase();
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+
+// Maps "3", "3.", "(3)", "③" or "③ y=2x" to the zero-based option index, or -1.
+const parseOptionIndex = (answer: string, optionCount: number): number => {
+    const trimmed = answer.trim();
+    const circled = CIRCLED_NUMBERS.findIndex(symbol => trimmed.startsWith(symbol));
+    if (circled !== -1) return circled < optionCount ? circled : -1;
+    const match = trimmed.match(/^\(?(\d+)[.)]?$/);
+    if (!match) return -1;
+    const index = Number(match[1]) - 1;
+    return index >= 0 && index < optionCount ? index : -1;
+};
+
+const normalizeOx = (answer: string): string | null => {
+    const value = normalize(answer);
+    if (['o', '○', 'ㅇ', 'true', '참', '맞다', '예'].includes(value)) return 'O';
+    if (['x', '×', 'false', '거짓', '틀리다', '아니오'].includes(value)) return 'X';
+    return null;
+};
+
+// Applies fixes that need no model call. Returns a new object; the input is not modified.
+export const normalizeQuestion = (question: QuizQuestion): QuizQuestion => {
+    const fixed: QuizQuestion = { ...question };
+    if (typeof fixed.questionType === 'string') {
+        fixed.questionType = fixed.questionType.trim().toLowerCase() as QuestionType;
+    }
+    if (typeof fixed.answer === 'string') {
+        fixed.answer = fixed.answer.trim();
+    }
+
+    switch (fixed.questionType) {
+        case 'ox': {
+            fixed.options = OX_OPTIONS;
+            fixed.optionsTranslation = undefined;
+            const ox = typeof fixed.answer === 'string' ? normalizeOx(fixed.answer) : null;
+            if (ox) fixed.answer = ox;
+            break;
+        }
+        case 'multiple-choice': {
+            const options = (fixed.options || []).map(option => (typeof option === 'string' ? option.trim() : option));
+            fixed.options = options;
+            if (typeof fixed.answer === 'string' && !options.some(option => normalize(option) === normalize(fixed.answer))) {
+                const index = parseOptionIndex(fixed.answer, options.length);
+                if (index !== -1) {
+                    fixed.answer = options[index];
+                    if (fixed.answerTranslation && fixed.optionsTranslation?.[index]) {
+                        fixed.answerTranslation = fixed.optionsTranslation[index];
+                    }
+                }
+            }
+            break;
+        }
+        case 'short-answer':
+        case 'creativity':
+            fixed.options = undefined;
+            fixed.optionsTranslation = undefined;
+            break;
+    }
+
+    // Steps are optional: keep the usable ones and fall back to the explanation otherwise.
+    const steps = (Array.isArray(fixed.solutionSteps) ? fixed.solutionSteps : [])
+        .filter(step => step && (!isBlank(step.latex) || !isBlank(step.justification)))
+        .map(step => ({
+            latex: typeof step.latex === 'string' ? step.latex.trim().replace(/^\$+|\$+$/g, '').trim() : '',
+            justification: typeof step.justification === 'string' ? step.justification.trim() : '',
+        }));
+    fixed.solutionSteps = steps.length > 0 ? steps : undefined;
+
+    // A graph that can't be drawn is dropped rather than failing the question.
+    fixed.plot = normalizePlotSpec(fixed.plot) ?? undefined;
+    fixed.diagram = typeof fixed.diagram === 'string' && parseDiagram(fixed.diagram) ? fixed.diagram.trim() : undefined;
+    // Any other 배점 is dropped and the default for the question type used instead.
+    fixed.points = EXAM_POINT_VALUES.includes(Number(fixed.points)) ? Number(fixed.points) : undefined;
+    return fixed;
+};
+
+// 배점 of a question in exam mode.
+export const questionPoints = (question: QuizQuestion): number =>
+    question.points ?? DEFAULT_EXAM_POINTS[question.questionType] ?? 3;
+
+// Loose comparison for the answer an independent solver gave: ignores math delimiters,
+// sizing commands and a leading "x =" so that "$x=3$" and "3" agree.
+const normalizeSolvedAnswer = (text: string) =>
+    normalize(text.replace(/\$/g, '').replace(/\\(left|right)/g, '').replace(/^\s*[a-zA-Z]\s*=/, ''));
+
+// Whether the solver's answer agrees with the answer key. Null when it can't be compared.
+export const solvedAnswerAgrees = (question: QuizQuestion, solvedAnswer: string): boolean | null => {
+    if (isBlank(solvedAnswer)) return null;
+    switch (question.questionType) {
+        case 'ox':
+            return normalizeOx(solvedAnswer) === question.answer;
+        case 'multiple-choice': {
+            const options = question.options || [];
+            let index = options.findIndex(option => normalizeSolvedAnswer(option) === normalizeSolvedAnswer(solvedAnswer));
+            if (index === -1) index = parseOptionIndex(solvedAnswer, options.length);
+            if (index === -1) return null;
+            return normalize(options[index]) === normalize(question.answer);
+        }
+        case 'short-answer': {
+            const result = compareMathAnswers(solvedAnswer, question.answer);
+            if (result !== 'unknown') return result === 'equivalent';
+            // Text that reads differently may still be the same answer ("sin 2x", "2sin x cos x").
+            return normalizeSolvedAnswer(solvedAnswer) === normalizeSolvedAnswer(question.answer) ? true : null;
+        }
+        default:
+            return null;
+    }
+};
+
+// Returns the problems that make a question unusable, or an empty list if it is valid.
+export const findQuestionProblems = (question: QuizQuestion, requireTranslations = false): string[] => {
+    const problems: string[] = [];
+    if (!QUESTION_TYPES.includes(question.questionType)) {
+        problems.push(`questionType "${question.questionType}" is not one of ${QUESTION_TYPES.join(', ')}`);
+    }
+    if (isBlank(question.question)) problems.push('question is empty');
+    if (isBlank(question.answer)) problems.push('answer is empty');
+    if (isBlank(question.explanation)) problems.push('explanation is empty');
+    if (requireTranslations) {
+        if (isBlank(question.questionTranslation)) problems.push('questionTranslation is missing');
+        if (isBlank(question.answerTranslation)) problems.push('answerTranslation is missing');
+        if (isBlank(question.explanationTranslation)) problems.push('explanationTranslation is missing');
+    }
+
+    if (question.questionType === 'multiple-choice') {
+        const options = question.options || [];
+        if (options.length !== MULTIPLE_CHOICE_OPTION_COUNT) {
+            problems.push(`must have exactly ${MULTIPLE_CHOICE_OPTION_COUNT} options, got ${options.length}`);
+        }
+        if (options.some(isBlank)) problems.push('some options are empty');
+        const normalizedOptions = options.filter(option => !isBlank(option)).map(normalize);
+        if (new Set(normalizedOptions).size !== normalizedOptions.length) problems.push('options contain duplicates');
+        if (!isBlank(question.answer)) {
+            const matches = normalizedOptions.filter(option => option === normalize(question.answer)).length;
+            if (matches === 0) problems.push('answer does not exactly match any option text');
+        }
+        if (question.optionsTranslation && question.optionsTranslation.length !== options.length) {
+            problems.push('optionsTranslation length does not match options');
+        }
+    }
+
+    if (question.questionType === 'ox' && !OX_OPTIONS.includes(question.answer)) {
+        problems.push(`answer must be "O" or "X", got "${question.answer}"`);
+    }
+    return problems;
+};
@@ -0,0 +1,188 @@
+import type { AiFeature } from '../types.ts';
+import { AiRequestError, isAbortError } from './aiProvider.ts';
+import type { AiProvider, AiJsonRequest } from './aiProvider.ts';
+import { assertWithinUsageBudget } from './usageLedger.ts';
+
+// Central queue for every AI call: limits concurrency, retries transient failures with
+// exponential backoff (honouring Retry-After), and pauses all traffic while rate limited.
+// Optional features are dropped first when the quota runs short.
+
+export interface AiSchedulerState {
+    activeCount: number;
+    queuedCount: number;
+    cooldownUntil: number | null; // Epoch ms until which no request is sent
+    degradedUntil: number | null; // Epoch ms until which optional features are skipped
+}
+
+const MAX_CONCURRENT_REQUESTS = 2;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+// Longer waits (e.g. a daily quota reset) fail right away instead of leaving the student staring at a spinner.
+const MAX_RETRY_WAIT_MS = 60 * 1000;
+const DEGRADE_WINDOW_MS = 5 * 60 * 1000;
+
+// The study flow works without these, so they are skipped rather than queued when quota is tight.
+// Only requests the app makes on its own belong here; a summary the student asked for is not optional.
+const OPTIONAL_FEATURES: AiFeature[] = ['image', 'summary', 'memory', 'misconception'];
+
+interface Waiter {
+    optional: boolean;
+    resolve: () => void;
+}
+
+let state: AiSchedulerState = { activeCount: 0, queuedCount: 0, cooldownUntil: null, degradedUntil: null };
+const listeners = new Set<() => void>();
+const waiters: Waiter[] = [];
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+
+const setState = (patch: Partial<AiSchedulerState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+};
+
+export const getAiSchedulerState = () => state;
+
+export const subscribeAiScheduler = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const isOptional = (feature: AiFeature) => OPTIONAL_FEATURES.includes(feature);
+
+const isDegraded = () => state.degradedUntil !== null && Date.now() < state.degradedUntil;
+
+const cooldownRemaining = () => (state.cooldownUntil === null ? 0 : Math.max(0, state.cooldownUntil - Date.now()));
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const backoffDelay = (attempt: number) =>
+    Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+
+const getStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+export const isQuotaError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    return getStatus(error) === 429 || message.includes('429') || message.includes('RESOURCE_EXHAUSTED');
+};
+
+// Gemini reports the wait in the error body (`"retryDelay": "23s"`); OpenAI-compatible servers use the Retry-After header.
+const getRetryAfterMs = (error: unknown): number | undefined => {
+    const retryAfterMs = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+    if (typeof retryAfterMs === 'number') return retryAfterMs;
+    const message = error instanceof Error ? error.message : '';
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const isRetryable = (error: unknown) => {
+    const status = getStatus(error);
+    if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+    // fetch rejects with a TypeError when the network is down
+    return error instanceof TypeError || isQuotaError(error);
+};
+
+const pump = () => {
+    if (pumpTimer) {
+        clearTimeout(pumpTimer);
+        pumpTimer = null;
+    }
+    const wait = cooldownRemaining();
+    if (wait > 0) {
+        if (waiters.length > 0) pumpTimer = setTimeout(pump, wait);
+        return;
+    }
+    let activeCount = state.activeCount;
+    while (activeCount < MAX_CONCURRENT_REQUESTS && waiters.length > 0) {
+        activeCount++;
+        waiters.shift()!.resolve();
+    }
+    setState({ activeCount, queuedCount: waiters.length, cooldownUntil: null });
+};
+
+const acquireSlot = (optional: boolean) => new Promise<void>(resolve => {
+    const waiter = { optional, resolve };
+    // Essential requests jump ahead of queued optional ones.
+    const firstOptional = optional ? -1 : waiters.findIndex(w => w.optional);
+    if (firstOptional === -1) {
+        waiters.push(waiter);
+    } else {
+        waiters.splice(firstOptional, 0, waiter);
+    }
+    setState({ queuedCount: waiters.length });
+    pump();
+});
+
+const releaseSlot = () => {
+    setState({ activeCount: state.activeCount - 1 });
+    pump();
+};
+
+const startCooldown = (ms: number) => {
+    const until = Date.now() + ms;
+    setState({
+        cooldownUntil: Math.max(until, state.cooldownUntil ?? 0),
+        degradedUntil: Date.now() + Math.max(ms, DEGRADE_WINDOW_MS),
+    });
+};
+
+export const scheduleAiRequest = async <T,>(feature: AiFeature, task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    assertWithinUsageBudget(feature);
+    const optional = isOptional(feature);
+    for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        if (optional && isDegraded()) {
+            throw new AiRequestError("AI 사용량 한도에 가까워 부가 기능(이미지, 요약, 오답 원인 분석)을 잠시 건너뜁니다.", 429);
+        }
+        if (cooldownRemaining() > MAX_RETRY_WAIT_MS) {
+            throw new AiRequestError("AI 사용량 한도에 도달했습니다. 한도가 초기화된 후 다시 시도해주세요.", 429, cooldownRemaining());
+        }
+
+        await acquireSlot(optional);
+        let failure: unknown;
+        try {
+            // The caller may have given up while this request was waiting in the queue.
+            signal?.throwIfAborted();
+            return await task();
+        } catch (error) {
+            failure = error;
+        } finally {
+            releaseSlot();
+        }
+
+        const retryAfterMs = getRetryAfterMs(failure);
+        const wait = retryAfterMs ?? backoffDelay(attempt);
+        if (isQuotaError(failure)) {
+            startCooldown(wait);
+        }
+        // Optional features give up at once so their retries don't eat the quota essential ones need.
+        if (isAbortError(failure) || optional || !isRetryable(failure) || attempt >= MAX_RETRIES || wait > MAX_RETRY_WAIT_MS) {
+            throw failure;
+        }
+        console.warn(`AI request (${feature}) failed, retrying in ${Math.round(wait / 1000)}s:`, failure);
+        if (!isQuotaError(failure)) {
+            // Quota failures wait in the queue for the shared cooldown instead.
+            await delay(wait);
+        }
+    }
+};
+
+// Routes every call of a provider through the scheduler. Streams hold their slot only
+// until the response starts, since rate limits are applied when the request is accepted.
+export const withRequestScheduler = (provider: AiProvider): AiProvider => ({
+    ...provider,
+    generateText: request => scheduleAiRequest(request.context.feature, () => provider.generateText(request), request.signal),
+    generateTextStream: request =>
+        scheduleAiRequest(request.context.feature, () => provider.generateTextStream(request), request.signal),
+    generateJson: <T,>(request: AiJsonRequest) =>
+        scheduleAiRequest(request.context.feature, () => provider.generateJson<T>(request), request.signal),
+    generateJsonStream: request =>
+        scheduleAiRequest(request.context.feature, () => provider.generateJsonStream(request), request.signal),
+    generateImage: (prompt, signal) => scheduleAiRequest('image', () => provider.generateImage(prompt, signal), signal),
+    generateSpeech: (text, voice, signal) => scheduleAiRequest('tts', () => provider.generateSpeech(text, voice, signal), signal),
+});
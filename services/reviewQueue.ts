@@ -0,0 +1,160 @@
+import type { QuizResult, ReviewCard, ReviewGrade } from '../types.ts';
+import {
+    REVIEW_FIRST_INTERVALS_DAYS,
+    REVIEW_INITIAL_EASE,
+    REVIEW_MIN_EASE,
+    REVIEW_RETIRE_INTERVAL_DAYS,
+    DAILY_REVIEW_LIMIT,
+    REVIEW_QUEUE_LIMIT,
+} from '../constants.ts';
+import { toDateKey } from './usageLedger.ts';
+import { questionStandard } from './studyHistory.ts';
+
+// Spaced review of missed questions. Every question answered wrong becomes a card that comes
+// back the next day; answering it right pushes it further out, missing it again brings it back.
+// Cards live in localStorage apart from the study history, so they outlive its STUDY_HISTORY_LIMIT.
+
+export const REVIEW_QUEUE_STORAGE_KEY = 'review_queue';
+
+const readStorage = <T,>(key: string, fallback: T): T => {
+    try {
+        const item = window.localStorage.getItem(key);
+        return item ? JSON.parse(item) : fallback;
+    } catch (error) {
+        console.error(error);
+        return fallback;
+    }
+};
+
+const addDays = (dateKey: string, days: number) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return toDateKey(new Date(year, month - 1, day + days));
+};
+
+// Whole days from today until a date key; negative when it is overdue.
+export const daysUntil = (dateKey: string, today: string = toDateKey()) => {
+    const toTime = (key: string) => {
+        const [year, month, day] = key.split('-').map(Number);
+        return new Date(year, month - 1, day).getTime();
+    };
+    return Math.round((toTime(dateKey) - toTime(today)) / (24 * 60 * 60 * 1000));
+};
+
+// Cards for the questions a result got wrong. Creativity questions have no single right
+// answer to come back to, so they are left out.
+export const cardsFromResult = (result: QuizResult): ReviewCard[] =>
+    (result.questions || []).flatMap((question, index) => {
+        if (result.correctness?.[index] !== false || question.questionType === 'creativity') return [];
+        return [{
+            id: `${result.id}#${index}`,
+            resultId: result.id,
+            questionIndex: index,
+            question,
+            studentAnswer: result.userAnswers?.[index] ?? null,
+            subjectName: result.subject,
+            ...questionStandard(result, index),
+            addedAt: result.date,
+            due: addDays(toDateKey(new Date(result.date)), 1),
+            intervalDays: 0,
+            ease: REVIEW_INITIAL_EASE,
+            repetitions: 0,
+            lapses: 0,
+        }];
+    });
+
+// Learned cards go first, then the ones missed longest ago.
+const pruneQueue = (cards: ReviewCard[]) => {
+    if (cards.length <= REVIEW_QUEUE_LIMIT) return cards;
+    const dropOrder = [...cards].sort((a, b) => Number(!!b.retiredAt) - Number(!!a.retiredAt) || a.addedAt.localeCompare(b.addedAt));
+    const dropped = new Set(dropOrder.slice(0, cards.length - REVIEW_QUEUE_LIMIT).map(card => card.id));
+    return cards.filter(card => !dropped.has(card.id));
+};
+
+// Cards already in the queue keep their schedule.
+const mergeCards = (cards: ReviewCard[], newCards: ReviewCard[]) => {
+    const known = new Set(cards.map(card => card.id));
+    const added = newCards.filter(card => !known.has(card.id));
+    return added.length > 0 ? pruneQueue([...cards, ...added]) : cards;
+};
+
+// The first time the queue is used, it picks up the mistakes already in the study history.
+const loadQueue = (): ReviewCard[] => {
+    const stored = readStorage<ReviewCard[] | null>(REVIEW_QUEUE_STORAGE_KEY, null);
+    if (stored) return stored;
+    return mergeCards([], readStorage<QuizResult[]>('studyHistory', []).flatMap(cardsFromResult));
+};
+
+let queue: ReviewCard[] = loadQueue();
+const listeners = new Set<() => void>();
+
+const saveQueue = (next: ReviewCard[]) => {
+    queue = next;
+    try {
+        window.localStorage.setItem(REVIEW_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    } catch (error) {
+        console.error("Failed to write review queue", error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const getReviewQueue = () => queue;
+
+export const subscribeReviewQueue = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Safe to call again for the same result (e.g. once its mistakes are classified).
+export const addMissedQuestions = (result: QuizResult) => {
+    const next = mergeCards(queue, cardsFromResult(result));
+    if (next !== queue) saveQueue(next);
+};
+
+// SM-2 with the quiz outcome as the grade: a miss starts the card over from tomorrow,
+// a right answer with hints grows the interval a little and lowers the ease.
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, today: string = toDateKey()): ReviewCard => {
+    let { intervalDays, ease, repetitions, lapses } = card;
+    if (grade === 'again') {
+        intervalDays = 1;
+        ease = Math.max(REVIEW_MIN_EASE, ease - 0.2);
+        repetitions = 0;
+        lapses += 1;
+    } else if (grade === 'hard') {
+        intervalDays = Math.max(1, Math.round(intervalDays * 1.2));
+        ease = Math.max(REVIEW_MIN_EASE, ease - 0.15);
+        repetitions += 1;
+    } else {
+        intervalDays = REVIEW_FIRST_INTERVALS_DAYS[repetitions] ?? Math.round(intervalDays * ease);
+        repetitions += 1;
+    }
+    const reviewedAt = new Date().toISOString();
+    return {
+        ...card,
+        intervalDays,
+        ease: Number(ease.toFixed(2)),
+        repetitions,
+        lapses,
+        due: addDays(today, intervalDays),
+        lastReviewedAt: reviewedAt,
+        retiredAt: intervalDays >= REVIEW_RETIRE_INTERVAL_DAYS ? reviewedAt : undefined,
+    };
+};
+
+export const recordReviews = (grades: { cardId: string; grade: ReviewGrade }[]) => {
+    const gradeById = new Map(grades.map(item => [item.cardId, item.grade]));
+    saveQueue(queue.map(card => (gradeById.has(card.id) ? scheduleReview(card, gradeById.get(card.id)!) : card)));
+};
+
+export const getActiveCards = (cards: ReviewCard[] = queue) => cards.filter(card => !card.retiredAt);
+
+export const countReviewedToday = (cards: ReviewCard[] = queue, today: string = toDateKey()) =>
+    cards.filter(card => card.lastReviewedAt && toDateKey(new Date(card.lastReviewedAt)) === today).length;
+
+// Today's review: the most overdue cards first, up to DAILY_REVIEW_LIMIT a day.
+export const getDueCards = (cards: ReviewCard[] = queue, today: string = toDateKey()) =>
+    getActiveCards(cards)
+        .filter(card => card.due <= today)
+        .sort((a, b) => a.due.localeCompare(b.due) || a.addedAt.localeCompare(b.addedAt))
+        .slice(0, Math.max(0, DAILY_REVIEW_LIMIT - countReviewedToday(cards, today)));
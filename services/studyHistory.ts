@@ -0,0 +1,68 @@
+import type { QuizResult, QuizQuestion, MisconceptionType, AchievementStandard, StandardResult } from '../types.ts';
+import { STUDY_HISTORY_LIMIT } from '../constants.ts';
+
+// Helpers for the quiz results kept in localStorage under 'studyHistory'.
+
+// Adds a result, or replaces the saved one with the same id (e.g. once its mistakes are
+// classified), keeping only the latest STUDY_HISTORY_LIMIT results.
+export const upsertStudyResult = (history: QuizResult[], result: QuizResult): QuizResult[] => {
+    if (history.some(item => item.id === result.id)) {
+        return history.map(item => (item.id === result.id ? result : item));
+    }
+    return [...history, result].slice(-STUDY_HISTORY_LIMIT);
+};
+
+// Indexes of the questions whose wrong answer can be classified: answered, graded wrong,
+// and not a creativity question (those have no single right answer).
+export const findClassifiableMistakes = (result: QuizResult): number[] =>
+    (result.questions || []).flatMap((question, index) => {
+        const answer = result.userAnswers?.[index];
+        const isWrong = result.correctness?.[index] === false;
+        return isWrong && question.questionType !== 'creativity' && answer && answer.trim() !== '' ? [index] : [];
+    });
+
+// Per-standard results of a mixed quiz, in the order of `standards`. Standards without questions are left out.
+export const buildStandardBreakdown = (
+    standards: AchievementStandard[],
+    questions: QuizQuestion[],
+    correctness: (boolean | null)[]
+): StandardResult[] =>
+    standards.flatMap(standard => {
+        const indexes = questions.flatMap((question, index) => (question.standardId === standard.id ? [index] : []));
+        if (indexes.length === 0) return [];
+        const correctAnswers = indexes.filter(index => correctness[index] === true).length;
+        return [{
+            standardId: standard.id,
+            standardDescription: standard.description,
+            score: (correctAnswers / indexes.length) * 100,
+            totalQuestions: indexes.length,
+            correctAnswers,
+        }];
+    });
+
+// The standard a question of the result belongs to; in a mixed quiz each question has its own.
+export const questionStandard = (result: QuizResult, index: number) => {
+    const standardId = result.questions?.[index]?.standardId ?? result.standardId;
+    const part = result.standardBreakdown?.find(item => item.standardId === standardId);
+    return { standardId, standardDescription: part?.standardDescription ?? result.standardDescription };
+};
+
+// A mixed quiz counts once per standard it covered in per-subject and per-unit stats.
+export const splitByStandard = (result: QuizResult): QuizResult[] =>
+    result.standardBreakdown && result.standardBreakdown.length > 0
+        ? result.standardBreakdown.map(part => ({ ...result, ...part }))
+        : [result];
+
+export const needsMisconceptionTagging = (result: QuizResult) =>
+    result.misconceptions === undefined && findClassifiableMistakes(result).length > 0;
+
+// Number of tagged mistakes of each kind across the given results.
+export const countMisconceptions = (results: QuizResult[]): Partial<Record<MisconceptionType, number>> => {
+    const counts: Partial<Record<MisconceptionType, number>> = {};
+    for (const result of results) {
+        for (const tag of result.misconceptions || []) {
+            if (tag) counts[tag.type] = (counts[tag.type] ?? 0) + 1;
+        }
+    }
+    return counts;
+};
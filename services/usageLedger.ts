@@ -0,0 +1,137 @@
+import type { AiFeature, AiUsageLedger, AiUsageTotals, AiUsageBudget } from '../types.ts';
+import { AI_MODEL_PRICING, DEFAULT_AI_USAGE_BUDGET } from '../constants.ts';
+
+// Local record of AI usage per day and feature, plus the optional daily budgets a parent or
+// teacher can set. Everything lives in localStorage on this device only.
+
+export const USAGE_LEDGER_STORAGE_KEY = 'ai_usage_ledger';
+export const USAGE_BUDGET_STORAGE_KEY = 'ai_usage_budget';
+const LEDGER_RETENTION_DAYS = 30;
+
+export interface AiUsageRecord {
+    feature: AiFeature;
+    model: string;
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+// Thrown when a request would go over a daily budget set to 'block'.
+export class UsageBudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageBudgetExceededError';
+    }
+}
+
+const EMPTY_TOTALS: AiUsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 };
+
+const readStorage = <T,>(key: string, fallback: T): T => {
+    try {
+        const item = window.localStorage.getItem(key);
+        return item ? JSON.parse(item) : fallback;
+    } catch (error) {
+        console.error(error);
+        return fallback;
+    }
+};
+
+let ledger: AiUsageLedger = readStorage<AiUsageLedger>(USAGE_LEDGER_STORAGE_KEY, {});
+const listeners = new Set<() => void>();
+
+const saveLedger = (next: AiUsageLedger) => {
+    ledger = next;
+    try {
+        window.localStorage.setItem(USAGE_LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+    } catch (error) {
+        console.error("Failed to write usage ledger", error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+// Local calendar date, so "today" matches what the student sees on their clock.
+export const toDateKey = (date: Date = new Date()) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getUsageLedger = () => ledger;
+
+export const subscribeUsageLedger = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const sumUsage = (byFeature: Partial<Record<AiFeature, AiUsageTotals>> = {}): AiUsageTotals =>
+    Object.values(byFeature).reduce<AiUsageTotals>((sum, totals) => ({
+        requests: sum.requests + totals.requests,
+        inputTokens: sum.inputTokens + totals.inputTokens,
+        outputTokens: sum.outputTokens + totals.outputTokens,
+        estimatedCostUsd: sum.estimatedCostUsd + totals.estimatedCostUsd,
+    }), EMPTY_TOTALS);
+
+export const recordAiUsage = ({ feature, model, inputTokens = 0, outputTokens = 0 }: AiUsageRecord) => {
+    const price = AI_MODEL_PRICING[model];
+    const cost = price ? (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 : 0;
+
+    const today = toDateKey();
+    const previous = ledger[today]?.[feature] ?? EMPTY_TOTALS;
+    const next: AiUsageLedger = {
+        ...ledger,
+        [today]: {
+            ...ledger[today],
+            [feature]: {
+                requests: previous.requests + 1,
+                inputTokens: previous.inputTokens + inputTokens,
+                outputTokens: previous.outputTokens + outputTokens,
+                estimatedCostUsd: previous.estimatedCostUsd + cost,
+            },
+        },
+    };
+
+    const oldestKept = toDateKey(new Date(Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    for (const day of Object.keys(next)) {
+        if (day < oldestKept) delete next[day];
+    }
+    saveLedger(next);
+};
+
+export const clearUsageLedger = () => saveLedger({});
+
+export const getUsageBudget = (): AiUsageBudget => ({
+    ...DEFAULT_AI_USAGE_BUDGET,
+    ...readStorage<Partial<AiUsageBudget>>(USAGE_BUDGET_STORAGE_KEY, {}),
+});
+
+// Lists the daily budgets already used up today, as messages for the UI.
+export const getBudgetOverruns = (budget: AiUsageBudget = getUsageBudget()): string[] => {
+    const today = ledger[toDateKey()] ?? {};
+    const totals = sumUsage(today);
+    const overruns: string[] = [];
+    if (budget.dailyTokenLimit > 0 && totals.inputTokens + totals.outputTokens >= budget.dailyTokenLimit) {
+        overruns.push(`오늘 사용한 토큰이 한도(${budget.dailyTokenLimit.toLocaleString()})에 도달했습니다.`);
+    }
+    if (budget.dailyImageLimit > 0 && (today.image?.requests ?? 0) >= budget.dailyImageLimit) {
+        overruns.push(`오늘 이미지 생성 횟수가 한도(${budget.dailyImageLimit}회)에 도달했습니다.`);
+    }
+    if (budget.dailySpeechLimit > 0 && (today.tts?.requests ?? 0) >= budget.dailySpeechLimit) {
+        overruns.push(`오늘 음성 듣기 횟수가 한도(${budget.dailySpeechLimit}회)에 도달했습니다.`);
+    }
+    return overruns;
+};
+
+export const assertWithinUsageBudget = (feature: AiFeature) => {
+    const budget = getUsageBudget();
+    if (budget.action !== 'block') return;
+
+    const today = ledger[toDateKey()] ?? {};
+    const totals = sumUsage(today);
+    if (feature === 'image' && budget.dailyImageLimit > 0 && (today.image?.requests ?? 0) >= budget.dailyImageLimit) {
+        throw new UsageBudgetExceededError("오늘의 이미지 생성 한도에 도달했습니다. 사용량 화면에서 한도를 확인해주세요.");
+    }
+    if (feature === 'tts' && budget.dailySpeechLimit > 0 && (today.tts?.requests ?? 0) >= budget.dailySpeechLimit) {
+        throw new UsageBudgetExceededError("오늘의 음성 듣기 한도에 도달했습니다. 사용량 화면에서 한도를 확인해주세요.");
+    }
+    if (budget.dailyTokenLimit > 0 && totals.inputTokens + totals.outputTokens >= budget.dailyTokenLimit) {
+        throw new UsageBudgetExceededError("오늘의 AI 사용 한도(토큰)에 도달했습니다. 내일 다시 이용하거나 사용량 화면에서 한도를 조정해주세요.");
+    }
+};
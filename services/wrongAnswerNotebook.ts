@@ -0,0 +1,114 @@
+import type { QuizResult, ReviewCard, WrongAnswerItem, WrongAnswerNote } from '../types.ts';
+import { MISCONCEPTION_OPTIONS } from '../constants.ts';
+import { questionStandard } from './studyHistory.ts';
+import { ALL_STANDARD_LOCATIONS, findStandardLocation } from './prerequisites.ts';
+
+// The 오답노트: every missed question, grouped by subject, unit and standard, with the
+// student's own notes kept in localStorage under WRONG_ANSWER_NOTES_STORAGE_KEY.
+
+export const WRONG_ANSWER_NOTES_STORAGE_KEY = 'wrong_answer_notes';
+
+export interface WrongAnswerGroup {
+    subjectName: string;
+    units: {
+        unitName: string; // "선택과목 > 단원"
+        standards: { standardId: string; standardDescription: string; items: WrongAnswerItem[] }[];
+    }[];
+}
+
+// Missed questions from the study history, plus the ones only the review queue still
+// remembers because their quiz has dropped out of the history. Newest first.
+export const collectWrongAnswers = (history: QuizResult[], cards: ReviewCard[]): WrongAnswerItem[] => {
+    const fromHistory: WrongAnswerItem[] = history.flatMap(result =>
+        (result.questions || []).flatMap((question, index) => result.correctness?.[index] !== false ? [] : [{
+            id: `${result.id}#${index}`,
+            resultId: result.id,
+            questionIndex: index,
+            date: result.date,
+            subjectName: result.subject,
+            ...questionStandard(result, index),
+            question,
+            studentAnswer: result.userAnswers?.[index] ?? null,
+            misconception: result.misconceptions?.[index],
+        }])
+    );
+    const known = new Set(fromHistory.map(item => item.id));
+    const fromQueue: WrongAnswerItem[] = cards.filter(card => !known.has(card.id)).map(card => ({
+        id: card.id,
+        resultId: card.resultId,
+        questionIndex: card.questionIndex,
+        date: card.addedAt,
+        subjectName: card.subjectName,
+        standardId: card.standardId,
+        standardDescription: card.standardDescription,
+        question: card.question,
+        studentAnswer: card.studentAnswer ?? null,
+    }));
+    return [...fromHistory, ...fromQueue].sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Groups in curriculum order; standards that aren't in the curriculum go last under '기타'.
+export const groupWrongAnswers = (items: WrongAnswerItem[]): WrongAnswerGroup[] => {
+    const order = (standardId: string) => {
+        const index = ALL_STANDARD_LOCATIONS.findIndex(location => location.standard.id === standardId);
+        return index === -1 ? Infinity : index;
+    };
+    const standardIds = [...new Set(items.map(item => item.standardId))].sort((a, b) => order(a) - order(b));
+
+    const groups: WrongAnswerGroup[] = [];
+    for (const standardId of standardIds) {
+        const standardItems = items.filter(item => item.standardId === standardId);
+        const location = findStandardLocation(standardId);
+        const subjectName = standardItems[0].subjectName;
+        const unitName = location ? `${location.grade} > ${location.unitName}` : '기타';
+
+        let group = groups.find(item => item.subjectName === subjectName);
+        if (!group) {
+            group = { subjectName, units: [] };
+            groups.push(group);
+        }
+        let unit = group.units.find(item => item.unitName === unitName);
+        if (!unit) {
+            unit = { unitName, standards: [] };
+            group.units.push(unit);
+        }
+        unit.standards.push({
+            standardId,
+            standardDescription: location?.standard.description ?? standardItems[0].standardDescription,
+            items: standardItems,
+        });
+    }
+    return groups;
+};
+
+// The notebook as a Markdown document, for saving or sharing outside the app.
+export const exportWrongAnswersMarkdown = (groups: WrongAnswerGroup[], notes: Record<string, WrongAnswerNote>): string => {
+    const lines = ['# 오답노트', '', `_${new Date().toLocaleDateString()} 내보냄_`, ''];
+    for (const group of groups) {
+        lines.push(`## ${group.subjectName}`, '');
+        for (const unit of group.units) {
+            lines.push(`### ${unit.unitName}`, '');
+            for (const standard of unit.standards) {
+                lines.push(`#### ${standard.standardId} ${standard.standardDescription}`, '');
+                standard.items.forEach((item, index) => {
+                    const note = notes[item.id];
+                    lines.push(`**문제 ${index + 1}** (${new Date(item.date).toLocaleDateString()})${note?.understoodAt ? ' ✅ 이해 완료' : ''}`, '');
+                    lines.push(item.question.question, '');
+                    if (item.question.options?.length) {
+                        lines.push(item.question.options.map((option, optionIndex) => `${optionIndex + 1}. ${option}`).join('\n'), '');
+                    }
+                    lines.push(`- 나의 답: ${item.studentAnswer || '(미입력)'}`);
+                    lines.push(`- 정답: ${item.question.answer}`);
+                    if (item.misconception) {
+                        const name = MISCONCEPTION_OPTIONS.find(option => option.id === item.misconception!.type)?.name;
+                        lines.push(`- 오답 원인: ${name}${item.misconception.note ? ` — ${item.misconception.note}` : ''}`);
+                    }
+                    lines.push('', `> 해설: ${item.question.explanation.replace(/\n/g, '\n> ')}`, '');
+                    if (note?.note) lines.push('**메모**', '', note.note, '');
+                    if (note?.correction) lines.push('**바른 풀이**', '', note.correction, '');
+                });
+            }
+        }
+    }
+    return lines.join('\n');
+};
@@ -1,13 +1,21 @@
 
 export type QuestionType = 'multiple-choice' | 'short-answer' | 'ox' | 'creativity';
 
-export type View = 'selector' | 'study' | 'dashboard';
+export type View = 'selector' | 'study' | 'mixed' | 'dashboard' | 'review' | 'notebook';
 
 export type Theme = 'light' | 'dark' | 'system';
 
 export interface HistoryState {
     view: View;
     standard: { subjectName: string, standard: AchievementStandard } | null;
+    mixedScope?: MixedQuizScope | null;
+}
+
+// Several standards quizzed together, e.g. a whole unit or 선택과목 for 단원평가 review.
+export interface MixedQuizScope {
+    subjectName: string;
+    title: string; // e.g. "공통수학1 > (1) 다항식의 연산"
+    standards: AchievementStandard[];
 }
 
 export interface AchievementStandard {
@@ -47,7 +55,64 @@ export interface QuizQuestion {
     answerTranslation?: string;
     explanation: string;
     explanationTranslation?: string;
+    solutionSteps?: SolutionStep[]; // Worked solution, revealed one step at a time
     imageBase64?: string;
+    plot?: PlotSpec; // Graph drawn by the app itself, for questions about functions
+    diagram?: string; // Geometry figure in the diagram language (see services/diagramSpec.ts)
+    verification?: AnswerVerification;
+    standardId?: string; // Standard the question tests, set in mixed quizzes
+    points?: number; // 배점 in exam mode: 2, 3 or 4 as in 수능
+}
+
+// A function graph described as data and rendered as SVG, so axes and values are exact.
+// Expressions are plain text in x, e.g. "x^2 - 2x", "2^x", "ln(x)", "sin(2x)".
+export interface PlotSpec {
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+    piTicks?: boolean; // Label the x-axis in multiples of π/2, for trigonometric graphs
+    functions: { expression: string; label?: string; domainMin?: number; domainMax?: number }[];
+    points?: { x: number; y: number; label?: string; open?: boolean }[]; // open = excluded point (hollow)
+    asymptotes?: { orientation: 'vertical' | 'horizontal'; value: number }[];
+    shadedRegions?: { upper: string; lower: string; from: number; to: number }[];
+}
+
+// A geometry figure parsed from the diagram language. Named points are resolved to
+// coordinates, so every shape carries its own numbers.
+export type DiagramPoint = [number, number];
+
+export type DiagramShape =
+    | { kind: 'segment' | 'line' | 'ray'; from: DiagramPoint; to: DiagramPoint; dashed?: boolean }
+    | { kind: 'polygon'; vertices: DiagramPoint[]; dashed?: boolean; filled?: boolean }
+    | { kind: 'circle'; center: DiagramPoint; radius: number; dashed?: boolean }
+    | { kind: 'ellipse' | 'hyperbola'; center: DiagramPoint; a: number; b: number; axis: 'x' | 'y'; dashed?: boolean }
+    | { kind: 'parabola'; vertex: DiagramPoint; p: number; axis: 'x' | 'y'; dashed?: boolean }
+    | { kind: 'angle'; vertex: DiagramPoint; from: DiagramPoint; to: DiagramPoint; label?: string; right?: boolean }
+    | { kind: 'vector'; from: DiagramPoint; to: DiagramPoint; label?: string }
+    | { kind: 'equal'; from: DiagramPoint; to: DiagramPoint; marks: number } // tick marks for equal lengths
+    | { kind: 'label'; at: DiagramPoint; text: string };
+
+export interface DiagramSpec {
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+    axes: boolean;
+    points: { name: string; at: DiagramPoint; hidden?: boolean }[];
+    shapes: DiagramShape[];
+}
+
+export interface SolutionStep {
+    latex: string; // The step's math, without $ delimiters
+    justification: string; // Why this step follows from the previous one
+}
+
+// Result of having the model re-solve a question without seeing the answer key.
+export interface AnswerVerification {
+    status: 'verified' | 'disputed' | 'unchecked';
+    solvedAnswer?: string;
+    reasoning?: string;
 }
 
 export interface QuizResult {
@@ -63,6 +128,119 @@ export interface QuizResult {
     questions?: QuizQuestion[];
     userAnswers?: (string | null)[];
     correctness?: (boolean | null)[];
+    hintsUsed?: number[]; // Hints revealed per question; each one lowers that question's credit
+    practiceOf?: PracticeOrigin; // Set on "비슷한 문제" mini-quizzes
+    // Why each wrong answer went wrong; null for questions that weren't missed or couldn't be
+    // classified. Missing until the result has been analysed.
+    misconceptions?: (MisconceptionTag | null)[];
+    // Mixed quizzes: the same result per standard, so per-standard and per-unit stats stay accurate
+    standardBreakdown?: StandardResult[];
+    exam?: ExamRecord; // Set when the quiz was taken in exam mode; `score` is then weighted by 배점
+}
+
+// Exam mode: one timer for the whole quiz and no answers shown until it is handed in.
+export interface ExamSettings {
+    timeLimitMinutes: number;
+}
+
+export interface ExamRecord {
+    timeLimitMinutes: number;
+    elapsedSeconds: number;
+    timedOut: boolean; // Handed in automatically when the time ran out
+    points: number[]; // 배점 per question
+    earnedPoints: number[]; // Per question; short answers can earn part of their points
+    flagged: number[]; // Questions still marked for review when the exam was handed in
+    ungraded?: number[]; // Answers the AI failed to grade; no points and no right/wrong until graded again
+}
+
+export interface StandardResult {
+    standardId: string;
+    standardDescription: string;
+    score: number; // Share of this standard's questions answered correctly, 0-100
+    totalQuestions: number;
+    correctAnswers: number;
+}
+
+export type MisconceptionType = 'calculation' | 'sign' | 'concept' | 'condition' | 'misreading' | 'other';
+
+export interface MisconceptionTag {
+    type: MisconceptionType;
+    note: string; // One sentence on what exactly went wrong
+}
+
+// How a review went, derived from the quiz: wrong, right with hints, or right on its own
+export type ReviewGrade = 'again' | 'hard' | 'good';
+
+// A missed question scheduled for spaced review. Cards keep their own copy of the question,
+// so they outlive the study history they came from.
+export interface ReviewCard {
+    id: string; // `${resultId}#${questionIndex}`
+    resultId: string;
+    questionIndex: number;
+    question: QuizQuestion;
+    studentAnswer?: string | null; // The answer that was missed, for the 오답노트
+    subjectName: string;
+    standardId: string;
+    standardDescription: string;
+    addedAt: string; // Date of the quiz the question was missed in
+    due: string; // Local date key (YYYY-MM-DD) of the next review
+    intervalDays: number; // 0 until the first review
+    ease: number;
+    repetitions: number; // Reviews answered right in a row
+    lapses: number; // Times missed again in review
+    lastReviewedAt?: string;
+    retiredAt?: string; // Set once the interval is long enough that it no longer needs reviewing
+}
+
+// A missed question in the 오답노트, from the study history or, once it has dropped out of
+// the history, from the review queue. The id matches the review card's.
+export interface WrongAnswerItem {
+    id: string; // `${resultId}#${questionIndex}`
+    resultId: string;
+    questionIndex: number;
+    date: string;
+    subjectName: string;
+    standardId: string;
+    standardDescription: string;
+    question: QuizQuestion;
+    studentAnswer: string | null;
+    misconception?: MisconceptionTag | null;
+}
+
+// What the student wrote in the 오답노트 for one item
+export interface WrongAnswerNote {
+    note: string;
+    correction: string; // Their own corrected solution
+    understoodAt?: string; // Set when marked "이해 완료"
+    updatedAt: string;
+}
+
+// Prerequisite standard ids per standard id
+export type PrerequisiteGraph = Record<string, string[]>;
+
+export interface PrerequisiteSuggestion {
+    standardId: string;
+    reason: string;
+}
+
+// Where a standard sits in EDUCATION_CURRICULUMS
+export interface StandardLocation {
+    subjectName: string;
+    grade: string;
+    unitName: string;
+    standard: AchievementStandard;
+}
+
+export interface WeakPrerequisite extends StandardLocation {
+    score: number | null; // Recent average, or null if it hasn't been studied yet
+    depth: number; // 1 for a direct prerequisite, 2 for one of its prerequisites, ...
+}
+
+// The missed question a similar-question practice was generated from.
+export interface PracticeOrigin {
+    resultId: string; // QuizResult.id of the quiz the question came from
+    questionIndex: number;
+    question: string; // Question text, kept so the link reads well even if that result is deleted
 }
 
 export interface ConversationMessage {
@@ -70,6 +248,20 @@ export interface ConversationMessage {
     text: string;
 }
 
+// Q&A turns before `summarizedCount` have been folded into `summary`; later ones are sent verbatim.
+export interface ConversationMemory {
+    summary: string;
+    summarizedCount: number;
+}
+
+export type TutoringMode = 'direct' | 'socratic';
+
+// Where a student got stuck during a Socratic exchange, for the session summary.
+export interface StuckPoint {
+    question: string; // The question that opened the exchange
+    note: string; // What the tutor noticed, e.g. "이차방정식의 근의 공식에서 부호를 헷갈림"
+}
+
 export type TTSVoice = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
 
 export type Grade = 'A' | 'B' | 'C' | 'D' | 'E';
@@ -77,4 +269,93 @@ export type Grade = 'A' | 'B' | 'C' | 'D' | 'E';
 export interface ShortAnswerEvaluation {
     grade: Grade;
     feedback: string;
+    gradedLocally?: boolean; // Decided by the offline math check, without an AI call
+    transcription?: string; // What the grader read from a photo of handwritten work
+    wrongStep?: string; // The first step of the student's work that went wrong, if any
+}
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type AiFeature = 'explanation' | 'summary' | 'follow-up' | 'quiz' | 'grading' | 'tts' | 'image' | 'diagnosis' | 'verification' | 'hint' | 'memory' | 'misconception' | 'prerequisites' | 'session-summary';
+
+export interface AiModelSettings {
+    textModel: string;
+    imageModel: string; // Empty string disables image generation
+    speechModel: string; // Empty string disables TTS
+}
+
+export interface OpenAiCompatibleSettings extends AiModelSettings {
+    baseUrl: string; // e.g. http://192.168.0.10:11434/v1 (Ollama) or a vLLM endpoint
+    apiKey: string; // Optional for most self-hosted servers
+}
+
+export interface AiSettings {
+    provider: AiProviderId;
+    gemini: AiModelSettings;
+    openAiCompatible: OpenAiCompatibleSettings;
+}
+
+export type ContentCacheKind = 'explanation' | 'concept-summary' | 'illustration';
+
+export interface ContentCacheDescriptor {
+    kind: ContentCacheKind;
+    subjectName: string;
+    standardId: string;
+    standardDescription: string;
+    model: string; // Provider and model that produced the content, e.g. "gemini:gemini-2.5-flash"
+    audience: string; // Learner profile the content was written for, see learnerProfileTag
+}
+
+export interface ContentCacheEntry extends ContentCacheDescriptor {
+    key: string;
+    promptVersion: number;
+    value: string;
+    size: number; // Bytes
+    createdAt: number;
+    lastAccessedAt: number;
+}
+
+export interface AiUsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedCostUsd: number;
+}
+
+// Usage per local date (YYYY-MM-DD), then per feature.
+export type AiUsageLedger = Record<string, Partial<Record<AiFeature, AiUsageTotals>>>;
+
+export interface AiUsageBudget {
+    dailyTokenLimit: number; // 0 = no limit
+    dailyImageLimit: number;
+    dailySpeechLimit: number;
+    action: 'warn' | 'block';
+}
+
+export interface DroppedQuestion {
+    question: string;
+    problems: string[];
+}
+
+// What the validator did to a freshly generated quiz.
+export interface QuizValidationReport {
+    repairedCount: number;
+    dropped: DroppedQuestion[];
+}
+
+export interface GeneratedQuiz {
+    questions: QuizQuestion[];
+    report: QuizValidationReport;
+}
+
+export type SchoolLevel = 'middle' | 'high';
+export type LearnerLevel = 'struggling' | 'average' | 'advanced';
+export type ExplanationStyle = 'step-by-step' | 'concise' | 'intuitive' | 'rigorous';
+
+// Who is studying; shapes the tone and depth of every prompt.
+export interface LearnerProfile {
+    schoolLevel: SchoolLevel;
+    grade: number; // 1-3 within the school level
+    selfRatedLevel: LearnerLevel;
+    explanationStyle: ExplanationStyle;
 }